@@ -1,10 +1,10 @@
 import { NextRequest } from "next/server";
-import { ollamaClient } from "@/lib/ollama/client";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { model, prompt, type } = body;
+    const { model, prompt, type, format, host } = body;
 
     if (!model || !prompt) {
       return new Response(
@@ -13,10 +13,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Use the generate endpoint for evaluation (simpler than chat for structured output)
-    const response = await ollamaClient.generate({
+    if (!isValidHost(host)) {
+      return new Response(
+        JSON.stringify({ error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Use the generate endpoint for evaluation (simpler than chat for structured output).
+    // `format` is the JSON schema the judge's reply must follow.
+    const response = await getOllamaClient(host).generate({
       model,
       prompt,
+      format,
       stream: false,
       options: {
         temperature: 0.3, // Lower temperature for more consistent evaluation
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { handleMockRequest } from "@/lib/ollama/mock/server";
+
+// Mock Ollama server - use http://localhost:3000/api/mock-ollama as the
+// Ollama URL (see README). Only active when OLLAMA_MOCK=1.
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+async function handle(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  return handleMockRequest(request.method, path.join("/"), request);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const DELETE = handle;
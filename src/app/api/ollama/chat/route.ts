@@ -1,10 +1,58 @@
 import { NextRequest } from "next/server";
-import { ollamaClient } from "@/lib/ollama/client";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+import { runChat } from "@/lib/tools/loop";
+import {
+  startChatStream,
+  hasChatStream,
+  cancelChatStream,
+  createChatStreamResponse,
+} from "@/lib/ollama/chat-stream-registry";
+
+const streamNotFound = () =>
+  new Response(
+    JSON.stringify({ error: "Stream not found or expired" }),
+    { status: 404, headers: { "Content-Type": "application/json" } }
+  );
+
+// Resume a stream: GET ?streamId=...&from=<token index>, or send the last
+// received token index in the Last-Event-ID header
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const streamId = params.get("streamId");
+  if (!streamId || !hasChatStream(streamId)) {
+    return streamNotFound();
+  }
+
+  const lastEventId = request.headers.get("Last-Event-ID");
+  const from = params.has("from")
+    ? Number(params.get("from"))
+    : lastEventId !== null
+      ? Number(lastEventId) + 1
+      : 0;
+
+  return createChatStreamResponse(
+    streamId,
+    Number.isInteger(from) && from > 0 ? from : 0,
+    request.signal
+  );
+}
+
+// Stop a stream's generation: DELETE ?streamId=...
+export async function DELETE(request: NextRequest) {
+  const streamId = request.nextUrl.searchParams.get("streamId");
+  if (!streamId || !cancelChatStream(streamId)) {
+    return streamNotFound();
+  }
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { model, messages, stream } = body;
+    const { model, messages, stream, options, host, streamId, tools, customTools, format, think } =
+      body;
 
     if (!model || !messages || !Array.isArray(messages)) {
       return new Response(
@@ -13,40 +61,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (stream) {
-      // Return a streaming response
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            const encoder = new TextEncoder();
-            for await (const chunk of ollamaClient.chatStream({
-              model,
-              messages,
-              stream: true,
-            })) {
-              const data = JSON.stringify(chunk) + "\n";
-              controller.enqueue(encoder.encode(data));
-            }
-            controller.close();
-          } catch (error) {
-            controller.error(error);
-          }
-        },
-      });
+    if (!isValidHost(host)) {
+      return new Response(
+        JSON.stringify({ error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
-        },
-      });
+    if (streamId !== undefined && (typeof streamId !== "string" || hasChatStream(streamId))) {
+      return new Response(
+        JSON.stringify({ error: "streamId must be a new unique string" }),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const ollamaClient = getOllamaClient(host);
+
+    if (stream) {
+      // Stream typed events over SSE (see chat-protocol.ts). The generation
+      // is owned by the stream registry rather than this request, so a client
+      // that loses its connection can resume with GET; DELETE stops it.
+      // `tools` names the tools the model may call: built-ins (see lib/tools)
+      // or user-defined ones, whose definitions come in `customTools`.
+      const upstream = new AbortController();
+      const id = startChatStream(
+        model,
+        runChat(
+          ollamaClient,
+          { model, messages, options, format, think },
+          Array.isArray(tools) ? tools : undefined,
+          Array.isArray(customTools) ? customTools : undefined,
+          upstream.signal
+        ),
+        upstream,
+        streamId
+      );
+      return createChatStreamResponse(id, 0, request.signal);
     } else {
       // Return a regular response
       const response = await ollamaClient.chat({
         model,
         messages,
         stream: false,
+        options,
+        format,
+        think,
       });
       return new Response(JSON.stringify(response), {
         headers: { "Content-Type": "application/json" },
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { model, host } = body;
+
+    if (!model) {
+      return NextResponse.json(
+        { error: "Model is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+
+    await getOllamaClient(host).deleteModel(model);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting model:", error);
+    return NextResponse.json(
+      { error: "Failed to delete model", message: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { model, input, host } = body;
+
+    if (!model || !input || (Array.isArray(input) && input.length === 0)) {
+      return NextResponse.json(
+        { error: "Model and input are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+
+    const response = await getOllamaClient(host).embed({ model, input, truncate: true });
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error embedding:", error);
+    return NextResponse.json(
+      { error: "Failed to embed", message: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ollamaClient } from "@/lib/ollama/client";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { model, prompt, stream, images, options } = body;
+    const { model, prompt, stream, images, options, raw, host, format, think } = body;
 
     if (!model || !prompt) {
       return NextResponse.json(
@@ -13,22 +13,71 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+
+    const ollamaClient = getOllamaClient(host);
+
     if (stream) {
-      // For streaming, we'll need to set up a streaming response
-      // For now, return non-streaming response
-      const response = await ollamaClient.generate({
-        model,
-        prompt,
-        images,
-        options,
+      // Return a streaming response (NDJSON, same framing as /api/ollama/chat)
+      // The upstream Ollama request is aborted when the client disconnects or
+      // stops the generation, so the model stops generating
+      const upstream = new AbortController();
+      request.signal.addEventListener("abort", () => upstream.abort());
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          const encoder = new TextEncoder();
+          try {
+            for await (const chunk of ollamaClient.generateStream({
+              model,
+              prompt,
+              images,
+              options,
+              raw,
+              format,
+              think,
+              stream: true,
+            }, upstream.signal)) {
+              const data = JSON.stringify(chunk) + "\n";
+              controller.enqueue(encoder.encode(data));
+            }
+            controller.close();
+          } catch (error) {
+            // Nobody is listening anymore once the client has gone away
+            if (upstream.signal.aborted) return;
+            // Headers are already sent, so report the failure in-band the
+            // same way Ollama does
+            const message = error instanceof Error ? error.message : String(error);
+            controller.enqueue(encoder.encode(JSON.stringify({ error: message }) + "\n"));
+            controller.close();
+          }
+        },
+        cancel() {
+          upstream.abort();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
       });
-      return NextResponse.json(response);
     } else {
       const response = await ollamaClient.generate({
         model,
         prompt,
         images,
         options,
+        raw,
+        format,
+        think,
       });
       return NextResponse.json(response);
     }
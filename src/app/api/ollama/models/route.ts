@@ -1,9 +1,16 @@
-import { NextResponse } from "next/server";
-import { ollamaClient } from "@/lib/ollama/client";
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const models = await ollamaClient.listModels();
+    const host = request.nextUrl.searchParams.get("host");
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+    const models = await getOllamaClient(host).listModels();
     return NextResponse.json({ models });
   } catch (error) {
     console.error("Error fetching models:", error);
@@ -13,4 +20,3 @@ export async function GET() {
     );
   }
 }
-
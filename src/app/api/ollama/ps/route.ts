@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+
+export async function GET(request: NextRequest) {
+  try {
+    const host = request.nextUrl.searchParams.get("host");
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+    const models = await getOllamaClient(host).listRunningModels();
+    return NextResponse.json({ models });
+  } catch (error) {
+    console.error("Error fetching running models:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch running models", message: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { model, host } = body;
+
+    if (!model) {
+      return NextResponse.json(
+        { error: "Model is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+
+    const ollamaClient = getOllamaClient(host);
+
+    // Stream progress as NDJSON. Closing the request (e.g. the user cancels)
+    // aborts the upstream pull.
+    const upstream = new AbortController();
+    request.signal.addEventListener("abort", () => upstream.abort());
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder();
+        try {
+          for await (const progress of ollamaClient.pullStream(model, upstream.signal)) {
+            controller.enqueue(encoder.encode(JSON.stringify(progress) + "\n"));
+          }
+          controller.close();
+        } catch (error) {
+          if (upstream.signal.aborted) return;
+          // Report the failure in-band - the 200 status has already been sent
+          controller.enqueue(
+            encoder.encode(JSON.stringify({ status: "error", error: String(error) }) + "\n")
+          );
+          controller.close();
+        }
+      },
+      cancel() {
+        upstream.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error in pull API:", error);
+    return NextResponse.json(
+      { error: "Failed to pull model", message: String(error) },
+      { status: 500 }
+    );
+  }
+}
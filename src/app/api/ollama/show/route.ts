@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOllamaClient, isValidHost } from "@/lib/ollama/client";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { model, host } = body;
+
+    if (!model) {
+      return NextResponse.json(
+        { error: "Model is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHost(host)) {
+      return NextResponse.json(
+        { error: "Host must be an http(s) URL listed in OLLAMA_ALLOWED_HOSTS" },
+        { status: 400 }
+      );
+    }
+
+    const details = await getOllamaClient(host).showModel(model);
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error("Error showing model:", error);
+    return NextResponse.json(
+      { error: "Failed to show model", message: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -12,7 +12,7 @@ import { useChatStore } from "@/store/chat-store";
 import { useChatMessages } from "@/hooks/use-chats";
 
 export default function Home() {
-  const { sendMessage, regenerateModel } = useSendMessage();
+  const { sendMessage, editPrompt, regenerateModel, stopModel, stopAll } = useSendMessage();
   const { currentChatId } = useChatStore();
   const { messages: chatMessages } = useChatMessages(currentChatId);
   
@@ -76,6 +76,8 @@ export default function Home() {
           <div className="flex-1 overflow-hidden pb-28 min-h-0">
             <ComparisonView
               onRegenerate={regenerateModel}
+              onStopGeneration={stopModel}
+              onEditPrompt={editPrompt}
               showHighlights={showHighlights}
               onEvaluationStateChange={setIsEvaluating}
               onHighlightStateChange={setIsAnalyzingHighlights}
@@ -85,7 +87,7 @@ export default function Home() {
               analyzeAllHighlightsRef={analyzeAllHighlightsRef}
             />
           </div>
-          <ChatInput onSend={sendMessage} />
+          <ChatInput onSend={sendMessage} onStop={stopAll} />
         </div>
       </div>
       </div>
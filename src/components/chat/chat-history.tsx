@@ -8,6 +8,16 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Plus, MessageSquare, ChevronDown, ChevronUp } from "lucide-react";
 import { ModelSelector } from "@/components/model-selector/model-selector";
 import { EvaluationControls } from "@/components/chat/evaluation-controls";
+import { HostSettings } from "@/components/settings/host-settings";
+import { DispatchSettings } from "@/components/settings/dispatch-settings";
+import { ImageSettings } from "@/components/settings/image-settings";
+import { SystemPromptLibrary } from "@/components/settings/system-prompt-library";
+import { SystemPromptSelect } from "@/components/settings/system-prompt-select";
+import { KnowledgeLibrary } from "@/components/settings/knowledge-library";
+import { KnowledgeSelect } from "@/components/settings/knowledge-select";
+import { RubricLibrary } from "@/components/settings/rubric-library";
+import { ToolLibrary } from "@/components/settings/tool-library";
+import { useChatSystemPrompts } from "@/hooks/use-system-prompts";
 
 interface ChatHistoryProps {
   evaluationControls?: React.ComponentProps<typeof EvaluationControls>;
@@ -17,6 +27,12 @@ export function ChatHistory({ evaluationControls }: ChatHistoryProps = {}) {
   const { chats, createChat } = useChats();
   const { currentChatId, setCurrentChatId } = useChatStore();
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isHostsOpen, setIsHostsOpen] = useState(false);
+  const [isPersonasOpen, setIsPersonasOpen] = useState(false);
+  const [isKnowledgeOpen, setIsKnowledgeOpen] = useState(false);
+  const [isRubricsOpen, setIsRubricsOpen] = useState(false);
+  const [isToolsOpen, setIsToolsOpen] = useState(false);
+  const { systemPrompts, setGlobalPrompt } = useChatSystemPrompts();
 
   const handleNewChat = async () => {
     const newChat = await createChat("New Chat");
@@ -45,8 +61,122 @@ export function ChatHistory({ evaluationControls }: ChatHistoryProps = {}) {
       <div className="h-8" />
 
       {/* Model Selector Section */}
-      <div className="px-4">
+      <div className="px-4 space-y-2">
         <ModelSelector />
+        <DispatchSettings />
+        <ImageSettings />
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground shrink-0">Persona</span>
+          <SystemPromptSelect
+            value={systemPrompts.global}
+            onChange={setGlobalPrompt}
+            className="h-7 text-xs flex-1"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground shrink-0">Knowledge</span>
+          <KnowledgeSelect className="h-7 text-xs flex-1" />
+        </div>
+      </div>
+
+      {/* Personas Section - Accordion */}
+      <div className="px-4 pt-4">
+        <button
+          onClick={() => setIsPersonasOpen(!isPersonasOpen)}
+          className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors"
+        >
+          {isPersonasOpen ? (
+            <ChevronUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5" />
+          )}
+          <span>Personas</span>
+        </button>
+        {isPersonasOpen && (
+          <div className="pt-2">
+            <SystemPromptLibrary />
+          </div>
+        )}
+      </div>
+
+      {/* Knowledge Section - Accordion */}
+      <div className="px-4 pt-2">
+        <button
+          onClick={() => setIsKnowledgeOpen(!isKnowledgeOpen)}
+          className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors"
+        >
+          {isKnowledgeOpen ? (
+            <ChevronUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5" />
+          )}
+          <span>Knowledge</span>
+        </button>
+        {isKnowledgeOpen && (
+          <div className="pt-2">
+            <KnowledgeLibrary />
+          </div>
+        )}
+      </div>
+
+      {/* Rubrics Section - Accordion */}
+      <div className="px-4 pt-2">
+        <button
+          onClick={() => setIsRubricsOpen(!isRubricsOpen)}
+          className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors"
+        >
+          {isRubricsOpen ? (
+            <ChevronUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5" />
+          )}
+          <span>Rubrics</span>
+        </button>
+        {isRubricsOpen && (
+          <div className="pt-2">
+            <RubricLibrary />
+          </div>
+        )}
+      </div>
+
+      {/* Tools Section - Accordion */}
+      <div className="px-4 pt-2">
+        <button
+          onClick={() => setIsToolsOpen(!isToolsOpen)}
+          className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors"
+        >
+          {isToolsOpen ? (
+            <ChevronUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5" />
+          )}
+          <span>Tools</span>
+        </button>
+        {isToolsOpen && (
+          <div className="pt-2">
+            <ToolLibrary />
+          </div>
+        )}
+      </div>
+
+      {/* Hosts Section - Accordion */}
+      <div className="px-4 pt-2">
+        <button
+          onClick={() => setIsHostsOpen(!isHostsOpen)}
+          className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors"
+        >
+          {isHostsOpen ? (
+            <ChevronUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5" />
+          )}
+          <span>Hosts</span>
+        </button>
+        {isHostsOpen && (
+          <div className="pt-2">
+            <HostSettings />
+          </div>
+        )}
       </div>
 
       {/* Large Spacer - pushes History to bottom */}
@@ -2,23 +2,69 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Send, Loader2, Plus, X, Image as ImageIcon, File } from "lucide-react";
+import { Send, Loader2, Plus, X, Image as ImageIcon, File, MessageSquare, Terminal, Square, Wrench, Check, Braces, AlertTriangle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useChatStore } from "@/store/chat-store";
+import { BUILTIN_TOOLS, BUILTIN_TOOL_LABELS } from "@/lib/tools/definitions";
+import { parseFormat } from "@/lib/utils/json-schema";
+import { extractFileText } from "@/lib/files/extract";
+import { isImageFile, preprocessImage } from "@/lib/files/image";
+import { isVisionModel, supportsTools } from "@/lib/ollama/capabilities";
+import { useImageSettings } from "@/hooks/use-image-settings";
+import { useModels } from "@/hooks/use-models";
+import { useCustomTools } from "@/hooks/use-custom-tools";
+import {
+  FILE_TOKEN_LIMITS,
+  estimateTokens,
+  formatTokenCount,
+  getContextBudget,
+  getFileContexts,
+} from "@/lib/files/context";
 import type { Attachment } from "@/types";
 
 interface ChatInputProps {
   onSend: (message: string, attachments?: Attachment[]) => void;
+  onStop?: () => void; // stop every running generation
   disabled?: boolean;
 }
 
-export function ChatInput({ onSend, disabled }: ChatInputProps) {
+export function ChatInput({ onSend, onStop, disabled }: ChatInputProps) {
   const [input, setInput] = useState("");
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [showFileMenu, setShowFileMenu] = useState(false);
-  const { isLoading } = useChatStore();
+  const [showToolsMenu, setShowToolsMenu] = useState(false);
+  const [showSchemaMenu, setShowSchemaMenu] = useState(false);
+  const [schemaDraft, setSchemaDraft] = useState("");
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const {
+    isLoading,
+    generationMode,
+    setGenerationMode,
+    enabledTools,
+    setEnabledTools,
+    responseFormat,
+    setResponseFormat,
+    selectedModels,
+    modelHosts,
+    modelOptions,
+  } = useChatStore();
+  const { settings: imageSettings } = useImageSettings();
+  const { data: models = [] } = useModels();
+  const { tools: customTools } = useCustomTools();
+  const [imageErrors, setImageErrors] = useState<string[]>([]);
+  const isCompletionMode = generationMode === "completion";
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const toolsMenuRef = useRef<HTMLDivElement>(null);
+  const schemaMenuRef = useRef<HTMLDivElement>(null);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -36,6 +82,73 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
     }
   }, [showFileMenu]);
 
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (toolsMenuRef.current && !toolsMenuRef.current.contains(event.target as Node)) {
+        setShowToolsMenu(false);
+      }
+    };
+
+    if (showToolsMenu) {
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => {
+        document.removeEventListener("mousedown", handleClickOutside);
+      };
+    }
+  }, [showToolsMenu]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (schemaMenuRef.current && !schemaMenuRef.current.contains(event.target as Node)) {
+        setShowSchemaMenu(false);
+      }
+    };
+
+    if (showSchemaMenu) {
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => {
+        document.removeEventListener("mousedown", handleClickOutside);
+      };
+    }
+  }, [showSchemaMenu]);
+
+  const openSchemaMenu = () => {
+    setSchemaDraft(
+      responseFormat && responseFormat !== "json"
+        ? JSON.stringify(responseFormat, null, 2)
+        : ""
+    );
+    setSchemaError(null);
+    setShowSchemaMenu(true);
+  };
+
+  const applySchema = () => {
+    try {
+      setResponseFormat(parseFormat(schemaDraft));
+      setShowSchemaMenu(false);
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Built-ins first, then the user's own tools
+  const toolOptions = [
+    ...BUILTIN_TOOLS.map(({ function: tool }) => ({
+      name: tool.name,
+      description: tool.description,
+      label: BUILTIN_TOOL_LABELS[tool.name] || tool.name,
+    })),
+    ...customTools.map(({ name, description }) => ({ name, description, label: name })),
+  ];
+
+  const toggleTool = (name: string) => {
+    setEnabledTools(
+      enabledTools.includes(name)
+        ? enabledTools.filter((tool) => tool !== name)
+        : [...enabledTools, name]
+    );
+  };
+
   const handleSend = () => {
     if ((input.trim() || attachments.length > 0) && !disabled && !isLoading) {
       onSend(input.trim(), attachments.length > 0 ? attachments : undefined);
@@ -55,36 +168,62 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
     setAttachments((prev) => prev.filter((att) => att.id !== id));
   };
 
+  const handleSetFileLimit = (id: string, maxTokens: number | undefined) => {
+    setAttachments((prev) =>
+      prev.map((att) => (att.id === id ? { ...att, maxTokens } : att))
+    );
+  };
+
+  // Attached files are sent as text in front of the prompt, so warn when
+  // they won't fit in the smallest context window of the selected models
+  const fileContexts = getFileContexts(attachments);
+  const fileTokens = fileContexts.reduce((sum, file) => sum + file.tokens, 0);
+  const contextBudget = getContextBudget(selectedModels, modelOptions);
+  const overBudget =
+    fileContexts.length > 0 && fileTokens + estimateTokens(input) > contextBudget.tokens;
+
+  const findSelectedModel = (name: string) =>
+    models.find((m) => m.name === name && (!modelHosts[name] || m.host === modelHosts[name]));
+
+  // Selected models that can't see images only get the text of the prompt
+  const hasImages = attachments.some((att) => att.type === "image");
+  const blindModels = hasImages
+    ? selectedModels.filter((name) => isVisionModel(findSelectedModel(name)) === false)
+    : [];
+
+  // Ollama rejects tools for models whose template has no tool support
+  const toolessModels =
+    !isCompletionMode && enabledTools.length > 0
+      ? selectedModels.filter((name) => supportsTools(findSelectedModel(name)) === false)
+      : [];
+
   const handleAddFiles = useCallback(async (files: FileList) => {
     const newAttachments: Attachment[] = [];
+    const errors: string[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const isImage = file.type.startsWith("image/");
 
       try {
-        if (isImage) {
-          // Convert image to base64
-          const base64 = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = () => {
-              const result = reader.result as string;
-              resolve(result);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(file);
-          });
-
-          newAttachments.push({
-            id: crypto.randomUUID(),
-            type: "image",
-            name: file.name,
-            data: base64,
-            mimeType: file.type,
-            size: file.size,
-          });
+        if (isImageFile(file)) {
+          // Resized and re-encoded, so phone photos don't bloat requests and storage
+          try {
+            const image = await preprocessImage(file, imageSettings);
+            newAttachments.push({
+              id: crypto.randomUUID(),
+              type: "image",
+              name: file.name,
+              data: image.data,
+              mimeType: image.mimeType,
+              size: image.size,
+              width: image.width,
+              height: image.height,
+            });
+          } catch (error) {
+            errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+          }
         } else {
-          // For non-image files, read as text or base64
+          // Keep the original file, plus its text for sending to models
           const base64 = await new Promise<string>((resolve, reject) => {
             const reader = new FileReader();
             reader.onload = () => {
@@ -99,6 +238,14 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
             reader.readAsDataURL(file);
           });
 
+          let text: string | undefined;
+          let extractError: string | undefined;
+          try {
+            text = await extractFileText(file);
+          } catch (error) {
+            extractError = error instanceof Error ? error.message : String(error);
+          }
+
           newAttachments.push({
             id: crypto.randomUUID(),
             type: "file",
@@ -106,6 +253,8 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
             data: base64,
             mimeType: file.type,
             size: file.size,
+            text,
+            extractError,
           });
         }
       } catch (error) {
@@ -114,8 +263,9 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
     }
 
     setAttachments((prev) => [...prev, ...newAttachments]);
+    setImageErrors(errors);
     setShowFileMenu(false);
-  }, []);
+  }, [imageSettings]);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " B";
@@ -129,15 +279,62 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
       <div className="absolute bottom-4 left-4 right-4 z-50 pointer-events-none">
         <div className="pointer-events-auto">
           {/* Attachments preview */}
-          {attachments.length > 0 && (
+          {(attachments.length > 0 || imageErrors.length > 0) && (
             <div className="mb-2 flex flex-wrap gap-2 p-2 border rounded-lg bg-background">
+              {imageErrors.map((error) => (
+                <div key={error} className="w-full flex items-start gap-1 text-xs text-destructive">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                  <span className="flex-1">Not attached - {error}</span>
+                  <button
+                    onClick={() => setImageErrors((prev) => prev.filter((e) => e !== error))}
+                    className="rounded hover:bg-destructive/20 p-0.5 shrink-0"
+                    aria-label="Dismiss"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {blindModels.length > 0 && (
+                <div className="w-full flex items-start gap-1 text-xs text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                  <span>
+                    {blindModels.join(", ")} {blindModels.length === 1 ? "isn't a vision model" : "aren't vision models"}{" "}
+                    and won&apos;t see the images.
+                  </span>
+                </div>
+              )}
+              {fileContexts.length > 0 && (
+                <div
+                  className={`w-full flex items-start gap-1 text-xs ${
+                    overBudget ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  {overBudget && <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />}
+                  <span>
+                    Files ≈ {formatTokenCount(fileTokens)} tokens
+                    {overBudget &&
+                      ` - with the prompt that's more than the ${contextBudget.tokens}-token context of ${
+                        contextBudget.model || "Ollama's default"
+                      }, so the model won't see all of it. Limit the files below or raise num_ctx.`}
+                  </span>
+                </div>
+              )}
               {attachments.map((attachment) => (
                 <div
                   key={attachment.id}
                   className="relative group border rounded-md overflow-hidden bg-muted/50"
                 >
                   {attachment.type === "image" ? (
-                    <div className="relative w-20 h-20">
+                    <div
+                      className="relative w-20 h-20"
+                      title={
+                        attachment.width
+                          ? `${attachment.name} · ${attachment.width}×${attachment.height}${
+                              attachment.size ? ` · ${formatFileSize(attachment.size)}` : ""
+                            }`
+                          : attachment.name
+                      }
+                    >
                       <img
                         src={attachment.data}
                         alt={attachment.name}
@@ -154,7 +351,7 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
                       </Button>
                     </div>
                   ) : (
-                    <div className="p-2 w-28">
+                    <div className="p-2 w-40">
                       <File className="h-4 w-4 mb-1 text-muted-foreground" />
                       <p className="text-xs truncate font-medium">
                         {attachment.name}
@@ -162,8 +359,49 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
                       {attachment.size && (
                         <p className="text-xs text-muted-foreground">
                           {formatFileSize(attachment.size)}
+                          {attachment.text &&
+                            ` · ≈${formatTokenCount(estimateTokens(attachment.text))} tok`}
                         </p>
                       )}
+                      {attachment.extractError ? (
+                        <p
+                          className="text-[10px] text-destructive line-clamp-2"
+                          title={attachment.extractError}
+                        >
+                          Not sent: {attachment.extractError}
+                        </p>
+                      ) : (
+                        attachment.text && (
+                          <Select
+                            value={attachment.maxTokens ? String(attachment.maxTokens) : "full"}
+                            onValueChange={(value) =>
+                              handleSetFileLimit(
+                                attachment.id,
+                                value === "full" ? undefined : Number(value)
+                              )
+                            }
+                          >
+                            <SelectTrigger
+                              className="h-5 mt-1 px-1.5 text-[10px]"
+                              title="How much of the file is sent"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="full" className="text-xs">
+                                Send all
+                              </SelectItem>
+                              {FILE_TOKEN_LIMITS.filter(
+                                (limit) => limit < estimateTokens(attachment.text || "")
+                              ).map((limit) => (
+                                <SelectItem key={limit} value={String(limit)} className="text-xs">
+                                  First {formatTokenCount(limit)} tokens
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )
+                      )}
                       <Button
                         type="button"
                         variant="destructive"
@@ -180,6 +418,16 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
             </div>
           )}
 
+          {toolessModels.length > 0 && (
+            <div className="mb-2 flex items-start gap-1 px-3 py-1.5 border rounded-lg bg-background text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+              <span>
+                {toolessModels.join(", ")} {toolessModels.length === 1 ? "doesn't" : "don't"} support
+                tool calling - Ollama will reject the request while tools are on.
+              </span>
+            </div>
+          )}
+
           {/* Simple rounded input */}
           <div className="relative flex items-center bg-background border rounded-full px-4 py-2">
             {/* Plus button for file menu */}
@@ -227,6 +475,125 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
               )}
             </div>
 
+            {/* Chat / raw completion mode toggle */}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={`h-7 px-2 text-xs shrink-0 ${isCompletionMode ? "text-primary" : "text-muted-foreground"}`}
+              onClick={() => setGenerationMode(isCompletionMode ? "chat" : "completion")}
+              title={
+                isCompletionMode
+                  ? "Raw completion: prompt is sent verbatim, without chat template or history"
+                  : "Chat: prompt is sent with the model's chat template and history"
+              }
+            >
+              {isCompletionMode ? (
+                <Terminal className="h-3.5 w-3.5 mr-1" />
+              ) : (
+                <MessageSquare className="h-3.5 w-3.5 mr-1" />
+              )}
+              {isCompletionMode ? "Raw" : "Chat"}
+            </Button>
+
+            {/* Structured output - every response must be JSON matching the schema */}
+            <div className="relative" ref={schemaMenuRef}>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className={`h-7 px-2 text-xs shrink-0 ${responseFormat ? "text-primary" : "text-muted-foreground"}`}
+                onClick={() => (showSchemaMenu ? setShowSchemaMenu(false) : openSchemaMenu())}
+                title="Require structured JSON output"
+              >
+                <Braces className="h-3.5 w-3.5 mr-1" />
+                {responseFormat === "json" ? "JSON" : responseFormat ? "Schema" : "Format"}
+              </Button>
+
+              {showSchemaMenu && (
+                <div className="absolute bottom-full left-0 mb-2 bg-background border rounded-lg p-2 w-80 z-10 space-y-2">
+                  <div className="text-xs text-muted-foreground">
+                    Paste a JSON Schema, or leave empty to accept any JSON
+                  </div>
+                  <Textarea
+                    value={schemaDraft}
+                    onChange={(e) => {
+                      setSchemaDraft(e.target.value);
+                      setSchemaError(null);
+                    }}
+                    placeholder={'{\n  "type": "object",\n  "properties": { "answer": { "type": "string" } },\n  "required": ["answer"]\n}'}
+                    className="min-h-32 font-mono text-xs"
+                  />
+                  {schemaError && (
+                    <div className="text-xs text-destructive">{schemaError}</div>
+                  )}
+                  <div className="flex items-center justify-end gap-1">
+                    {responseFormat && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => {
+                          setResponseFormat(null);
+                          setShowSchemaMenu(false);
+                        }}
+                      >
+                        Off
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={applySchema}
+                    >
+                      {schemaDraft.trim() ? "Use schema" : "Any JSON"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Tools the models may call - chat mode only */}
+            {!isCompletionMode && (
+              <div className="relative" ref={toolsMenuRef}>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className={`h-7 px-2 text-xs shrink-0 ${enabledTools.length > 0 ? "text-primary" : "text-muted-foreground"}`}
+                  onClick={() => setShowToolsMenu(!showToolsMenu)}
+                  title="Tools the models may call"
+                >
+                  <Wrench className="h-3.5 w-3.5 mr-1" />
+                  {enabledTools.length > 0 ? `Tools (${enabledTools.length})` : "Tools"}
+                </Button>
+
+                {showToolsMenu && (
+                  <div className="absolute bottom-full left-0 mb-2 bg-background border rounded-lg p-1 min-w-[160px] z-10">
+                    {toolOptions.map((tool) => (
+                      <Button
+                        key={tool.name}
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-xs"
+                        onClick={() => toggleTool(tool.name)}
+                        title={tool.description}
+                      >
+                        <Check
+                          className={`mr-2 h-3.5 w-3.5 ${enabledTools.includes(tool.name) ? "" : "invisible"}`}
+                        />
+                        {tool.label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Input */}
             <input
               type="text"
@@ -238,35 +605,47 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
                   handleSend();
                 }
               }}
-              placeholder="Type your message..."
+              placeholder={isCompletionMode ? "Text to complete..." : "Type your message..."}
               className="flex-1 border-0 bg-transparent focus:outline-none focus:ring-0 px-2 py-1 text-sm"
               disabled={disabled || isLoading}
             />
 
-            {/* Send button */}
-            <Button
-              onClick={handleSend}
-              disabled={
-                (!input.trim() && attachments.length === 0) ||
-                disabled ||
-                isLoading
-              }
-              variant="ghost"
-              size="icon"
-              className="h-8 w-8 shrink-0 -mr-1"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
-            </Button>
+            {/* Send button - turns into a global Stop while models are generating */}
+            {isLoading && onStop ? (
+              <Button
+                onClick={onStop}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 -mr-1"
+                title="Stop all models"
+              >
+                <Square className="h-3.5 w-3.5 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={
+                  (!input.trim() && attachments.length === 0) ||
+                  disabled ||
+                  isLoading
+                }
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 -mr-1"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            )}
 
             {/* Hidden file inputs */}
             <input
               ref={imageInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.heic,.heif"
               multiple
               onChange={(e) => {
                 if (e.target.files) {
@@ -1,6 +1,8 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { RubricSelect } from "@/components/settings/rubric-select";
+import { JudgeSettings } from "@/components/settings/judge-settings";
 import { BarChart3, Sparkles, Eye, EyeOff, Loader2 } from "lucide-react";
 
 interface EvaluationControlsProps {
@@ -31,6 +33,12 @@ export function EvaluationControls({
       </div>
       
       <div className="space-y-1.5">
+        <div className="flex items-center gap-2 px-1">
+          <span className="text-xs text-muted-foreground shrink-0">Rubric</span>
+          <RubricSelect className="h-7 text-xs flex-1 min-w-0" />
+        </div>
+        <JudgeSettings />
+
         <Button
           variant="outline"
           size="sm"
@@ -0,0 +1,52 @@
+"use client";
+
+import { BookOpen } from "lucide-react";
+import { getCitedSources } from "@/lib/rag/retrieve";
+import type { Citation } from "@/types";
+
+interface CitationListProps {
+  citations: Citation[];
+  content: string; // the response, checked for [n] references
+}
+
+// Knowledge chunks sent with the prompt, marking the ones this response cites
+export function CitationList({ citations, content }: CitationListProps) {
+  const cited = getCitedSources(content, citations.length);
+
+  return (
+    <details className="mt-3 text-xs border rounded-md bg-muted/20">
+      <summary className="cursor-pointer px-2 py-1.5 flex items-center gap-1.5 text-muted-foreground">
+        <BookOpen className="h-3 w-3" />
+        <span>
+          {citations.length} source{citations.length === 1 ? "" : "s"} · {cited.size} cited
+        </span>
+      </summary>
+      <ol className="px-2 pb-2 space-y-1.5">
+        {citations.map((citation, i) => {
+          const isCited = cited.has(i + 1);
+          return (
+            <li key={citation.chunkId} className={isCited ? "" : "opacity-60"}>
+              <div className="flex items-center gap-1.5">
+                <span className="font-mono tabular-nums">[{i + 1}]</span>
+                <span className="font-medium truncate">{citation.documentName}</span>
+                <span className="text-muted-foreground shrink-0">part {citation.index + 1}</span>
+                <span
+                  className="ml-auto text-muted-foreground font-mono shrink-0"
+                  title="Similarity to the prompt"
+                >
+                  {citation.score.toFixed(2)}
+                </span>
+                {isCited && (
+                  <span className="text-green-700 dark:text-green-300 shrink-0">cited</span>
+                )}
+              </div>
+              <p className="mt-0.5 p-1.5 rounded bg-muted whitespace-pre-wrap break-words line-clamp-4">
+                {citation.text}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
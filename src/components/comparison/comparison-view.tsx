@@ -2,11 +2,14 @@
 
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useChatStore } from "@/store/chat-store";
-import { useChatMessages } from "@/hooks/use-chats";
-import { useResponseEvaluation } from "@/hooks/use-response-evaluation";
+import { useChatMessages, useChatBranches } from "@/hooks/use-chats";
+import { useResponseEvaluation, type EvaluatedResponse } from "@/hooks/use-response-evaluation";
+import { useChatRubric } from "@/hooks/use-rubrics";
+import { useJudgeSettings } from "@/hooks/use-judge-settings";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
 import { 
   Loader2, 
   Copy, 
@@ -15,8 +18,14 @@ import {
   User,
   ChevronDown,
   ChevronUp,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
   Volume2,
-  Pause
+  Pause,
+  Square,
+  AlertTriangle,
+  FileText
 } from "lucide-react";
 import { MarkdownRenderer } from "@/components/markdown/markdown-renderer";
 import { ModelIcon, ModelTextLogo } from "@/components/model-icons/model-icon";
@@ -24,42 +33,52 @@ import { useTextToSpeech } from "@/hooks/use-text-to-speech";
 import { extractPlainText } from "@/lib/utils/text-extraction";
 import { EvaluationDisplay } from "@/components/comparison/evaluation-display";
 import { HighlightedContent } from "@/components/comparison/highlighted-content";
-import type { Message, ResponseEvaluation, HighlightAnalysis } from "@/types";
+import { ResponseMetrics } from "@/components/comparison/response-metrics";
+import { ToolTrace } from "@/components/comparison/tool-trace";
+import { ThinkingTrace } from "@/components/comparison/thinking-trace";
+import { CitationList } from "@/components/comparison/citation-list";
+import { splitThinking } from "@/lib/utils/thinking";
+import { formatTokenCount, getFileContext } from "@/lib/files/context";
+import {
+  checkStructuredOutput,
+  type StructuredOutputCheck,
+} from "@/lib/utils/json-schema";
+import {
+  getActivePath,
+  getBranchKey,
+  getLatestResponses,
+  getResponseVersions,
+  getSiblingPrompts,
+} from "@/lib/utils/branches";
+import type {
+  Message,
+  ResponseEvaluation,
+  HighlightAnalysis,
+  ResponseMetrics as ResponseMetricsData,
+  ToolCallStep,
+  Attachment,
+  Citation,
+} from "@/types";
 
 // Group messages into conversation turns
 interface ConversationTurn {
   userMessage: Message;
-  responses: Map<string, Message>; // model -> response
+  responses: Map<string, Message>; // model -> latest response
+  versions: Map<string, Message[]>; // model -> every saved response, oldest first
+  siblings: Message[]; // alternative prompts at this fork, including userMessage
 }
 
-function groupMessagesByTurn(messages: Message[], selectedModels: string[]): ConversationTurn[] {
-  const turns: ConversationTurn[] = [];
-  let currentTurn: ConversationTurn | null = null;
-
-  for (const message of messages) {
-    if (message.role === "user") {
-      // Start a new turn
-      if (currentTurn) {
-        turns.push(currentTurn);
-      }
-      currentTurn = {
-        userMessage: message,
-        responses: new Map(),
-      };
-    } else if (message.role === "assistant" && currentTurn) {
-      // Add response to current turn
-      if (message.model) {
-        currentTurn.responses.set(message.model, message);
-      }
-    }
-  }
-
-  // Don't forget the last turn
-  if (currentTurn) {
-    turns.push(currentTurn);
-  }
-
-  return turns;
+// Walk the selected branch of the conversation tree, one turn per prompt
+function groupMessagesByTurn(
+  messages: Message[],
+  activeBranches: Record<string, string>
+): ConversationTurn[] {
+  return getActivePath(messages, activeBranches).map((userMessage) => ({
+    userMessage,
+    responses: getLatestResponses(messages, userMessage.id),
+    versions: getResponseVersions(messages, userMessage.id),
+    siblings: getSiblingPrompts(messages, userMessage),
+  }));
 }
 
 interface ResponseCardProps {
@@ -83,6 +102,17 @@ interface ResponseCardProps {
   isEvaluating?: boolean;
   evaluationError?: string;
   showHighlights?: boolean;
+  isTruncated?: boolean;
+  onStopGeneration?: (model: string) => void;
+  metrics?: ResponseMetricsData;
+  error?: string;
+  toolCalls?: ToolCallStep[];
+  thinking?: string;
+  citations?: Citation[]; // knowledge chunks sent with the prompt
+  schemaCheck?: StructuredOutputCheck; // set when the prompt asked for structured output
+  versionIndex?: number;
+  versionCount?: number;
+  onSelectVersion?: (index: number) => void;
 }
 
 function ResponseCard({
@@ -106,9 +136,28 @@ function ResponseCard({
   isEvaluating,
   evaluationError,
   showHighlights = false,
+  isTruncated = false,
+  onStopGeneration,
+  metrics,
+  error,
+  toolCalls,
+  thinking,
+  citations,
+  schemaCheck,
+  versionIndex = 0,
+  versionCount = 1,
+  onSelectVersion,
 }: ResponseCardProps) {
-  const content = streamingContent || response?.content || "";
-  const showLoading = (isLoading || isRegenerating) && !content;
+  // Responses saved before thinking was split out may still have it inline
+  const inline = splitThinking(streamingContent || response?.content || "");
+  const content = inline.content;
+  const reasoning = thinking || inline.thinking;
+  const showLoading =
+    (isLoading || isRegenerating) && !content && !reasoning && !isTruncated && !error;
+  const canStop = !!onStopGeneration && (isStreaming || showLoading);
+  // Mark the quotes judges flagged inside the response
+  const [showIssues, setShowIssues] = useState(false);
+  const markedIssues = showIssues ? evaluation?.issues : undefined;
 
   // Extract version/tag from model name (e.g., "gemma3:4b" -> "3:4b", "llama3.1:8b" -> "3.1:8b")
   const getModelVersion = (name: string): string | null => {
@@ -127,11 +176,76 @@ function ResponseCard({
             <ModelIcon modelName={model} size="md" />
             <ModelTextLogo modelName={model} height={18} />
           </div>
-          {modelVersion && (
-            <span className="text-xs text-muted-foreground font-mono bg-muted px-1.5 py-0.5 rounded">
-              {modelVersion}
-            </span>
-          )}
+          <div className="flex items-center gap-1.5">
+            {/* Version navigator - flip between regenerations of this response */}
+            {versionCount > 1 && onSelectVersion && (
+              <div className="flex items-center text-xs text-muted-foreground">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onSelectVersion(versionIndex - 1)}
+                  disabled={versionIndex <= 0}
+                  title="Previous version"
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <span className="font-mono tabular-nums">
+                  v{versionIndex + 1}/{versionCount}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onSelectVersion(versionIndex + 1)}
+                  disabled={versionIndex >= versionCount - 1}
+                  title="Next version"
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+            {isTruncated && (
+              <span
+                className="text-xs text-orange-700 dark:text-orange-300 bg-orange-100 dark:bg-orange-900/50 px-1.5 py-0.5 rounded"
+                title="Generation was stopped before the model finished"
+              >
+                Stopped
+              </span>
+            )}
+            {schemaCheck && (
+              <span
+                className={`text-xs px-1.5 py-0.5 rounded ${
+                  schemaCheck.valid
+                    ? "text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/50"
+                    : "text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/50"
+                }`}
+                title={
+                  schemaCheck.valid
+                    ? "Response is valid JSON matching the requested format"
+                    : `${schemaCheck.violations.length} violation(s) of the requested format`
+                }
+              >
+                {schemaCheck.valid ? "Schema ✓" : `Schema ✗ ${schemaCheck.violations.length}`}
+              </span>
+            )}
+            {modelVersion && (
+              <span className="text-xs text-muted-foreground font-mono bg-muted px-1.5 py-0.5 rounded">
+                {modelVersion}
+              </span>
+            )}
+            {canStop && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onStopGeneration(model)}
+                title="Stop generating"
+              >
+                <Square className="h-3 w-3 fill-current" />
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -139,6 +253,14 @@ function ResponseCard({
       <CardContent className="flex-1 overflow-hidden p-0 min-h-0">
         <ScrollArea className="h-full">
           <div className="p-4">
+            {toolCalls && toolCalls.length > 0 && <ToolTrace steps={toolCalls} />}
+            {reasoning && (
+              <ThinkingTrace
+                thinking={reasoning}
+                tokenCount={metrics?.thinking_count}
+                isThinking={isStreaming && !content}
+              />
+            )}
             {showLoading ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
@@ -148,11 +270,12 @@ function ResponseCard({
               </div>
             ) : content ? (
               <div className="text-sm relative">
-                {showHighlights && highlightAnalysis ? (
+                {(showHighlights && highlightAnalysis) || markedIssues ? (
                   <HighlightedContent
                     content={content}
-                    highlightAnalysis={highlightAnalysis}
+                    highlightAnalysis={highlightAnalysis || null}
                     showHighlights={showHighlights}
+                    issues={markedIssues}
                   />
                 ) : (
                   <MarkdownRenderer content={content} />
@@ -161,30 +284,59 @@ function ResponseCard({
                   <span className="inline-block w-2 h-4 bg-primary animate-pulse ml-1" />
                 )}
               </div>
-            ) : (
+            ) : !error && !reasoning ? (
               <div className="text-sm text-muted-foreground text-center py-8">
-                Waiting for response...
+                {isTruncated ? "Stopped before any output" : "Waiting for response..."}
+              </div>
+            ) : null}
+            {citations && citations.length > 0 && (
+              <CitationList citations={citations} content={content} />
+            )}
+            {schemaCheck && !schemaCheck.valid && (
+              <div className="mt-3 text-xs border border-destructive/30 bg-destructive/10 rounded p-2 space-y-1">
+                <div className="font-medium text-destructive">Format violations</div>
+                <ul className="space-y-0.5">
+                  {schemaCheck.violations.map((violation, index) => (
+                    <li key={index} className="break-words">
+                      <span className="font-mono text-muted-foreground">{violation.path}</span>{" "}
+                      {violation.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {error && (
+              <div className={`flex items-start gap-2 text-xs text-destructive bg-destructive/10 border border-destructive/30 rounded p-2 ${content ? "mt-3" : ""}`}>
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                <span className="break-words">{error}</span>
               </div>
             )}
           </div>
         </ScrollArea>
       </CardContent>
 
+      {/* Performance Metrics */}
+      {(metrics || response?.options) && !isStreaming && (
+        <ResponseMetrics metrics={metrics || {}} options={response?.options} />
+      )}
+
       {/* Evaluation Display */}
       {content && !isStreaming && (
         <EvaluationDisplay
           evaluation={evaluation || null}
           isLoading={isEvaluating}
           error={evaluationError}
+          showIssues={showIssues}
+          onToggleIssues={() => setShowIssues(!showIssues)}
         />
       )}
 
-      {/* Footer Actions */}
-      {content && !isStreaming && (
+      {/* Footer Actions - a failed response can still be regenerated */}
+      {(content || error) && !isStreaming && (
         <div className="px-4 py-2 border-t bg-muted/20 shrink-0">
           <div className="flex items-center justify-between gap-2">
             <div className="flex items-center gap-1 flex-wrap">
-              {isSupported && (
+              {isSupported && content && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -223,6 +375,7 @@ function ResponseCard({
                 size="sm"
                 className="h-7 px-2 text-xs"
                 onClick={() => onCopy(content)}
+                disabled={!content}
                 title="Copy response"
               >
                 {copiedModel === model ? (
@@ -256,15 +409,60 @@ function ResponseCard({
   );
 }
 
+// A file sent with a prompt and how much of it the models saw
+function FileAttachmentChip({ attachment }: { attachment: Attachment }) {
+  const context = getFileContext(attachment);
+  return (
+    <div
+      className="flex items-center gap-1.5 px-2 py-1 rounded-md border text-xs bg-muted/30"
+      title={
+        context
+          ? context.truncated
+            ? `Sent the first ~${context.tokens} of ~${context.totalTokens} tokens`
+            : `Sent in full, ~${context.tokens} tokens`
+          : attachment.extractError || "No text could be extracted"
+      }
+    >
+      <FileText className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+      <span className="truncate max-w-40">{attachment.name}</span>
+      <span className={context ? "text-muted-foreground" : "text-destructive"}>
+        {context
+          ? `≈${formatTokenCount(context.tokens)} tok${context.truncated ? " (truncated)" : ""}`
+          : "not sent"}
+      </span>
+    </div>
+  );
+}
+
+type StreamingResponse = {
+  content: string;
+  done: boolean;
+  error?: string;
+  truncated?: boolean;
+  metrics?: ResponseMetricsData;
+  toolCalls?: ToolCallStep[];
+  thinking?: string;
+};
+
+// One version of a model's response within a turn
+interface ResponseVersion {
+  key: string; // saved message id, or a placeholder while it streams - the label is only shown in the UI
+  saved: Message | null;
+  streaming?: StreamingResponse;
+}
+
 interface TurnViewProps {
   turn: ConversationTurn;
   selectedModels: string[];
   isLatestTurn: boolean;
-  currentResponses: Record<string, { content: string; done: boolean }>;
+  currentResponses: Record<string, StreamingResponse>;
   isLoading: boolean;
   regeneratingModels: Set<string>;
   onCopy: (text: string, model: string) => void;
   onRegenerate: (model: string) => void;
+  onStopGeneration?: (model: string) => void;
+  onSelectBranch: (message: Message) => void;
+  onEditPrompt?: (message: Message, content: string) => void;
   copiedModel: string | null;
   speakingModel: string | null;
   onSpeak: (text: string, model: string) => void;
@@ -290,6 +488,9 @@ function TurnView({
   regeneratingModels,
   onCopy,
   onRegenerate,
+  onStopGeneration,
+  onSelectBranch,
+  onEditPrompt,
   copiedModel,
   speakingModel,
   onSpeak,
@@ -306,6 +507,33 @@ function TurnView({
   analyzeAllHighlightsRef,
 }: TurnViewProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editDraft, setEditDraft] = useState("");
+  // model -> version shown on its card (defaults to the newest)
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, number>>({});
+  const branchIndex = turn.siblings.findIndex((msg) => msg.id === turn.userMessage.id);
+
+  const handleStartEdit = () => {
+    setEditDraft(turn.userMessage.content);
+    setIsEditing(true);
+  };
+
+  // Show the new version as soon as a regeneration starts
+  const handleRegenerate = (model: string) => {
+    setSelectedVersions((prev) => {
+      const next = { ...prev };
+      delete next[model];
+      return next;
+    });
+    onRegenerate(model);
+  };
+
+  const handleSubmitEdit = () => {
+    const content = editDraft.trim();
+    if (!content || !onEditPrompt) return;
+    setIsEditing(false);
+    onEditPrompt(turn.userMessage, content);
+  };
   const [highlightedModels, setHighlightedModels] = useState<Set<string>>(new Set());
 
   // Create a serialized key from currentResponses to detect when done status changes
@@ -313,43 +541,70 @@ function TurnView({
   const currentResponsesKey = useMemo(() => {
     const entries = Object.entries(currentResponses)
       .sort(([a], [b]) => a.localeCompare(b))
-      .map(([model, response]) => `${model}:${response.done}:${response.content.length}`);
+      .map(([model, response]) => `${model}:${response.done}:${response.content.length}:${response.toolCalls?.length || 0}:${response.thinking?.length || 0}`);
     return entries.join('|');
   }, [currentResponses]);
 
-  // Build responses map for evaluation hook
+  // Every version of each model's response. In the latest turn, a response
+  // that is still streaming (or was stopped before it could be saved) is the
+  // newest version, and a regeneration that hasn't produced output yet is a
+  // placeholder so the card shows it loading.
+  const responseVersions = useMemo(() => {
+    const versionsByModel = new Map<string, ResponseVersion[]>();
+
+    selectedModels.forEach((model) => {
+      const saved = turn.versions.get(model) || [];
+      const lastSaved = saved[saved.length - 1];
+      const streamingResponse = isLatestTurn ? currentResponses[model] : undefined;
+      const hasPendingVersion = streamingResponse
+        ? !streamingResponse.done ||
+          !lastSaved ||
+          !!streamingResponse.error ||
+          (!!streamingResponse.content && streamingResponse.content !== lastSaved.content)
+        : isLatestTurn && regeneratingModels.has(model);
+
+      const slots: Omit<ResponseVersion, "key">[] = saved.map((message) => ({
+        saved: message,
+      }));
+      if (hasPendingVersion) {
+        slots.push({ saved: null, streaming: streamingResponse });
+      }
+
+      versionsByModel.set(
+        model,
+        slots.map((slot) => ({
+          ...slot,
+          key: slot.saved?.id ?? `${model}:pending`,
+        }))
+      );
+    });
+
+    return versionsByModel;
+  }, [turn.versions, currentResponsesKey, isLatestTurn, selectedModels, regeneratingModels]);
+
+  // Build responses map for evaluation hook - every version is scored on its own
+  // and its results are saved to (and read back from) its message
   const responsesMap = useMemo(() => {
-    const map = new Map<string, { content: string; done: boolean }>();
-    
-    // For latest turn, prefer streaming responses (they have the most up-to-date done status)
-    if (isLatestTurn) {
-      selectedModels.forEach((model) => {
-        const streamingResponse = currentResponses[model];
-        if (streamingResponse) {
-          map.set(model, {
-            content: streamingResponse.content,
-            done: streamingResponse.done,
-          });
-        } else {
-          // Fall back to saved response if no streaming response
-          const savedResponse = turn.responses.get(model);
-          if (savedResponse) {
-            map.set(model, { content: savedResponse.content, done: true });
-          }
-        }
-      });
-    } else {
-      // For older turns, use saved responses
-      selectedModels.forEach((model) => {
-        const savedResponse = turn.responses.get(model);
-        if (savedResponse) {
-          map.set(model, { content: savedResponse.content, done: true });
-        }
+    const map = new Map<string, EvaluatedResponse>();
+
+    responseVersions.forEach((versions, model) => {
+      versions.forEach(({ key, saved, streaming }) => {
+        map.set(key, {
+          model,
+          content: streaming?.content ?? saved?.content ?? "",
+          done: streaming ? streaming.done : !!saved,
+          messageId: saved?.id,
+          evaluation: saved?.evaluation,
+          highlightAnalysis: saved?.highlightAnalysis,
+        });
       });
-    }
-    
+    });
+
     return map;
-  }, [turn.responses, currentResponsesKey, isLatestTurn, selectedModels]);
+  }, [responseVersions]);
+
+  const { rubric } = useChatRubric();
+  const { settings: judgeSettings } = useJudgeSettings();
 
   // Use evaluation hook - MANUAL evaluation only (autoEvaluate: false)
   const {
@@ -363,7 +618,11 @@ function TurnView({
     isEvaluatingAny,
   } = useResponseEvaluation(turn.userMessage.content, responsesMap, {
     autoEvaluate: false,
-    evalModel: "gemma3:4b",
+    judgeModels: judgeSettings.models,
+    judgeHosts: judgeSettings.hosts,
+    blind: judgeSettings.blind,
+    orderings: judgeSettings.orderings,
+    rubric,
   });
 
   // Check if all responses are complete (same logic as regenerate button)
@@ -381,13 +640,13 @@ function TurnView({
 
   // Check if any evaluations exist
   const hasAnyEvaluation = useMemo(() => {
-    return selectedModels.some(model => evaluations.has(model));
-  }, [selectedModels, evaluations]);
+    return evaluations.size > 0;
+  }, [evaluations]);
 
   // Check if any highlights exist
   const hasAnyHighlights = useMemo(() => {
-    return selectedModels.some(model => highlightAnalyses.has(model));
-  }, [selectedModels, highlightAnalyses]);
+    return highlightAnalyses.size > 0;
+  }, [highlightAnalyses]);
 
   // Keep refs to latest functions to avoid stale closures
   const evaluateAllLatestRef = useRef(evaluateAll);
@@ -448,9 +707,9 @@ function TurnView({
 
   // Report highlight analyzing state to parent
   useEffect(() => {
-    const isAnalyzing = selectedModels.some(m => isAnalyzingHighlights(m));
+    const isAnalyzing = Array.from(responsesMap.keys()).some((key) => isAnalyzingHighlights(key));
     onHighlightStateChange?.(isAnalyzing);
-  }, [selectedModels, isAnalyzingHighlights, onHighlightStateChange]);
+  }, [responsesMap, isAnalyzingHighlights, onHighlightStateChange]);
 
   // Report if any highlights exist to parent
   useEffect(() => {
@@ -468,23 +727,111 @@ function TurnView({
         </div>
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between gap-2">
-            <span className="text-xs font-medium text-muted-foreground">You</span>
-            <Button
-              variant="ghost"
-              size="sm"
-              className="h-6 px-1.5"
-              onClick={() => setIsCollapsed(!isCollapsed)}
-            >
-              {isCollapsed ? (
-                <ChevronDown className="h-4 w-4" />
-              ) : (
-                <ChevronUp className="h-4 w-4" />
+            <span className="text-xs font-medium text-muted-foreground">
+              You
+              {turn.userMessage.mode === "completion" && (
+                <span className="ml-2 font-mono bg-muted px-1.5 py-0.5 rounded">raw completion</span>
+              )}
+              {turn.userMessage.format && (
+                <span
+                  className="ml-2 font-mono bg-muted px-1.5 py-0.5 rounded"
+                  title={
+                    turn.userMessage.format === "json"
+                      ? "Responses must be valid JSON"
+                      : JSON.stringify(turn.userMessage.format, null, 2)
+                  }
+                >
+                  {turn.userMessage.format === "json" ? "json" : "json schema"}
+                </span>
               )}
-            </Button>
+            </span>
+            <div className="flex items-center gap-1">
+              {/* Branch navigator - switch between edited versions of this prompt */}
+              {turn.siblings.length > 1 && (
+                <div className="flex items-center text-xs text-muted-foreground">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1"
+                    onClick={() => onSelectBranch(turn.siblings[branchIndex - 1])}
+                    disabled={isLoading || branchIndex <= 0}
+                    title="Previous branch"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="font-mono tabular-nums">
+                    {branchIndex + 1}/{turn.siblings.length}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1"
+                    onClick={() => onSelectBranch(turn.siblings[branchIndex + 1])}
+                    disabled={isLoading || branchIndex >= turn.siblings.length - 1}
+                    title="Next branch"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {onEditPrompt && !isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5"
+                  onClick={handleStartEdit}
+                  disabled={isLoading}
+                  title="Edit prompt and fork a new branch"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5"
+                onClick={() => setIsCollapsed(!isCollapsed)}
+              >
+                {isCollapsed ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronUp className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
           </div>
           {!isCollapsed && (
             <div className="text-sm mt-1">
-              <MarkdownRenderer content={turn.userMessage.content} />
+              {isEditing ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    className="min-h-[80px] text-sm"
+                    autoFocus
+                  />
+                  <div className="flex items-center justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setIsEditing(false)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={handleSubmitEdit}
+                      disabled={!editDraft.trim() || isLoading}
+                    >
+                      Save & Submit
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <MarkdownRenderer content={turn.userMessage.content} />
+              )}
               {/* Display attachments if any */}
               {turn.userMessage.attachments && turn.userMessage.attachments.length > 0 && (
                 <div className="flex flex-wrap gap-2 mt-2">
@@ -499,6 +846,9 @@ function TurnView({
                           />
                         </div>
                       )}
+                      {attachment.type === "file" && (
+                        <FileAttachmentChip attachment={attachment} />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -515,15 +865,27 @@ function TurnView({
           style={{ gridTemplateColumns: `repeat(${selectedModels.length}, 1fr)` }}
         >
           {selectedModels.map((model) => {
-            const savedResponse = turn.responses.get(model) || null;
-            const streamingResponse = isLatestTurn ? currentResponses[model] : null;
-            const isStreaming = isLatestTurn && streamingResponse && !streamingResponse.done;
+            const versions = responseVersions.get(model) || [];
+            const versionIndex = Math.min(
+              selectedVersions[model] ?? versions.length - 1,
+              versions.length - 1
+            );
+            const version = versions[versionIndex];
+            const versionKey = version?.key || model;
+            const savedResponse = version?.saved || null;
+            const streamingResponse = version?.streaming;
+            const isStreaming = streamingResponse && !streamingResponse.done;
             const isModelRegenerating = regeneratingModels.has(model);
             
             // Get evaluation data
-            const evaluation = evaluations.get(model) || savedResponse?.evaluation || null;
-            const highlightAnalysis = highlightAnalyses.get(model) || savedResponse?.highlightAnalysis || null;
+            const evaluation = evaluations.get(versionKey) || null;
+            const highlightAnalysis = highlightAnalyses.get(versionKey) || null;
             const showHighlights = highlightedModels.has(model);
+            const content = streamingResponse?.content || savedResponse?.content;
+            const schemaCheck =
+              turn.userMessage.format && content && !isStreaming
+                ? checkStructuredOutput(content, turn.userMessage.format)
+                : undefined;
 
 
             return (
@@ -531,12 +893,12 @@ function TurnView({
                 key={model}
                 model={model}
                 response={savedResponse}
-                streamingContent={isLatestTurn ? streamingResponse?.content : undefined}
+                streamingContent={streamingResponse?.content}
                 isStreaming={!!isStreaming}
                 isLoading={isLatestTurn && isLoading}
                 isRegenerating={isModelRegenerating}
                 onCopy={(text) => onCopy(text, model)}
-                onRegenerate={onRegenerate}
+                onRegenerate={handleRegenerate}
                 copiedModel={copiedModel}
                 speakingModel={speakingModel}
                 onSpeak={onSpeak}
@@ -546,9 +908,22 @@ function TurnView({
                 isSupported={isSupported}
                 evaluation={evaluation}
                 highlightAnalysis={highlightAnalysis}
-                isEvaluating={isEvaluating(model)}
-                evaluationError={errors.get(model)}
+                isEvaluating={isEvaluating(versionKey)}
+                evaluationError={errors.get(versionKey)}
                 showHighlights={showHighlights}
+                isTruncated={!!(streamingResponse?.truncated || savedResponse?.truncated)}
+                metrics={streamingResponse?.metrics || savedResponse?.metrics}
+                error={streamingResponse?.error || savedResponse?.error}
+                toolCalls={streamingResponse?.toolCalls || savedResponse?.toolCalls}
+                thinking={streamingResponse?.thinking || savedResponse?.thinking}
+                citations={turn.userMessage.citations}
+                schemaCheck={schemaCheck}
+                versionIndex={Math.max(versionIndex, 0)}
+                versionCount={versions.length}
+                onSelectVersion={(index) =>
+                  setSelectedVersions((prev) => ({ ...prev, [model]: index }))
+                }
+                onStopGeneration={isLatestTurn ? onStopGeneration : undefined}
               />
             );
           })}
@@ -560,6 +935,8 @@ function TurnView({
 
 interface ComparisonViewProps {
   onRegenerate?: (model: string) => void;
+  onStopGeneration?: (model: string) => void;
+  onEditPrompt?: (message: Message, content: string) => void;
   showHighlights?: boolean;
   onEvaluationStateChange?: (isEvaluating: boolean) => void;
   onHighlightStateChange?: (isAnalyzing: boolean) => void;
@@ -571,6 +948,8 @@ interface ComparisonViewProps {
 
 export function ComparisonView({
   onRegenerate,
+  onStopGeneration,
+  onEditPrompt,
   showHighlights = false,
   onEvaluationStateChange,
   onHighlightStateChange,
@@ -579,13 +958,14 @@ export function ComparisonView({
   evaluateAllRef,
   analyzeAllHighlightsRef,
 }: ComparisonViewProps) {
-  const { selectedModels, currentResponses, isLoading, currentChatId, regeneratingModels } = useChatStore();
+  const { selectedModels, currentResponses, isLoading, currentChatId, regeneratingModels, clearResponses } = useChatStore();
   const { messages } = useChatMessages(currentChatId);
+  const { activeBranches, selectBranch } = useChatBranches(currentChatId);
   
   // Stabilize currentResponses by memoizing based on content, not object reference
   // This prevents re-render loops when the store updates with the same content
   const stableCurrentResponses = useMemo(() => currentResponses, [
-    JSON.stringify(Object.entries(currentResponses).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, v.content, v.done]))
+    JSON.stringify(Object.entries(currentResponses).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, v.content, v.done, v.error, v.toolCalls?.length, v.thinking?.length]))
   ]);
   const [copiedModel, setCopiedModel] = useState<string | null>(null);
   const [speakingModel, setSpeakingModel] = useState<string | null>(null);
@@ -607,6 +987,12 @@ export function ComparisonView({
     }
   };
 
+  const handleSelectBranch = async (message: Message) => {
+    // Streamed responses belong to the branch they were generated on
+    clearResponses();
+    await selectBranch(getBranchKey(message), message.id);
+  };
+
   const handleSpeak = (text: string, model: string) => {
     if (speakingModel === model && isSpeaking) {
       if (isPaused) {
@@ -644,10 +1030,10 @@ export function ComparisonView({
   }
 
   // Group messages into conversation turns
-  const turns = groupMessagesByTurn(messages, selectedModels);
+  const turns = groupMessagesByTurn(messages, activeBranches);
 
   // Check if we have streaming responses even if no turns saved yet
-  const hasStreamingContent = Object.values(stableCurrentResponses).some(r => r && r.content);
+  const hasStreamingContent = Object.values(stableCurrentResponses).some(r => r && (r.content || r.thinking));
 
   if (turns.length === 0 && !hasStreamingContent) {
     return (
@@ -673,6 +1059,9 @@ export function ComparisonView({
                 regeneratingModels={regeneratingModels}
                 onCopy={handleCopy}
                 onRegenerate={handleRegenerate}
+                onStopGeneration={onStopGeneration}
+                onSelectBranch={handleSelectBranch}
+                onEditPrompt={onEditPrompt}
                 copiedModel={copiedModel}
                 speakingModel={speakingModel}
                 onSpeak={handleSpeak}
@@ -718,6 +1107,12 @@ export function ComparisonView({
                       isSpeaking={isSpeaking}
                       isPaused={isPaused}
                       isSupported={isSupported}
+                      isTruncated={!!streamingResponse?.truncated}
+                      metrics={streamingResponse?.metrics}
+                      error={streamingResponse?.error}
+                      toolCalls={streamingResponse?.toolCalls}
+                      thinking={streamingResponse?.thinking}
+                      onStopGeneration={onStopGeneration}
                     />
                   );
                 })}
@@ -2,22 +2,29 @@
 
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Check, ChevronDown, ChevronUp, Eye, EyeOff, Loader2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DEFAULT_RUBRIC, getCheckCriteria, normalizeScore } from "@/lib/utils/rubrics";
+import { getOrderShift, getPanelAgreement } from "@/lib/utils/judge-panel";
 import type { ResponseEvaluation } from "@/types";
 
 interface EvaluationDisplayProps {
   evaluation: ResponseEvaluation | null;
   isLoading?: boolean;
   error?: string;
+  showIssues?: boolean; // whether the flagged quotes are marked in the response
+  onToggleIssues?: () => void;
 }
 
 export function EvaluationDisplay({
   evaluation,
   isLoading,
   error,
+  showIssues = false,
+  onToggleIssues,
 }: EvaluationDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isReasoningOpen, setIsReasoningOpen] = useState(false);
 
   if (isLoading) {
     return (
@@ -51,17 +58,61 @@ export function EvaluationDisplay({
     technical: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
   };
 
+  // Scores are read against the rubric they were judged with
+  const rubric = evaluation.rubric || DEFAULT_RUBRIC;
+  const getCriterionName = (key: string) =>
+    rubric.criteria.find((criterion) => criterion.key === key)?.name ?? key;
+  const checks = getCheckCriteria(rubric).filter(
+    (criterion) => evaluation.checks?.[criterion.key] !== undefined
+  );
+  const failedChecks = checks.filter((criterion) => !evaluation.checks?.[criterion.key]);
+
+  // With a panel, the scores are the judges' means and we show how far they agreed
+  const judges = evaluation.judges && evaluation.judges.length > 1 ? evaluation.judges : null;
+  const agreement = judges ? getPanelAgreement(judges, rubric) : null;
+
+  // Blind runs in several orders, per judge, to show how much the order moved the score
+  const orderRuns = (judges || [{ ...evaluation, judgeModel: evaluation.judgeModel || "Judge" }])
+    .filter((judge) => judge.runs && judge.runs.length > 1)
+    .map((judge) => ({
+      judgeModel: judge.judgeModel,
+      runs: judge.runs!,
+      shift: getOrderShift(judge.runs)!,
+    }));
+
+  // Why each criterion got its result: the judge's rationale, or every
+  // panel judge's, and the problems flagged against it
+  const issues = evaluation.issues || [];
+  const reasoning = rubric.criteria
+    .map((criterion) => ({
+      criterion,
+      rationales: (judges || [{ ...evaluation, judgeModel: "" }])
+        .filter((judge) => judge.rationales?.[criterion.key])
+        .map((judge) => ({ judgeModel: judge.judgeModel, text: judge.rationales![criterion.key] })),
+      issues: issues.filter((issue) => issue.criterion === criterion.key),
+    }))
+    .filter((entry) => entry.rationales.length > 0 || entry.issues.length > 0);
+  const hasQuotes = issues.some((issue) => issue.quote);
+
+  const getAgreementLabel = (alpha: number) => {
+    if (alpha >= 0.8) return "high";
+    if (alpha >= 0.667) return "moderate";
+    return "low";
+  };
+
   const getScoreColor = (score: number) => {
-    if (score >= 3.5) return "bg-green-500";
-    if (score >= 2.5) return "bg-blue-500";
-    if (score >= 1.5) return "bg-orange-500";
+    const position = normalizeScore(score, rubric);
+    if (position >= 0.833) return "bg-green-500";
+    if (position >= 0.5) return "bg-blue-500";
+    if (position >= 0.167) return "bg-orange-500";
     return "bg-red-500";
   };
 
   const getScoreLabel = (score: number) => {
-    if (score >= 3.5) return "Excellent";
-    if (score >= 2.5) return "Good";
-    if (score >= 1.5) return "Fair";
+    const position = normalizeScore(score, rubric);
+    if (position >= 0.833) return "Excellent";
+    if (position >= 0.5) return "Good";
+    if (position >= 0.167) return "Fair";
     return "Poor";
   };
 
@@ -82,10 +133,19 @@ export function EvaluationDisplay({
           <span className="text-xs font-medium text-muted-foreground">Score:</span>
           <div className="flex items-center gap-1.5">
             <div className="text-sm font-semibold">{evaluation.finalScore.toFixed(1)}</div>
-            <span className="text-xs text-muted-foreground">/ 4.0</span>
+            <span className="text-xs text-muted-foreground">/ {rubric.scaleMax.toFixed(1)}</span>
             <Badge variant="outline" className="text-xs">
               {getScoreLabel(evaluation.finalScore)}
             </Badge>
+            {failedChecks.length > 0 && (
+              <Badge
+                variant="outline"
+                className="text-xs border-destructive/50 text-destructive"
+                title={`Failed: ${failedChecks.map((criterion) => criterion.name).join(", ")}`}
+              >
+                {failedChecks.length} failed
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -113,26 +173,193 @@ export function EvaluationDisplay({
             )}
           </Button>
         </div>
+        {isExpanded && (evaluation.judgeModel || judges) && (
+          <div className="text-[10px] text-muted-foreground">
+            Judged by{" "}
+            {judges ? judges.map((judge) => judge.judgeModel).join(", ") : evaluation.judgeModel}{" "}
+            with {rubric.name}
+            {evaluation.blind && " · blind"}
+            {evaluation.evaluatedAt && ` · ${new Date(evaluation.evaluatedAt).toLocaleString()}`}
+          </div>
+        )}
+        {isExpanded && judges && agreement && (
+          <div className="space-y-0.5 text-[10px] text-muted-foreground">
+            <div title="Krippendorff's alpha across the criteria: 1 is full agreement, 0 is chance">
+              Judge agreement:{" "}
+              {agreement.alpha === null ? (
+                "n/a"
+              ) : (
+                <span className="font-medium text-foreground">
+                  α {agreement.alpha.toFixed(2)} ({getAgreementLabel(agreement.alpha)})
+                </span>
+              )}
+            </div>
+            <div>
+              {judges
+                .map((judge) => `${judge.judgeModel}: ${judge.finalScore.toFixed(1)}`)
+                .join(" · ")}
+            </div>
+          </div>
+        )}
+        {isExpanded && orderRuns.length > 0 && (
+          <div
+            className="space-y-0.5 text-[10px] text-muted-foreground"
+            title="Final score in each shuffled ordering, by the position the response was shown at"
+          >
+            <div>Order effect:</div>
+            {orderRuns.map(({ judgeModel, runs, shift }) => (
+              <div key={judgeModel}>
+                {judges && `${judgeModel}: `}
+                {runs.map((run) => `#${run.position + 1} ${run.finalScore.toFixed(1)}`).join(" · ")}
+                {" - "}
+                <span
+                  className={
+                    normalizeScore(rubric.scaleMin + shift, rubric) >= 0.25
+                      ? "font-medium text-orange-600 dark:text-orange-400"
+                      : "font-medium text-foreground"
+                  }
+                >
+                  shift {shift.toFixed(1)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
         {isExpanded && (
           <div className="space-y-2 pt-1">
-            {Object.entries(evaluation.parameterScores).map(([key, score]) => (
-              <div key={key} className="space-y-1">
-                <div className="flex items-center justify-between text-xs">
-                  <span className="capitalize text-muted-foreground">{key}:</span>
-                  <span className="font-medium">{score.toFixed(1)}/4</span>
-                </div>
-                <div className="h-1.5 bg-muted rounded-full overflow-hidden">
-                  <div
-                    className={`h-full ${getScoreColor(score)} transition-all`}
-                    style={{ width: `${(score / 4) * 100}%` }}
-                  />
+            {Object.entries(evaluation.parameterScores).map(([key, score]) => {
+              const spread = agreement?.criteria.find((criterion) => criterion.key === key);
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">{getCriterionName(key)}:</span>
+                    <span className="flex items-center gap-1.5">
+                      {spread && (
+                        <span
+                          className="text-[10px] text-muted-foreground"
+                          title={judges
+                            ?.map((judge) => `${judge.judgeModel}: ${judge.parameterScores[key]}`)
+                            .join("\n")}
+                        >
+                          median {spread.median} · ±{spread.spread.toFixed(1)}
+                        </span>
+                      )}
+                      <span className="font-medium">
+                        {score.toFixed(1)}/{rubric.scaleMax}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${getScoreColor(score)} transition-all`}
+                      style={{ width: `${Math.max(normalizeScore(score, rubric), 0.02) * 100}%` }}
+                    />
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
+          </div>
+        )}
+        {isExpanded && checks.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 pt-1">
+            {checks.map((criterion) => {
+              const passed = evaluation.checks?.[criterion.key];
+              return (
+                <Badge
+                  key={criterion.key}
+                  variant="outline"
+                  className={`text-xs gap-1 ${
+                    passed
+                      ? "border-green-500/50 text-green-700 dark:text-green-300"
+                      : "border-destructive/50 text-destructive"
+                  }`}
+                  title={criterion.description}
+                >
+                  {passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                  {criterion.name}
+                </Badge>
+              );
+            })}
           </div>
         )}
       </div>
+
+      {/* Judge Reasoning */}
+      {reasoning.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+              Reasoning
+              {issues.length > 0 && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                  {issues.length === 1 ? "1 issue" : `${issues.length} issues`}
+                </Badge>
+              )}
+            </span>
+            <div className="flex items-center gap-1">
+              {hasQuotes && onToggleIssues && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 px-1.5 text-xs"
+                  onClick={onToggleIssues}
+                  title="Mark the quoted problems in the response"
+                >
+                  {showIssues ? (
+                    <EyeOff className="h-3 w-3 mr-1" />
+                  ) : (
+                    <Eye className="h-3 w-3 mr-1" />
+                  )}
+                  Quotes
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1.5 text-xs"
+                onClick={() => setIsReasoningOpen(!isReasoningOpen)}
+              >
+                {isReasoningOpen ? (
+                  <>
+                    <ChevronUp className="h-3 w-3 mr-1" />
+                    Hide
+                  </>
+                ) : (
+                  <>
+                    <ChevronDown className="h-3 w-3 mr-1" />
+                    Show
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+          {isReasoningOpen && (
+            <div className="space-y-2 pt-1">
+              {reasoning.map(({ criterion, rationales, issues: criterionIssues }) => (
+                <div key={criterion.key} className="space-y-0.5 text-xs">
+                  <div className="font-medium">{criterion.name}</div>
+                  {rationales.map(({ judgeModel, text }) => (
+                    <p key={judgeModel} className="text-muted-foreground">
+                      {judgeModel && <span className="text-foreground">{judgeModel}: </span>}
+                      {text}
+                    </p>
+                  ))}
+                  {criterionIssues.map((issue, index) => (
+                    <div
+                      key={index}
+                      className="border-l-2 border-destructive/50 pl-2 text-muted-foreground"
+                    >
+                      {issue.quote && <q className="block italic text-foreground">{issue.quote}</q>}
+                      {issue.problem}
+                      {issue.judgeModel && ` (${issue.judgeModel})`}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
-
@@ -2,18 +2,28 @@
 
 import { useMemo } from "react";
 import { MarkdownRenderer } from "@/components/markdown/markdown-renderer";
-import type { HighlightAnalysis } from "@/types";
+import type { EvaluationIssue, HighlightAnalysis } from "@/types";
 
 interface HighlightedContentProps {
   content: string;
   highlightAnalysis: HighlightAnalysis | null;
   showHighlights: boolean;
+  issues?: EvaluationIssue[]; // problems judges flagged, their quotes are marked
 }
 
+type HighlightType = 'similar' | 'different' | 'issue';
+
+// Issues win over the idea highlights when they mark the same text
+const HIGHLIGHT_PRIORITY: Record<HighlightType, number> = { similar: 0, different: 1, issue: 2 };
+
+const escapeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
 export function HighlightedContent({
   content,
   highlightAnalysis,
   showHighlights,
+  issues,
 }: HighlightedContentProps) {
   // Escape special regex characters
   const escapeRegex = (str: string): string => {
@@ -64,27 +74,32 @@ export function HighlightedContent({
   };
 
   // Apply highlights to content while preserving markdown
+  const showIdeas = showHighlights && !!highlightAnalysis;
+  const hasQuotes = !!issues?.some((issue) => issue.quote.trim().length > 0);
+
   const processedContent = useMemo(() => {
-    if (!showHighlights || !highlightAnalysis) {
+    const ideas = showHighlights ? highlightAnalysis : null;
+    const quotedIssues = (issues || []).filter((issue) => issue.quote.trim().length > 0);
+    if (!ideas && quotedIssues.length === 0) {
       return content;
     }
 
-    let result = content;
-    const replacements: Array<{ original: string; replacement: string; type: 'similar' | 'different' }> = [];
+    const replacements: Array<{ original: string; replacement: string; type: HighlightType; title?: string }> = [];
 
     // Find all phrases that need highlighting
-    const allPhrases = [
-      ...highlightAnalysis.similarSentences.map(s => ({ phrase: s, type: 'similar' as const })),
-      ...highlightAnalysis.differentSentences.map(s => ({ phrase: s, type: 'different' as const })),
+    const allPhrases: Array<{ phrase: string; type: HighlightType; title?: string }> = [
+      ...(ideas?.similarSentences.map(s => ({ phrase: s, type: 'similar' as const })) || []),
+      ...(ideas?.differentSentences.map(s => ({ phrase: s, type: 'different' as const })) || []),
+      ...quotedIssues.map((issue) => ({ phrase: issue.quote, type: 'issue' as const, title: issue.problem })),
     ];
 
     // For each phrase, find matches in the content using fuzzy matching
-    allPhrases.forEach(({ phrase, type }) => {
+    allPhrases.forEach(({ phrase, type, title }) => {
       const trimmedPhrase = phrase.trim();
       
       // Try exact match first (case-insensitive)
       const exactRegex = new RegExp(`(${escapeRegex(trimmedPhrase)})`, 'gi');
-      const exactMatches = [...result.matchAll(exactRegex)];
+      const exactMatches = [...content.matchAll(exactRegex)];
       
       if (exactMatches.length > 0) {
         exactMatches.forEach(match => {
@@ -93,13 +108,14 @@ export function HighlightedContent({
               original: match[0],
               replacement: match[0],
               type,
+              title,
             });
           }
         });
       } else {
         // Try fuzzy matching - look for phrases with high similarity
         // Split content into potential matches (by sentences/phrases)
-        const contentParts = result.split(/([.!?,;\n])/);
+        const contentParts = content.split(/([.!?,;\n])/);
         
         contentParts.forEach(part => {
           const trimmedPart = part.trim();
@@ -110,6 +126,7 @@ export function HighlightedContent({
                 original: part,
                 replacement: part,
                 type,
+                title,
               });
             }
           }
@@ -117,43 +134,69 @@ export function HighlightedContent({
       }
     });
 
-    // Apply replacements (deduplicate and prioritize 'different' over 'similar')
-    const uniqueReplacements = new Map<string, 'similar' | 'different'>();
-    replacements.forEach(({ original, type }) => {
+    // Apply replacements (deduplicate and prioritize issues, then 'different' over 'similar')
+    const uniqueReplacements = new Map<string, { type: HighlightType; title?: string }>();
+    replacements.forEach(({ original, type, title }) => {
       const existing = uniqueReplacements.get(original);
-      if (!existing || (type === 'different' && existing === 'similar')) {
-        uniqueReplacements.set(original, type);
+      if (!existing || HIGHLIGHT_PRIORITY[type] > HIGHLIGHT_PRIORITY[existing.type]) {
+        uniqueReplacements.set(original, { type, title });
       }
     });
 
-    // Sort by length (longest first) to avoid replacing parts of longer matches
-    const sortedReplacements = Array.from(uniqueReplacements.entries())
-      .sort((a, b) => b[0].length - a[0].length);
-
-    // Apply highlights using HTML marks
-    sortedReplacements.forEach(([text, type]) => {
-      const className = type === 'similar' ? 'highlight-similar' : 'highlight-different';
-      const escapedText = escapeRegex(text);
-      const regex = new RegExp(`(${escapedText})`, 'g');
-      result = result.replace(regex, `<mark class="${className}">$1</mark>`);
-    });
-
-    return result;
-  }, [content, highlightAnalysis, showHighlights]);
-
-  if (showHighlights && highlightAnalysis) {
+    // Find every occurrence in the original content. Longest texts claim
+    // their ranges first, and shorter matches overlapping them are dropped,
+    // so marks never nest and never match inside an inserted tag.
+    const ranges: Array<{ start: number; end: number; type: HighlightType; title?: string }> = [];
+    Array.from(uniqueReplacements.entries())
+      .sort((a, b) => b[0].length - a[0].length)
+      .forEach(([text, { type, title }]) => {
+        if (!text) return;
+        for (let start = content.indexOf(text); start !== -1; start = content.indexOf(text, start + text.length)) {
+          const end = start + text.length;
+          if (!ranges.some((range) => start < range.end && end > range.start)) {
+            ranges.push({ start, end, type, title });
+          }
+        }
+      });
+
+    // Build the marked content in a single pass over the ranges
+    let result = '';
+    let position = 0;
+    ranges
+      .sort((a, b) => a.start - b.start)
+      .forEach(({ start, end, type, title }) => {
+        const titleAttribute = title ? ` title="${escapeAttribute(title)}"` : '';
+        result += content.slice(position, start);
+        result += `<mark class="highlight-${type}"${titleAttribute}>${content.slice(start, end)}</mark>`;
+        position = end;
+      });
+
+    return result + content.slice(position);
+  }, [content, highlightAnalysis, showHighlights, issues]);
+
+  if (showIdeas || hasQuotes) {
     return (
       <div className="highlighted-content">
         <div className="space-y-2 mb-3 text-xs text-muted-foreground border-b pb-2">
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-1.5">
-              <div className="w-3 h-3 bg-blue-200/70 dark:bg-blue-900/50 rounded border border-blue-300 dark:border-blue-800" />
-              <span>Similar to other responses</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <div className="w-3 h-3 bg-yellow-200/70 dark:bg-yellow-900/50 rounded border border-yellow-300 dark:border-yellow-800" />
-              <span>Unique to this response</span>
-            </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            {showIdeas && (
+              <>
+                <div className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 bg-blue-200/70 dark:bg-blue-900/50 rounded border border-blue-300 dark:border-blue-800" />
+                  <span>Similar to other responses</span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 bg-yellow-200/70 dark:bg-yellow-900/50 rounded border border-yellow-300 dark:border-yellow-800" />
+                  <span>Unique to this response</span>
+                </div>
+              </>
+            )}
+            {hasQuotes && (
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 bg-red-200/70 dark:bg-red-900/50 rounded border border-red-300 dark:border-red-800" />
+                <span>Flagged by the judge</span>
+              </div>
+            )}
           </div>
         </div>
         <MarkdownRenderer content={processedContent} />
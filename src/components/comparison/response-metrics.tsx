@@ -0,0 +1,91 @@
+"use client";
+
+import { Gauge, Timer, HardDriveDownload, Clock, Brain, SlidersHorizontal } from "lucide-react";
+import {
+  formatDuration,
+  getTokensPerSecond,
+  nsToMs,
+} from "@/lib/utils/metrics";
+import { formatGenerationOptions } from "@/lib/utils/generation-options";
+import type {
+  ResponseMetrics as ResponseMetricsData,
+  GenerationOptions,
+} from "@/types";
+
+interface ResponseMetricsProps {
+  metrics: ResponseMetricsData;
+  options?: GenerationOptions; // sampling options the response was generated with
+}
+
+export function ResponseMetrics({ metrics, options }: ResponseMetricsProps) {
+  const tokensPerSecond = getTokensPerSecond(metrics);
+  const items = [
+    {
+      icon: Gauge,
+      label: "Generation speed",
+      value: tokensPerSecond !== null ? `${tokensPerSecond.toFixed(1)} tok/s` : null,
+      detail: metrics.eval_count ? `${metrics.eval_count} tokens generated` : undefined,
+    },
+    {
+      icon: Brain,
+      label: "Thinking tokens",
+      value: metrics.thinking_count ? `${metrics.thinking_count}` : null,
+      prefix: "think ",
+      detail: metrics.eval_count ? `of ${metrics.eval_count} tokens generated` : undefined,
+    },
+    {
+      icon: Timer,
+      label: "Time to first token",
+      value: formatDuration(metrics.time_to_first_token),
+      prefix: "TTFT ",
+    },
+    {
+      icon: HardDriveDownload,
+      label: "Model load time",
+      value: formatDuration(nsToMs(metrics.load_duration)),
+      prefix: "load ",
+    },
+    {
+      icon: Clock,
+      label: "Total latency",
+      value: formatDuration(nsToMs(metrics.total_duration)),
+      prefix: "total ",
+      detail: metrics.prompt_eval_count
+        ? `${metrics.prompt_eval_count} prompt tokens`
+        : undefined,
+    },
+  ].filter((item) => item.value !== null);
+
+  if (items.length === 0 && !options) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 py-1.5 border-t bg-muted/10 shrink-0">
+      <div className="flex items-center gap-3 flex-wrap text-xs text-muted-foreground">
+        {items.map(({ icon: Icon, label, value, prefix, detail }) => (
+          <span
+            key={label}
+            className="flex items-center gap-1"
+            title={detail ? `${label} (${detail})` : label}
+          >
+            <Icon className="h-3 w-3" />
+            <span className="font-mono">
+              {prefix}
+              {value}
+            </span>
+          </span>
+        ))}
+        {options && (
+          <span
+            className="flex items-center gap-1 ml-auto"
+            title={`Generated with ${formatGenerationOptions(options)}`}
+          >
+            <SlidersHorizontal className="h-3 w-3" />
+            <span className="font-mono">custom params</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
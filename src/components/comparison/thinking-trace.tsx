@@ -0,0 +1,29 @@
+"use client";
+
+import { Brain } from "lucide-react";
+
+interface ThinkingTraceProps {
+  thinking: string;
+  tokenCount?: number;
+  isThinking?: boolean; // still streaming and no answer yet
+}
+
+// A reasoning model's thinking, collapsed so the answers stay comparable
+export function ThinkingTrace({ thinking, tokenCount, isThinking }: ThinkingTraceProps) {
+  return (
+    <details className="mb-3 text-xs border rounded-md bg-muted/20">
+      <summary className="cursor-pointer px-2 py-1.5 flex items-center gap-1.5 text-muted-foreground">
+        <Brain className={`h-3 w-3 ${isThinking ? "animate-pulse" : ""}`} />
+        <span>{isThinking ? "Thinking…" : "Thinking"}</span>
+        {tokenCount !== undefined && tokenCount > 0 && (
+          <span className="font-mono">
+            {tokenCount} token{tokenCount === 1 ? "" : "s"}
+          </span>
+        )}
+      </summary>
+      <div className="px-2 pb-2 whitespace-pre-wrap break-words text-muted-foreground max-h-64 overflow-auto">
+        {thinking}
+      </div>
+    </details>
+  );
+}
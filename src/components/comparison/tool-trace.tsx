@@ -0,0 +1,66 @@
+"use client";
+
+import { Wrench, AlertTriangle } from "lucide-react";
+import { formatDuration } from "@/lib/utils/metrics";
+import type { ToolCallStep } from "@/types";
+
+const MAX_PREVIEW_CHARS = 2000;
+
+const formatArguments = (args: Record<string, unknown>): string =>
+  Object.entries(args)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+
+interface ToolTraceProps {
+  steps: ToolCallStep[];
+}
+
+// The tools a model called before answering, in order, so agentic behavior
+// can be compared across models at a glance
+export function ToolTrace({ steps }: ToolTraceProps) {
+  const failed = steps.filter((step) => step.error).length;
+
+  return (
+    <details className="mb-3 text-xs border rounded-md bg-muted/20">
+      <summary className="cursor-pointer px-2 py-1.5 flex items-center gap-1.5 text-muted-foreground">
+        <Wrench className="h-3 w-3" />
+        <span>
+          {steps.length} tool call{steps.length === 1 ? "" : "s"}
+          {failed > 0 && <span className="text-destructive"> · {failed} failed</span>}
+        </span>
+        <span className="truncate font-mono">
+          {steps.map((step) => step.name).join(" → ")}
+        </span>
+      </summary>
+      <ol className="px-2 pb-2 space-y-1.5">
+        {steps.map((step, index) => {
+          const output = step.error || step.result || "";
+          return (
+            <li key={index} className="space-y-0.5">
+              <div className="flex items-center gap-1.5">
+                <span className="text-muted-foreground tabular-nums">{index + 1}.</span>
+                <span className="font-mono font-medium">{step.name}</span>
+                <span className="font-mono text-muted-foreground truncate">
+                  ({formatArguments(step.arguments)})
+                </span>
+                <span className="ml-auto text-muted-foreground shrink-0">
+                  {formatDuration(step.durationMs)}
+                </span>
+              </div>
+              <pre
+                className={`p-1.5 rounded text-[11px] whitespace-pre-wrap break-words max-h-32 overflow-auto ${
+                  step.error ? "bg-destructive/10 text-destructive" : "bg-muted"
+                }`}
+              >
+                {step.error && <AlertTriangle className="inline h-3 w-3 mr-1 -mt-0.5" />}
+                {output.length > MAX_PREVIEW_CHARS
+                  ? `${output.slice(0, MAX_PREVIEW_CHARS)}…`
+                  : output}
+              </pre>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
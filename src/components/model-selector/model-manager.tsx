@@ -0,0 +1,359 @@
+"use client";
+
+import { useState } from "react";
+import { useModels } from "@/hooks/use-models";
+import { useHosts } from "@/hooks/use-hosts";
+import {
+  useModelManager,
+  useModelDetails,
+  useRunningModels,
+} from "@/hooks/use-model-manager";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Info, Loader2, Trash2, X } from "lucide-react";
+import { ModelIcon } from "@/components/model-icons/model-icon";
+import { DEFAULT_HOST } from "@/lib/ollama/hosts";
+import type { OllamaHost, OllamaPullProgress } from "@/types";
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
+};
+
+// "in 4 min" / "expired" for a model's keep-alive deadline
+const formatExpiry = (expiresAt: string): string => {
+  const minutes = Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000);
+  if (isNaN(minutes)) return "";
+  if (minutes <= 0) return "unloading";
+  if (minutes > 60 * 24 * 365) return "kept loaded";
+  return minutes < 60 ? `in ${minutes} min` : `in ${Math.round(minutes / 60)} h`;
+};
+
+const isPullActive = (progress: OllamaPullProgress) =>
+  !["success", "error", "cancelled"].includes(progress.status);
+
+interface ModelManagerProps {
+  onClose: () => void;
+}
+
+export function ModelManager({ onClose }: ModelManagerProps) {
+  const { hosts } = useHosts();
+  const [hostId, setHostId] = useState(DEFAULT_HOST.id);
+  const host = hosts.find((h) => h.id === hostId) || DEFAULT_HOST;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b flex items-center justify-between gap-2 shrink-0">
+          <h2 className="text-sm font-semibold">Manage Models</h2>
+          <div className="flex items-center gap-2">
+            {hosts.length > 1 && (
+              <Select value={host.id} onValueChange={setHostId}>
+                <SelectTrigger className="h-7 text-xs w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {hosts.map((h) => (
+                    <SelectItem key={h.id} value={h.id}>
+                      {h.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onClose}
+              title="Close"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Remount per host so pull progress and details don't leak across hosts */}
+        <HostModels key={host.id} host={host} />
+      </Card>
+    </div>
+  );
+}
+
+function HostModels({ host }: { host: OllamaHost }) {
+  const { data: models, isLoading } = useModels();
+  const { data: runningModels } = useRunningModels(host);
+  const { pulls, pullModel, cancelPull, dismissPull, deleteModel } =
+    useModelManager(host);
+  const [pullName, setPullName] = useState("");
+  const [detailsModel, setDetailsModel] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const hostModels = (models || []).filter((m) => m.host === host.id);
+
+  const handlePull = () => {
+    const name = pullName.trim();
+    if (!name || (pulls[name] && isPullActive(pulls[name]))) return;
+    setPullName("");
+    pullModel(name);
+  };
+
+  const handleDelete = async (model: string) => {
+    if (!confirm(`Delete ${model} from ${host.name}?`)) return;
+    setDeleteError(null);
+    try {
+      await deleteModel(model);
+      if (detailsModel === model) setDetailsModel(null);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <ScrollArea className="flex-1 min-h-0">
+      <div className="p-4 space-y-5">
+        {/* Pull */}
+        <section className="space-y-2">
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Pull a model
+          </h3>
+          <div className="flex items-center gap-2">
+            <Input
+              value={pullName}
+              onChange={(e) => setPullName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handlePull()}
+              placeholder="e.g. llama3.2:3b"
+              className="h-8 text-xs"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={handlePull}
+              disabled={!pullName.trim()}
+            >
+              <Download className="h-3.5 w-3.5 mr-1" />
+              Pull
+            </Button>
+          </div>
+          {Object.entries(pulls).map(([model, progress]) => (
+            <PullProgress
+              key={model}
+              model={model}
+              progress={progress}
+              onCancel={() => cancelPull(model)}
+              onDismiss={() => dismissPull(model)}
+            />
+          ))}
+        </section>
+
+        {/* Loaded in memory */}
+        <section className="space-y-2">
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Loaded
+          </h3>
+          {!runningModels || runningModels.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No models loaded</div>
+          ) : (
+            <div className="space-y-1">
+              {runningModels.map((model) => (
+                <div
+                  key={model.name}
+                  className="flex items-center gap-2 text-xs px-1 py-1"
+                >
+                  <ModelIcon modelName={model.name} size="sm" />
+                  <span className="font-medium flex-1 truncate">{model.name}</span>
+                  <span className="text-muted-foreground" title="Memory in VRAM / total">
+                    {formatSize(model.size_vram)} / {formatSize(model.size)}
+                  </span>
+                  <span className="text-muted-foreground w-20 text-right" title={model.expires_at}>
+                    {formatExpiry(model.expires_at)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Installed */}
+        <section className="space-y-2">
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Installed
+          </h3>
+          {deleteError && (
+            <div className="text-xs text-destructive">{deleteError}</div>
+          )}
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : hostModels.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No models installed</div>
+          ) : (
+            <div className="space-y-1">
+              {hostModels.map((model) => (
+                <div key={model.name}>
+                  <div className="group flex items-center gap-2 text-xs px-1 py-1 hover:bg-muted/50 rounded transition-colors">
+                    <ModelIcon modelName={model.name} size="sm" />
+                    <span className="font-medium flex-1 truncate">{model.name}</span>
+                    <span className="text-muted-foreground">
+                      {[
+                        model.details?.parameter_size,
+                        model.details?.quantization_level,
+                        formatSize(model.size),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                    <button
+                      onClick={() =>
+                        setDetailsModel(detailsModel === model.name ? null : model.name)
+                      }
+                      className={`rounded hover:bg-muted p-0.5 transition-all shrink-0 ${
+                        detailsModel === model.name ? "text-primary" : ""
+                      }`}
+                      aria-label={`Details for ${model.name}`}
+                      title="Details"
+                    >
+                      <Info className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(model.name)}
+                      className="rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                      aria-label={`Delete ${model.name}`}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  {detailsModel === model.name && (
+                    <ModelDetails host={host} model={model.name} />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </ScrollArea>
+  );
+}
+
+interface PullProgressProps {
+  model: string;
+  progress: OllamaPullProgress;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+function PullProgress({ model, progress, onCancel, onDismiss }: PullProgressProps) {
+  const active = isPullActive(progress);
+  const percent =
+    progress.total && progress.completed !== undefined
+      ? Math.round((progress.completed / progress.total) * 100)
+      : null;
+
+  return (
+    <div className="border rounded-md p-2 space-y-1.5">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="font-medium truncate">{model}</span>
+        <div className="flex items-center gap-2 shrink-0">
+          <span
+            className={
+              progress.status === "error" ? "text-destructive" : "text-muted-foreground"
+            }
+          >
+            {progress.error || progress.status}
+            {active && percent !== null && ` · ${percent}%`}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1.5 text-xs"
+            onClick={active ? onCancel : onDismiss}
+          >
+            {active ? "Cancel" : <X className="h-3 w-3" />}
+          </Button>
+        </div>
+      </div>
+      {active && (
+        <div className="h-1.5 bg-muted rounded overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${percent ?? 0}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ModelDetails({ host, model }: { host: OllamaHost; model: string }) {
+  const { data, isLoading, error } = useModelDetails(host, model);
+
+  if (isLoading) {
+    return (
+      <div className="ml-6 py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="ml-6 py-2 text-xs text-destructive">
+        Failed to load model details.
+      </div>
+    );
+  }
+
+  const sections: [string, string | undefined][] = [
+    ["Parameters", data.parameters],
+    ["Template", data.template],
+    ["System", data.system],
+    ["Modelfile", data.modelfile],
+    ["License", data.license],
+  ];
+
+  return (
+    <div className="ml-6 mb-1 p-2 border rounded-md bg-background space-y-1">
+      {data.details && (
+        <div className="text-xs text-muted-foreground">
+          {[
+            data.details.family,
+            data.details.parameter_size,
+            data.details.quantization_level,
+            data.details.format,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      )}
+      {sections
+        .filter(([, value]) => value?.trim())
+        .map(([label, value]) => (
+          <details key={label} className="text-xs">
+            <summary className="cursor-pointer font-medium py-0.5">{label}</summary>
+            <pre className="mt-1 p-2 bg-muted rounded text-[11px] whitespace-pre-wrap break-words max-h-48 overflow-auto">
+              {value}
+            </pre>
+          </details>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useChatStore } from "@/store/chat-store";
+import { useGenerationPresets } from "@/hooks/use-generation-presets";
+import { useChatSystemPrompts } from "@/hooks/use-system-prompts";
+import { SystemPromptSelect } from "@/components/settings/system-prompt-select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash2, RotateCcw } from "lucide-react";
+import { cleanGenerationOptions } from "@/lib/utils/generation-options";
+import type { GenerationOptions } from "@/types";
+
+type NumericOption = "temperature" | "top_p" | "num_ctx" | "seed";
+
+const NUMERIC_FIELDS: Array<{
+  key: NumericOption;
+  label: string;
+  step: number;
+  placeholder: string;
+}> = [
+  { key: "temperature", label: "Temperature", step: 0.1, placeholder: "0.8" },
+  { key: "top_p", label: "Top P", step: 0.05, placeholder: "0.9" },
+  { key: "num_ctx", label: "Context", step: 1024, placeholder: "2048" },
+  { key: "seed", label: "Seed", step: 1, placeholder: "random" },
+];
+
+interface ModelOptionsPanelProps {
+  model: string;
+}
+
+export function ModelOptionsPanel({ model }: ModelOptionsPanelProps) {
+  const { modelOptions, setModelOptions } = useChatStore();
+  const { presets, savePreset, deletePreset } = useGenerationPresets();
+  const { systemPrompts, setModelPrompt } = useChatSystemPrompts();
+  const [presetName, setPresetName] = useState("");
+  const options = modelOptions[model] || {};
+
+  const updateOption = (updates: Partial<GenerationOptions>) => {
+    setModelOptions(model, { ...options, ...updates });
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (preset) {
+      setModelOptions(model, { ...preset.options });
+    }
+  };
+
+  const handleSavePreset = async () => {
+    const cleaned = cleanGenerationOptions(options);
+    if (!presetName.trim() || !cleaned) return;
+    await savePreset(presetName.trim(), cleaned);
+    setPresetName("");
+  };
+
+  return (
+    <div className="ml-6 mb-1 p-2 border rounded-md bg-background space-y-2">
+      <label className="block space-y-0.5">
+        <span className="text-[10px] text-muted-foreground">Persona</span>
+        <SystemPromptSelect
+          value={systemPrompts.perModel?.[model]}
+          onChange={(prompt) => setModelPrompt(model, prompt)}
+          noneLabel="Same as chat"
+          className="h-6 text-xs"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-1.5">
+        {NUMERIC_FIELDS.map(({ key, label, step, placeholder }) => (
+          <label key={key} className="space-y-0.5">
+            <span className="text-[10px] text-muted-foreground">{label}</span>
+            <Input
+              type="number"
+              step={step}
+              value={options[key] ?? ""}
+              placeholder={placeholder}
+              onChange={(e) =>
+                updateOption({
+                  [key]: e.target.value === "" ? undefined : Number(e.target.value),
+                })
+              }
+              className="h-6 px-1.5 text-xs"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="block space-y-0.5">
+        <span className="text-[10px] text-muted-foreground">
+          Stop sequences (comma separated)
+        </span>
+        <Input
+          value={options.stop?.join(",") ?? ""}
+          placeholder="e.g. </answer>,###"
+          onChange={(e) =>
+            updateOption({
+              stop: e.target.value ? e.target.value.split(",") : undefined,
+            })
+          }
+          className="h-6 px-1.5 text-xs"
+        />
+      </label>
+      <label className="block space-y-0.5">
+        <span className="text-[10px] text-muted-foreground">Thinking</span>
+        <Select
+          value={options.think === undefined ? "default" : options.think ? "on" : "off"}
+          onValueChange={(value) =>
+            updateOption({ think: value === "default" ? undefined : value === "on" })
+          }
+        >
+          <SelectTrigger className="h-6 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default" className="text-xs">
+              Model default
+            </SelectItem>
+            <SelectItem value="on" className="text-xs">
+              On (reasoning models)
+            </SelectItem>
+            <SelectItem value="off" className="text-xs">
+              Off
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </label>
+
+      {/* Presets */}
+      <div className="flex items-center gap-1">
+        <Select value="" onValueChange={handleApplyPreset} disabled={presets.length === 0}>
+          <SelectTrigger className="h-6 text-xs flex-1">
+            <SelectValue placeholder={presets.length ? "Apply preset..." : "No presets"} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id} className="text-xs">
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={() => setModelOptions(model, {})}
+          title="Reset to model defaults"
+        >
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="h-6 px-1.5 text-xs"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || !cleanGenerationOptions(options)}
+          title="Save as preset"
+        >
+          <Save className="h-3 w-3" />
+        </Button>
+      </div>
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {presets.map((preset) => (
+            <span
+              key={preset.id}
+              className="group inline-flex items-center gap-0.5 text-[10px] bg-muted px-1 rounded"
+            >
+              {preset.name}
+              <button
+                onClick={() => deletePreset(preset.id)}
+                className="opacity-0 group-hover:opacity-100 hover:text-destructive"
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                <Trash2 className="h-2.5 w-2.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
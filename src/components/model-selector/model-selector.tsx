@@ -1,6 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import { useModels } from "@/hooks/use-models";
+import { useHosts } from "@/hooks/use-hosts";
 import { useChatStore } from "@/store/chat-store";
 import {
   Select,
@@ -9,23 +11,88 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { X, Plus, Loader2 } from "lucide-react";
+import { X, Plus, Loader2, SlidersHorizontal, HardDrive, Eye, Wrench, Brain } from "lucide-react";
 import { ModelIcon, ModelTextLogo, getIconFiles } from "@/components/model-icons/model-icon";
+import { ModelOptionsPanel } from "@/components/model-selector/model-options-panel";
+import { ModelManager } from "@/components/model-selector/model-manager";
+import { cleanGenerationOptions } from "@/lib/utils/generation-options";
+import { getModelKey } from "@/lib/ollama/hosts";
+import {
+  CAPABILITY_FILTERS,
+  formatContextLength,
+  hasCapabilities,
+  isEmbeddingOnlyModel,
+  type CapabilityFilter,
+} from "@/lib/ollama/capabilities";
+import type { OllamaModel } from "@/types";
+
+const CAPABILITY_BADGES: Record<CapabilityFilter, { label: string; icon: typeof Eye }> = {
+  vision: { label: "Vision", icon: Eye },
+  tools: { label: "Tools", icon: Wrench },
+  thinking: { label: "Thinking", icon: Brain },
+};
+
+// Icons for what a model can do, plus its trained context length
+function CapabilityBadges({ model }: { model?: OllamaModel }) {
+  const capabilities = model?.capabilities;
+  if (!capabilities) return null;
+
+  return (
+    <span className="flex items-center gap-1 text-muted-foreground shrink-0">
+      {CAPABILITY_FILTERS.filter((capability) => capabilities[capability]).map((capability) => {
+        const { label, icon: Icon } = CAPABILITY_BADGES[capability];
+        return (
+          <span key={capability} title={label}>
+            <Icon className="h-3 w-3" />
+          </span>
+        );
+      })}
+      {capabilities.contextLength && (
+        <span className="text-[10px]" title="Trained context length">
+          {formatContextLength(capabilities.contextLength)}
+        </span>
+      )}
+    </span>
+  );
+}
 
 export function ModelSelector() {
   const { data: models, isLoading, error } = useModels();
-  const { selectedModels, setSelectedModels } = useChatStore();
+  const { hosts } = useHosts();
+  const {
+    selectedModels,
+    setSelectedModels,
+    modelHosts,
+    setModelHost,
+    modelOptions,
+  } = useChatStore();
+  const [optionsModel, setOptionsModel] = useState<string | null>(null);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const [filters, setFilters] = useState<CapabilityFilter[]>([]);
+  const showHosts = hosts.length > 1;
+
+  const getHostName = (hostId?: string) =>
+    hosts.find((h) => h.id === hostId)?.name;
 
-  const handleSelectModel = (modelName: string) => {
-    if (!selectedModels.includes(modelName)) {
-      setSelectedModels([...selectedModels, modelName]);
+  const handleSelectModel = (key: string) => {
+    const model = models?.find((m) => getModelKey(m) === key);
+    if (!model || selectedModels.includes(model.name)) return;
+    if (model.host) {
+      setModelHost(model.name, model.host);
     }
+    setSelectedModels([...selectedModels, model.name]);
   };
 
   const handleRemoveModel = (modelName: string) => {
     setSelectedModels(selectedModels.filter((m) => m !== modelName));
   };
 
+  const toggleFilter = (filter: CapabilityFilter) => {
+    setFilters(
+      filters.includes(filter) ? filters.filter((f) => f !== filter) : [...filters, filter]
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-2">
@@ -37,6 +104,20 @@ export function ModelSelector() {
     );
   }
 
+  const manageButton = (
+    <button
+      onClick={() => setIsManagerOpen(true)}
+      className="h-8 w-8 shrink-0 rounded-md border flex items-center justify-center hover:bg-muted transition-colors"
+      aria-label="Manage models"
+      title="Manage models (pull, delete, inspect)"
+    >
+      <HardDrive className="h-3.5 w-3.5" />
+    </button>
+  );
+  const manager = isManagerOpen && (
+    <ModelManager onClose={() => setIsManagerOpen(false)} />
+  );
+
   if (error) {
     return (
       <div className="py-2 text-xs text-destructive">
@@ -47,81 +128,152 @@ export function ModelSelector() {
 
   if (!models || models.length === 0) {
     return (
-      <div className="py-2 text-xs text-muted-foreground">
-        No models found.
+      <div className="flex items-center justify-between gap-2">
+        <span className="py-2 text-xs text-muted-foreground">
+          No models found.
+        </span>
+        {manageButton}
+        {manager}
       </div>
     );
   }
 
-  // Filter out already selected models from the dropdown
+  // Filter out already selected models from the dropdown, along with
+  // embedding-only models that can't chat and models missing a capability
   const availableModels = models.filter(
-    (model) => !selectedModels.includes(model.name)
+    (model) =>
+      !selectedModels.includes(model.name) &&
+      !isEmbeddingOnlyModel(model) &&
+      hasCapabilities(model, filters)
   );
 
   return (
     <div className="space-y-2">
-      <Select
-        value=""
-        onValueChange={handleSelectModel}
-        disabled={availableModels.length === 0}
-      >
-        <SelectTrigger className="w-full h-8 text-xs">
-          <SelectValue placeholder="Add a model..." />
-        </SelectTrigger>
-        <SelectContent>
-          {availableModels.map((model) => (
-            <SelectItem key={model.name} value={model.name}>
-              <div className="flex flex-col items-start">
-                <span className="font-medium">{model.name}</span>
-                {model.details?.parameter_size && (
-                  <span className="text-xs text-muted-foreground">
-                    {model.details.parameter_size}
+      <div className="flex items-center gap-2">
+        <Select
+          value=""
+          onValueChange={handleSelectModel}
+          disabled={availableModels.length === 0}
+        >
+          <SelectTrigger className="flex-1 h-8 text-xs">
+            <SelectValue placeholder="Add a model..." />
+          </SelectTrigger>
+          <SelectContent>
+            {availableModels.map((model) => (
+              <SelectItem key={getModelKey(model)} value={getModelKey(model)}>
+                <div className="flex flex-col items-start">
+                  <span className="font-medium">{model.name}</span>
+                  <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {[
+                      model.details?.parameter_size,
+                      model.details?.quantization_level,
+                      showHosts && getHostName(model.host),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    <CapabilityBadges model={model} />
                   </span>
-                )}
-              </div>
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {manageButton}
+      </div>
+
+      {/* Only list models with every chosen capability */}
+      <div className="flex items-center gap-1">
+        {CAPABILITY_FILTERS.map((filter) => {
+          const { label, icon: Icon } = CAPABILITY_BADGES[filter];
+          const isActive = filters.includes(filter);
+          return (
+            <button
+              key={filter}
+              onClick={() => toggleFilter(filter)}
+              className={`flex items-center gap-1 h-6 px-1.5 rounded-md border text-[10px] transition-colors ${
+                isActive
+                  ? "border-primary text-primary bg-primary/5"
+                  : "text-muted-foreground hover:bg-muted"
+              }`}
+              aria-pressed={isActive}
+              title={`Only show models with ${label.toLowerCase()} support`}
+            >
+              <Icon className="h-3 w-3" />
+              {label}
+            </button>
+          );
+        })}
+      </div>
 
       {/* Selected Models Display - Simple List Format */}
       {selectedModels.length > 0 && (
         <div className="space-y-1">
           {selectedModels.map((modelName) => {
-            const model = models.find((m) => m.name === modelName);
+            const hostId = modelHosts[modelName];
+            const model =
+              models.find((m) => m.name === modelName && m.host === hostId) ||
+              models.find((m) => m.name === modelName);
             const iconFiles = getIconFiles(modelName);
-            
+            const hasOptions = !!cleanGenerationOptions(modelOptions[modelName]);
+
             return (
-              <div
-                key={modelName}
-                className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors"
-              >
-                <Plus className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
-                <ModelIcon modelName={modelName} size="sm" />
-                <div className="flex-1 min-w-0 flex items-center gap-2">
-                  {iconFiles?.text ? (
-                    <ModelTextLogo modelName={modelName} height={14} />
-                  ) : (
-                    <span className="text-xs font-medium truncate">{modelName}</span>
-                  )}
-                  {model?.details?.parameter_size && (
-                    <span className="text-xs text-muted-foreground">
-                      {model.details.parameter_size}
-                    </span>
-                  )}
+              <div key={modelName}>
+                <div className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors">
+                  <Plus className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                  <ModelIcon modelName={modelName} size="sm" />
+                  <div className="flex-1 min-w-0 flex items-center gap-2">
+                    {iconFiles?.text ? (
+                      <ModelTextLogo modelName={modelName} height={14} />
+                    ) : (
+                      <span className="text-xs font-medium truncate">{modelName}</span>
+                    )}
+                    {model?.details?.parameter_size && (
+                      <span className="text-xs text-muted-foreground">
+                        {model.details.parameter_size}
+                      </span>
+                    )}
+                    <CapabilityBadges model={model} />
+                    {showHosts && hostId && (
+                      <span
+                        className="text-[10px] text-muted-foreground bg-muted px-1 rounded truncate"
+                        title={`Served by ${getHostName(hostId)}`}
+                      >
+                        {getHostName(hostId)}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() =>
+                      setOptionsModel(optionsModel === modelName ? null : modelName)
+                    }
+                    className={`rounded hover:bg-muted p-0.5 transition-all shrink-0 ${
+                      hasOptions || optionsModel === modelName
+                        ? "text-primary"
+                        : "opacity-0 group-hover:opacity-100"
+                    }`}
+                    aria-label={`Generation options for ${modelName}`}
+                    title="Generation options"
+                  >
+                    <SlidersHorizontal className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => handleRemoveModel(modelName)}
+                    className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                    aria-label={`Remove ${modelName}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
                 </div>
-                <button
-                  onClick={() => handleRemoveModel(modelName)}
-                  className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
-                  aria-label={`Remove ${modelName}`}
-                >
-                  <X className="h-3 w-3" />
-                </button>
+                {optionsModel === modelName && (
+                  <ModelOptionsPanel model={modelName} />
+                )}
               </div>
             );
           })}
         </div>
       )}
+
+      {manager}
     </div>
   );
 }
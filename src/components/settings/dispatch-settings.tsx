@@ -0,0 +1,61 @@
+"use client";
+
+import { useDispatchSettings } from "@/hooks/use-dispatch-settings";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import type { DispatchStrategy } from "@/types";
+
+const STRATEGY_LABELS: Record<DispatchStrategy, string> = {
+  sequential: "One at a time",
+  parallel: "All in parallel",
+  bounded: "Limit to N at once",
+};
+
+export function DispatchSettings() {
+  const { settings, updateSettings } = useDispatchSettings();
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground shrink-0">Run</span>
+      <Select
+        value={settings.strategy}
+        onValueChange={(value) =>
+          updateSettings({ strategy: value as DispatchStrategy })
+        }
+      >
+        <SelectTrigger className="h-7 text-xs flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(STRATEGY_LABELS) as DispatchStrategy[]).map(
+            (strategy) => (
+              <SelectItem key={strategy} value={strategy} className="text-xs">
+                {STRATEGY_LABELS[strategy]}
+              </SelectItem>
+            )
+          )}
+        </SelectContent>
+      </Select>
+      {settings.strategy === "bounded" && (
+        <Input
+          type="number"
+          min={1}
+          value={settings.concurrency}
+          onChange={(e) =>
+            updateSettings({
+              concurrency: Math.max(1, parseInt(e.target.value, 10) || 1),
+            })
+          }
+          className="h-7 w-14 text-xs"
+          title="Models in flight at once"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { useHosts } from "@/hooks/use-hosts";
+import { useDispatchSettings } from "@/hooks/use-dispatch-settings";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Server, X } from "lucide-react";
+import { DEFAULT_HOST_ID } from "@/lib/ollama/hosts";
+import { DEFAULT_MAX_LOADED_MODELS } from "@/lib/utils/dispatch";
+
+export function HostSettings() {
+  const { hosts, addHost, removeHost } = useHosts();
+  const { settings: dispatch, setHostLimit } = useDispatchSettings();
+  const [name, setName] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+
+  const handleAdd = async () => {
+    if (!baseUrl.trim()) return;
+    await addHost(name, baseUrl);
+    setName("");
+    setBaseUrl("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        {hosts.map((host) => (
+          <div
+            key={host.id}
+            className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors"
+          >
+            <Server className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-medium truncate">{host.name}</div>
+              <div className="text-[10px] text-muted-foreground truncate">
+                {host.baseUrl || "Server default"}
+              </div>
+            </div>
+            <Input
+              type="number"
+              min={1}
+              value={dispatch.hostLimits?.[host.id] ?? ""}
+              placeholder={String(DEFAULT_MAX_LOADED_MODELS)}
+              onChange={(e) =>
+                setHostLimit(
+                  host.id,
+                  e.target.value ? parseInt(e.target.value, 10) : null
+                )
+              }
+              className="h-6 w-11 px-1.5 text-[10px] shrink-0"
+              title="Max loaded models on this host (OLLAMA_MAX_LOADED_MODELS) - caps parallel runs"
+            />
+            {host.id !== DEFAULT_HOST_ID && (
+              <button
+                onClick={() => removeHost(host.id)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                aria-label={`Remove ${host.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. GPU box)"
+          className="h-7 text-xs"
+        />
+        <div className="flex items-center gap-1.5">
+          <Input
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="http://192.168.1.20:11434"
+            className="h-7 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={handleAdd}
+            disabled={!baseUrl.trim()}
+            title="Add host"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
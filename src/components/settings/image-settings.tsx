@@ -0,0 +1,36 @@
+"use client";
+
+import { useImageSettings } from "@/hooks/use-image-settings";
+import { IMAGE_MAX_DIMENSIONS } from "@/lib/files/image";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export function ImageSettings() {
+  const { settings, updateSettings } = useImageSettings();
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground shrink-0">Images</span>
+      <Select
+        value={String(settings.maxDimension)}
+        onValueChange={(value) => updateSettings({ maxDimension: Number(value) })}
+      >
+        <SelectTrigger className="h-7 text-xs flex-1" title="Attached images are scaled down to this size">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {IMAGE_MAX_DIMENSIONS.map((dimension) => (
+            <SelectItem key={dimension} value={String(dimension)} className="text-xs">
+              {dimension ? `Up to ${dimension}px` : "Original size"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
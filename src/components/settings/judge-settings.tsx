@@ -0,0 +1,138 @@
+"use client";
+
+import { useJudgeSettings } from "@/hooks/use-judge-settings";
+import { useModels } from "@/hooks/use-models";
+import { useHosts } from "@/hooks/use-hosts";
+import { isEmbeddingOnlyModel } from "@/lib/ollama/capabilities";
+import { DEFAULT_HOST_ID, getModelKey } from "@/lib/ollama/hosts";
+import { JUDGE_ORDERINGS } from "@/lib/utils/judge-panel";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EyeOff, Scale, X } from "lucide-react";
+
+// The judge panel and blind judging. Each judge runs on the host it was
+// picked from.
+export function JudgeSettings() {
+  const { settings, updateSettings } = useJudgeSettings();
+  const { data: models = [] } = useModels();
+  const { hosts } = useHosts();
+  const showHosts = hosts.length > 1;
+
+  const getHostName = (hostId?: string) =>
+    hosts.find((h) => h.id === hostId)?.name;
+
+  const availableModels = models.filter(
+    (model) => !isEmbeddingOnlyModel(model) && !settings.models.includes(model.name)
+  );
+
+  const handleAddJudge = (key: string) => {
+    const model = availableModels.find((m) => getModelKey(m) === key);
+    if (!model) return;
+    updateSettings({
+      models: [...settings.models, model.name],
+      hosts: { ...settings.hosts, ...(model.host && { [model.name]: model.host }) },
+    });
+  };
+
+  const handleRemoveJudge = (name: string) => {
+    const remainingHosts = { ...settings.hosts };
+    delete remainingHosts[name];
+    updateSettings({
+      models: settings.models.filter((model) => model !== name),
+      hosts: remainingHosts,
+    });
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 px-1">
+        <span className="text-xs text-muted-foreground shrink-0">Judges</span>
+        <Select
+          value=""
+          onValueChange={handleAddJudge}
+          disabled={availableModels.length === 0}
+        >
+          <SelectTrigger
+            className="h-7 text-xs flex-1 min-w-0"
+            title="Every judge scores each response, except the judge's own"
+          >
+            <SelectValue placeholder="Add a judge..." />
+          </SelectTrigger>
+          <SelectContent>
+            {availableModels.map((model) => (
+              <SelectItem key={getModelKey(model)} value={getModelKey(model)} className="text-xs">
+                {model.name}
+                {showHosts && (
+                  <span className="ml-1 text-muted-foreground">· {getHostName(model.host)}</span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2 px-1">
+        <button
+          onClick={() => updateSettings({ blind: !settings.blind })}
+          className={`flex items-center gap-1 h-6 px-1.5 rounded-md border text-[10px] transition-colors ${
+            settings.blind
+              ? "border-primary text-primary bg-primary/5"
+              : "text-muted-foreground hover:bg-muted"
+          }`}
+          aria-pressed={settings.blind}
+          title="Show judges Response A/B/C instead of model names, in a shuffled order"
+        >
+          <EyeOff className="h-3 w-3" />
+          Blind
+        </button>
+        {settings.blind && (
+          <Select
+            value={String(settings.orderings)}
+            onValueChange={(value) => updateSettings({ orderings: Number(value) })}
+          >
+            <SelectTrigger
+              className="h-6 text-[10px] flex-1 min-w-0"
+              title="Evaluate All repeats each judge with the responses in a different order"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {JUDGE_ORDERINGS.map((count) => (
+                <SelectItem key={count} value={String(count)} className="text-xs">
+                  {count === 1 ? "1 ordering" : `${count} orderings`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {settings.models.map((name) => (
+        <div
+          key={name}
+          className="group flex items-center gap-2 px-1 py-0.5 hover:bg-muted/50 rounded transition-colors"
+        >
+          <Scale className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+          <span className="flex-1 min-w-0 text-xs font-medium truncate">{name}</span>
+          {showHosts && (
+            <span className="text-[10px] text-muted-foreground shrink-0">
+              {getHostName(settings.hosts?.[name] ?? DEFAULT_HOST_ID)}
+            </span>
+          )}
+          {settings.models.length > 1 && (
+            <button
+              onClick={() => handleRemoveJudge(name)}
+              className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+              aria-label={`Remove judge ${name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useKnowledgeCollections, useKnowledgeDocuments } from "@/hooks/use-knowledge";
+import { useModels } from "@/hooks/use-models";
+import { getModelKey } from "@/lib/ollama/hosts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, FileText, Library, Loader2, Plus, Upload, X } from "lucide-react";
+import type { KnowledgeCollection, OllamaModel } from "@/types";
+
+const DEFAULT_TOP_K = 4;
+
+// Embedding models first - any model works with /api/embed, but these are made for it
+const isEmbeddingModel = (model: OllamaModel) =>
+  model.capabilities?.embedding ?? /embed/i.test(model.name);
+const byEmbeddingFirst = (a: OllamaModel, b: OllamaModel) =>
+  Number(isEmbeddingModel(b)) - Number(isEmbeddingModel(a)) || a.name.localeCompare(b.name);
+
+function CollectionDocuments({ collection }: { collection: KnowledgeCollection }) {
+  const { documents, progress, errors, addFiles, deleteDocument } =
+    useKnowledgeDocuments(collection);
+  const { updateCollection } = useKnowledgeCollections();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="ml-5 mb-1 space-y-1">
+      {documents.map((document) => (
+        <div
+          key={document.id}
+          className="group flex items-center gap-1.5 px-1 text-xs"
+          title={`${document.chunkCount} chunks`}
+        >
+          <FileText className="h-3 w-3 text-muted-foreground shrink-0" />
+          <span className="flex-1 min-w-0 truncate">{document.name}</span>
+          <span className="text-muted-foreground shrink-0">{document.chunkCount}</span>
+          <button
+            onClick={() => deleteDocument(document.id)}
+            className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+            aria-label={`Remove ${document.name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      {documents.length === 0 && !progress && (
+        <p className="px-1 text-xs text-muted-foreground">No documents yet</p>
+      )}
+      {progress && (
+        <div className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin shrink-0" />
+          <span className="truncate">
+            Embedding {progress.name} {progress.done}/{progress.total}
+          </span>
+        </div>
+      )}
+      {errors.map((error) => (
+        <p key={error} className="px-1 text-xs text-destructive break-words">
+          {error}
+        </p>
+      ))}
+      <div className="flex items-center gap-1.5">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 text-xs flex-1"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!progress}
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          Add files
+        </Button>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Chunks retrieved per prompt">
+          top
+          <Input
+            type="number"
+            min={1}
+            max={20}
+            value={collection.topK}
+            onChange={(e) => {
+              const topK = Number(e.target.value);
+              if (topK >= 1) updateCollection(collection.id, { topK });
+            }}
+            className="h-6 w-12 px-1.5 text-xs"
+          />
+        </label>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        onChange={(e) => {
+          if (e.target.files) {
+            addFiles(Array.from(e.target.files));
+            e.target.value = "";
+          }
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+}
+
+export function KnowledgeLibrary() {
+  const { collections, createCollection, deleteCollection } = useKnowledgeCollections();
+  const { data: models = [] } = useModels();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [modelKey, setModelKey] = useState("");
+  const [topK, setTopK] = useState(DEFAULT_TOP_K);
+
+  const handleCreate = async () => {
+    const model = models.find((m) => getModelKey(m) === modelKey);
+    if (!name.trim() || !model) return;
+    const collection = await createCollection(name.trim(), model.name, model.host, topK);
+    setOpenId(collection.id);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {collections.length > 0 && (
+        <div className="space-y-1">
+          {collections.map((collection) => (
+            <div key={collection.id}>
+              <div className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors">
+                <button
+                  onClick={() => setOpenId(openId === collection.id ? null : collection.id)}
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                  title={`Embedded with ${collection.embeddingModel}`}
+                >
+                  {openId === collection.id ? (
+                    <ChevronDown className="h-3 w-3 text-muted-foreground shrink-0" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                  )}
+                  <Library className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                  <span className="text-xs font-medium truncate">{collection.name}</span>
+                </button>
+                <button
+                  onClick={() => deleteCollection(collection.id)}
+                  className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                  aria-label={`Delete ${collection.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+              {openId === collection.id && <CollectionDocuments collection={collection} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Collection name"
+          className="h-7 text-xs"
+        />
+        <Select value={modelKey} onValueChange={setModelKey}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Embedding model..." />
+          </SelectTrigger>
+          <SelectContent>
+            {[...models].sort(byEmbeddingFirst).map((model) => (
+              <SelectItem key={getModelKey(model)} value={getModelKey(model)} className="text-xs">
+                {model.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1.5">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs flex-1"
+            onClick={handleCreate}
+            disabled={!name.trim() || !modelKey}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add collection
+          </Button>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Chunks retrieved per prompt">
+            top
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={topK}
+              onChange={(e) => setTopK(Math.max(1, Number(e.target.value) || DEFAULT_TOP_K))}
+              className="h-7 w-12 px-1.5 text-xs"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useKnowledgeCollections } from "@/hooks/use-knowledge";
+import { useChatStore } from "@/store/chat-store";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const NONE_VALUE = "__none__";
+
+// Which knowledge collection the next prompts are grounded in
+export function KnowledgeSelect({ className }: { className?: string }) {
+  const { collections } = useKnowledgeCollections();
+  const { activeCollectionId, setActiveCollectionId } = useChatStore();
+  const isKnown = collections.some((c) => c.id === activeCollectionId);
+
+  return (
+    <Select
+      value={activeCollectionId && isKnown ? activeCollectionId : NONE_VALUE}
+      onValueChange={(value) => setActiveCollectionId(value === NONE_VALUE ? null : value)}
+    >
+      <SelectTrigger className={className ?? "h-7 text-xs"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE} className="text-xs">
+          No knowledge
+        </SelectItem>
+        {collections.map((collection) => (
+          <SelectItem key={collection.id} value={collection.id} className="text-xs">
+            {collection.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
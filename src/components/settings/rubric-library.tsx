@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { useRubrics } from "@/hooks/use-rubrics";
+import { DEFAULT_RUBRIC, getRubricError, toCriterionKey } from "@/lib/utils/rubrics";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardCheck, Copy, Pencil, Plus, X } from "lucide-react";
+import type { RubricCriterion, RubricDefinition } from "@/types";
+
+// Criteria being edited - keys are assigned from the names on save
+type CriterionDraft = Omit<RubricCriterion, "key"> & { key?: string };
+
+const emptyCriterion = (): CriterionDraft => ({ name: "", description: "", weight: 1 });
+
+function toDefinition(
+  name: string,
+  scaleMin: number,
+  scaleMax: number,
+  criteria: CriterionDraft[]
+): RubricDefinition {
+  const keys: string[] = [];
+  return {
+    name: name.trim(),
+    scaleMin,
+    scaleMax,
+    criteria: criteria.map((criterion) => {
+      // Keep existing keys so scores saved under them still line up
+      const key =
+        criterion.key && !keys.includes(criterion.key)
+          ? criterion.key
+          : toCriterionKey(criterion.name, keys);
+      keys.push(key);
+      return {
+        key,
+        name: criterion.name.trim(),
+        description: criterion.description.trim(),
+        weight: criterion.weight,
+        ...(criterion.passFail && { passFail: true }),
+      };
+    }),
+  };
+}
+
+export function RubricLibrary() {
+  const { rubrics, saveRubric, deleteRubric } = useRubrics();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scaleMin, setScaleMin] = useState(1);
+  const [scaleMax, setScaleMax] = useState(5);
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([emptyCriterion()]);
+
+  const definition = toDefinition(name, scaleMin, scaleMax, criteria);
+  const error = getRubricError(definition);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setIsFormOpen(false);
+    setName("");
+    setScaleMin(1);
+    setScaleMax(5);
+    setCriteria([emptyCriterion()]);
+  };
+
+  const openForm = (rubric: RubricDefinition, rubricId: string | null) => {
+    setEditingId(rubricId);
+    setIsFormOpen(true);
+    setName(rubricId ? rubric.name : `${rubric.name} copy`);
+    setScaleMin(rubric.scaleMin);
+    setScaleMax(rubric.scaleMax);
+    setCriteria(rubric.criteria.map((criterion) => ({ ...criterion })));
+  };
+
+  const updateCriterion = (index: number, updates: Partial<CriterionDraft>) => {
+    setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const handleSave = async () => {
+    if (error) return;
+    await saveRubric(definition, editingId || undefined);
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        {[DEFAULT_RUBRIC, ...rubrics].map((rubric) => {
+          const isDefault = rubric.id === DEFAULT_RUBRIC.id;
+          return (
+            <div
+              key={rubric.id}
+              className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors"
+              title={rubric.criteria.map((c) => c.name).join(", ")}
+            >
+              <ClipboardCheck className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              <span className="flex-1 min-w-0 text-xs font-medium truncate">
+                {rubric.name}
+                {isDefault && <span className="text-muted-foreground font-normal"> (default)</span>}
+              </span>
+              <span className="text-[10px] text-muted-foreground shrink-0">
+                {rubric.scaleMin}-{rubric.scaleMax}
+              </span>
+              <button
+                onClick={() => openForm(rubric, null)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-muted p-0.5 transition-all shrink-0"
+                aria-label={`Copy ${rubric.name}`}
+                title="Copy"
+              >
+                <Copy className="h-3 w-3" />
+              </button>
+              {!isDefault && (
+                <>
+                  <button
+                    onClick={() => openForm(rubric, rubric.id)}
+                    className="opacity-0 group-hover:opacity-100 rounded hover:bg-muted p-0.5 transition-all shrink-0"
+                    aria-label={`Edit ${rubric.name}`}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => deleteRubric(rubric.id)}
+                    className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                    aria-label={`Delete ${rubric.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!isFormOpen ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs w-full"
+          onClick={() => setIsFormOpen(true)}
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          New rubric
+        </Button>
+      ) : (
+        <div className="space-y-1.5">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Rubric name"
+            className="h-7 text-xs"
+          />
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            Scale
+            <Input
+              type="number"
+              value={scaleMin}
+              onChange={(e) => setScaleMin(Number(e.target.value))}
+              className="h-6 w-12 px-1.5 text-xs"
+            />
+            to
+            <Input
+              type="number"
+              value={scaleMax}
+              onChange={(e) => setScaleMax(Number(e.target.value))}
+              className="h-6 w-12 px-1.5 text-xs"
+            />
+          </label>
+
+          {criteria.map((criterion, index) => (
+            <div key={index} className="p-1.5 border rounded-md space-y-1">
+              <div className="flex items-center gap-1">
+                <Input
+                  value={criterion.name}
+                  onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                  placeholder="Criterion"
+                  className="h-6 flex-1 min-w-0 px-1.5 text-xs"
+                />
+                {!criterion.passFail && (
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+                    className="h-6 w-12 px-1.5 text-xs"
+                    title="Weight in the final score"
+                  />
+                )}
+                <button
+                  onClick={() => updateCriterion(index, { passFail: !criterion.passFail })}
+                  className={`h-6 px-1.5 rounded border text-[10px] shrink-0 transition-colors ${
+                    criterion.passFail ? "border-primary text-primary" : "text-muted-foreground"
+                  }`}
+                  title="Judge as pass/fail instead of on the scale"
+                  aria-pressed={!!criterion.passFail}
+                >
+                  Pass/fail
+                </button>
+                <button
+                  onClick={() => setCriteria(criteria.filter((_, i) => i !== index))}
+                  className="rounded hover:bg-destructive/20 p-0.5 shrink-0"
+                  aria-label="Remove criterion"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+              <Textarea
+                value={criterion.description}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                placeholder={
+                  criterion.passFail
+                    ? "Passes if the response..."
+                    : "What a low and a high score mean"
+                }
+                className="min-h-[40px] text-xs px-1.5 py-1"
+              />
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs w-full"
+            onClick={() => setCriteria([...criteria, emptyCriterion()])}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Criterion
+          </Button>
+
+          {error && <p className="text-xs text-muted-foreground">{error}</p>}
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs flex-1"
+              onClick={handleSave}
+              disabled={!!error}
+            >
+              {editingId ? "Update rubric" : "Add rubric"}
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useChatRubric, useRubrics } from "@/hooks/use-rubrics";
+import { DEFAULT_RUBRIC } from "@/lib/utils/rubrics";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Which rubric judges use for the current chat
+export function RubricSelect({ className }: { className?: string }) {
+  const { rubrics } = useRubrics();
+  const { rubric, setRubricId } = useChatRubric();
+
+  return (
+    <Select
+      value={rubric.id}
+      onValueChange={(value) => setRubricId(value === DEFAULT_RUBRIC.id ? null : value)}
+    >
+      <SelectTrigger className={className ?? "h-7 text-xs"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_RUBRIC.id} className="text-xs">
+          {DEFAULT_RUBRIC.name} (default)
+        </SelectItem>
+        {rubrics.map((r) => (
+          <SelectItem key={r.id} value={r.id} className="text-xs">
+            {r.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useSystemPrompts } from "@/hooks/use-system-prompts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Pencil, Plus, UserCog, X } from "lucide-react";
+
+export function SystemPromptLibrary() {
+  const { prompts, savePrompt, deletePrompt } = useSystemPrompts();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setContent("");
+  };
+
+  const handleEdit = (promptId: string) => {
+    const prompt = prompts.find((p) => p.id === promptId);
+    if (!prompt) return;
+    setEditingId(prompt.id);
+    setName(prompt.name);
+    setContent(prompt.content);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !content.trim()) return;
+    await savePrompt(name.trim(), content.trim(), editingId || undefined);
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-2">
+      {prompts.length > 0 && (
+        <div className="space-y-1">
+          {prompts.map((prompt) => (
+            <div
+              key={prompt.id}
+              className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors"
+              title={prompt.content}
+            >
+              <UserCog className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              <span className="flex-1 min-w-0 text-xs font-medium truncate">
+                {prompt.name}
+              </span>
+              <button
+                onClick={() => handleEdit(prompt.id)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-muted p-0.5 transition-all shrink-0"
+                aria-label={`Edit ${prompt.name}`}
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => deletePrompt(prompt.id)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                aria-label={`Delete ${prompt.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Persona name"
+          className="h-7 text-xs"
+        />
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="You are a concise senior engineer..."
+          className="min-h-[60px] text-xs px-2 py-1"
+        />
+        <div className="flex items-center gap-1.5">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs flex-1"
+            onClick={handleSave}
+            disabled={!name.trim() || !content.trim()}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            {editingId ? "Update persona" : "Add persona"}
+          </Button>
+          {editingId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={resetForm}
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useSystemPrompts } from "@/hooks/use-system-prompts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SystemPromptRef } from "@/types";
+
+const NONE_VALUE = "__none__";
+const CURRENT_VALUE = "__current__";
+
+interface SystemPromptSelectProps {
+  value?: SystemPromptRef;
+  onChange: (prompt?: SystemPromptRef) => void;
+  noneLabel?: string;
+  className?: string;
+}
+
+export function SystemPromptSelect({
+  value,
+  onChange,
+  noneLabel = "No system prompt",
+  className,
+}: SystemPromptSelectProps) {
+  const { prompts } = useSystemPrompts();
+
+  // A chat keeps its copy of a persona even after it's removed from the library
+  const isDetached = !!value && !prompts.some((p) => p.id === value.promptId);
+
+  const handleChange = (selected: string) => {
+    if (selected === NONE_VALUE) {
+      onChange(undefined);
+      return;
+    }
+    if (selected === CURRENT_VALUE) return;
+    const prompt = prompts.find((p) => p.id === selected);
+    if (prompt) {
+      onChange({ promptId: prompt.id, name: prompt.name, content: prompt.content });
+    }
+  };
+
+  return (
+    <Select
+      value={value ? (isDetached ? CURRENT_VALUE : value.promptId) : NONE_VALUE}
+      onValueChange={handleChange}
+    >
+      <SelectTrigger className={className ?? "h-7 text-xs"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE} className="text-xs">
+          {noneLabel}
+        </SelectItem>
+        {isDetached && value && (
+          <SelectItem value={CURRENT_VALUE} className="text-xs">
+            {value.name}
+          </SelectItem>
+        )}
+        {prompts.map((prompt) => (
+          <SelectItem key={prompt.id} value={prompt.id} className="text-xs">
+            {prompt.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
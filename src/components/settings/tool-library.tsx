@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { useCustomTools } from "@/hooks/use-custom-tools";
+import { getCustomToolError } from "@/lib/tools/definitions";
+import { parseSchema } from "@/lib/utils/json-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Pencil, Plus, Wrench, X } from "lucide-react";
+import type { CustomTool, CustomToolDefinition } from "@/types";
+
+const EXAMPLE_PARAMETERS = `{
+  "type": "object",
+  "properties": {
+    "city": { "type": "string", "description": "City name" }
+  },
+  "required": ["city"]
+}`;
+
+// Parse the form, or explain what's wrong with it
+function toDefinition(
+  name: string,
+  description: string,
+  parameters: string,
+  result: string
+): { definition?: CustomToolDefinition; error: string | null } {
+  let schema;
+  try {
+    schema = parseSchema(parameters);
+  } catch (error) {
+    return { error: `Parameters: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  const definition = {
+    name: name.trim(),
+    description: description.trim(),
+    parameters: schema,
+    result,
+  };
+  return { definition, error: getCustomToolError(definition) };
+}
+
+// User-defined tools, offered to models from the Tools menu next to the built-ins
+export function ToolLibrary() {
+  const { tools, saveTool, deleteTool } = useCustomTools();
+  const [editing, setEditing] = useState<CustomTool | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [parameters, setParameters] = useState(EXAMPLE_PARAMETERS);
+  const [result, setResult] = useState("");
+
+  const parsed = toDefinition(name, description, parameters, result);
+  const isDuplicate = tools.some(
+    (tool) => tool.name === name.trim() && tool.id !== editing?.id
+  );
+  const error = isDuplicate ? `A tool named "${name.trim()}" already exists` : parsed.error;
+
+  const resetForm = () => {
+    setEditing(null);
+    setIsFormOpen(false);
+    setName("");
+    setDescription("");
+    setParameters(EXAMPLE_PARAMETERS);
+    setResult("");
+  };
+
+  const openForm = (tool: CustomTool) => {
+    setEditing(tool);
+    setIsFormOpen(true);
+    setName(tool.name);
+    setDescription(tool.description);
+    setParameters(JSON.stringify(tool.parameters, null, 2));
+    setResult(tool.result);
+  };
+
+  const handleSave = async () => {
+    if (error || !parsed.definition) return;
+    await saveTool(parsed.definition, editing || undefined);
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-2">
+      {tools.length > 0 && (
+        <div className="space-y-1">
+          {tools.map((tool) => (
+            <div
+              key={tool.id}
+              className="group flex items-center gap-2 px-1 py-1 hover:bg-muted/50 rounded transition-colors"
+              title={tool.description}
+            >
+              <Wrench className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              <span className="flex-1 min-w-0 text-xs font-medium truncate">{tool.name}</span>
+              <button
+                onClick={() => openForm(tool)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-muted p-0.5 transition-all shrink-0"
+                aria-label={`Edit ${tool.name}`}
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => deleteTool(tool)}
+                className="opacity-0 group-hover:opacity-100 rounded hover:bg-destructive/20 p-0.5 transition-all shrink-0"
+                aria-label={`Delete ${tool.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isFormOpen ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs w-full"
+          onClick={() => setIsFormOpen(true)}
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          New tool
+        </Button>
+      ) : (
+        <div className="space-y-1.5">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Function name, e.g. get_weather"
+            className="h-7 text-xs font-mono"
+          />
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What it does and when the model should call it"
+            className="min-h-[40px] text-xs px-1.5 py-1"
+          />
+          <Textarea
+            value={parameters}
+            onChange={(e) => setParameters(e.target.value)}
+            placeholder="Parameters as a JSON Schema object"
+            className="min-h-[100px] text-xs px-1.5 py-1 font-mono"
+            spellCheck={false}
+          />
+          <Textarea
+            value={result}
+            onChange={(e) => setResult(e.target.value)}
+            placeholder="Result returned to the model when it calls the tool"
+            className="min-h-[40px] text-xs px-1.5 py-1"
+          />
+
+          {error && <p className="text-xs text-muted-foreground">{error}</p>}
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs flex-1"
+              onClick={handleSave}
+              disabled={!!error}
+            >
+              {editing ? "Update tool" : "Add tool"}
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
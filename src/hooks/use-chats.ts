@@ -1,20 +1,26 @@
 import { useLiveQuery } from "dexie-react-hooks";
 import {
+  db,
   getAllChats,
   createChat,
   deleteChat,
   getChatMessages,
   addMessage,
+  setActiveBranch,
 } from "@/lib/storage/db";
-import type { Chat, Message, Attachment } from "@/types";
+import type { Chat, Message, Attachment, ChatSystemPrompts } from "@/types";
 
 export function useChats() {
   const chats = useLiveQuery(() => getAllChats()) || [];
 
   return {
     chats,
-    createChat: async (title: string) => {
-      return await createChat(title);
+    createChat: async (
+      title: string,
+      systemPrompts?: ChatSystemPrompts,
+      rubricId?: string
+    ) => {
+      return await createChat(title, systemPrompts, rubricId);
     },
     deleteChat: async (chatId: string) => {
       await deleteChat(chatId);
@@ -42,3 +48,18 @@ export function useChatMessages(chatId: string | null) {
   };
 }
 
+
+export function useChatBranches(chatId: string | null) {
+  const chat = useLiveQuery(
+    () => (chatId ? db.chats.get(chatId) : undefined),
+    [chatId]
+  );
+
+  return {
+    activeBranches: chat?.activeBranches || {},
+    selectBranch: async (branchKey: string, messageId: string) => {
+      if (!chatId) return;
+      await setActiveBranch(chatId, branchKey, messageId);
+    },
+  };
+}
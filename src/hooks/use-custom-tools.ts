@@ -0,0 +1,26 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { getCustomTools, saveCustomTool, deleteCustomTool } from "@/lib/storage/db";
+import { useChatStore } from "@/store/chat-store";
+import type { CustomTool, CustomToolDefinition } from "@/types";
+
+export function useCustomTools() {
+  const tools = useLiveQuery(() => getCustomTools()) || [];
+
+  // Tools are enabled by name, so renaming or deleting one turns it off
+  const disableTool = (name: string) => {
+    const { enabledTools, setEnabledTools } = useChatStore.getState();
+    setEnabledTools(enabledTools.filter((tool) => tool !== name));
+  };
+
+  return {
+    tools,
+    saveTool: async (definition: CustomToolDefinition, existing?: CustomTool) => {
+      if (existing && existing.name !== definition.name) disableTool(existing.name);
+      return await saveCustomTool(definition, existing?.id);
+    },
+    deleteTool: async (tool: CustomTool) => {
+      disableTool(tool.name);
+      await deleteCustomTool(tool.id);
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db, saveDispatchSettings } from "@/lib/storage/db";
+import { DEFAULT_DISPATCH_SETTINGS } from "@/lib/utils/dispatch";
+
+export function useDispatchSettings() {
+  const stored = useLiveQuery(() => db.user_settings.get("default"));
+  const settings = { ...DEFAULT_DISPATCH_SETTINGS, ...stored?.dispatch };
+
+  return {
+    settings,
+    updateSettings: saveDispatchSettings,
+    setHostLimit: async (hostId: string, limit: number | null) => {
+      const hostLimits = { ...settings.hostLimits };
+      if (limit === null || isNaN(limit)) {
+        delete hostLimits[hostId];
+      } else {
+        hostLimits[hostId] = Math.max(1, Math.floor(limit));
+      }
+      await saveDispatchSettings({ hostLimits });
+    },
+  };
+}
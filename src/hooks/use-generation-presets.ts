@@ -0,0 +1,21 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  getGenerationPresets,
+  saveGenerationPreset,
+  deleteGenerationPreset,
+} from "@/lib/storage/db";
+import type { GenerationOptions } from "@/types";
+
+export function useGenerationPresets() {
+  const presets = useLiveQuery(() => getGenerationPresets()) || [];
+
+  return {
+    presets,
+    savePreset: async (name: string, options: GenerationOptions) => {
+      return await saveGenerationPreset(name, options);
+    },
+    deletePreset: async (presetId: string) => {
+      await deleteGenerationPreset(presetId);
+    },
+  };
+}
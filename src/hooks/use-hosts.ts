@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { db, saveHosts } from "@/lib/storage/db";
+import {
+  DEFAULT_HOST_ID,
+  getHostRegistry,
+  normalizeHostUrl,
+} from "@/lib/ollama/hosts";
+
+export function useHosts() {
+  const settings = useLiveQuery(() => db.user_settings.get("default"));
+  const hosts = useMemo(() => getHostRegistry(settings), [settings]);
+
+  return {
+    hosts,
+    addHost: async (name: string, baseUrl: string) => {
+      const url = normalizeHostUrl(baseUrl);
+      if (!url) return;
+      const existing = settings?.hosts || [];
+      if (existing.some((h) => h.baseUrl === url)) return;
+      await saveHosts([
+        ...existing,
+        { id: crypto.randomUUID(), name: name.trim() || url, baseUrl: url },
+      ]);
+    },
+    removeHost: async (hostId: string) => {
+      if (hostId === DEFAULT_HOST_ID) return;
+      await saveHosts((settings?.hosts || []).filter((h) => h.id !== hostId));
+    },
+  };
+}
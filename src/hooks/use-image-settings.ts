@@ -0,0 +1,13 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db, saveImageSettings } from "@/lib/storage/db";
+import { DEFAULT_IMAGE_SETTINGS } from "@/lib/files/image";
+
+export function useImageSettings() {
+  const stored = useLiveQuery(() => db.user_settings.get("default"));
+  const settings = { ...DEFAULT_IMAGE_SETTINGS, ...stored?.images };
+
+  return {
+    settings,
+    updateSettings: saveImageSettings,
+  };
+}
@@ -0,0 +1,13 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db, saveJudgeSettings } from "@/lib/storage/db";
+import { DEFAULT_JUDGE_SETTINGS } from "@/lib/utils/judge-panel";
+
+export function useJudgeSettings() {
+  const stored = useLiveQuery(() => db.user_settings.get("default"));
+  const settings = { ...DEFAULT_JUDGE_SETTINGS, ...stored?.judges };
+
+  return {
+    settings,
+    updateSettings: saveJudgeSettings,
+  };
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  getKnowledgeCollections,
+  getKnowledgeDocuments,
+  saveKnowledgeCollection,
+  updateKnowledgeCollection,
+  deleteKnowledgeCollection,
+  deleteKnowledgeDocument,
+} from "@/lib/storage/db";
+import { ingestFile } from "@/lib/rag/ingest";
+import { useChatStore } from "@/store/chat-store";
+import type { KnowledgeCollection } from "@/types";
+
+export function useKnowledgeCollections() {
+  const collections = useLiveQuery(() => getKnowledgeCollections()) || [];
+  const { activeCollectionId, setActiveCollectionId } = useChatStore();
+
+  return {
+    collections,
+    createCollection: async (
+      name: string,
+      embeddingModel: string,
+      embeddingHost: string | undefined,
+      topK: number
+    ) => {
+      return await saveKnowledgeCollection(name, embeddingModel, embeddingHost, topK);
+    },
+    updateCollection: async (
+      collectionId: string,
+      updates: Partial<Pick<KnowledgeCollection, "name" | "topK">>
+    ) => {
+      await updateKnowledgeCollection(collectionId, updates);
+    },
+    deleteCollection: async (collectionId: string) => {
+      await deleteKnowledgeCollection(collectionId);
+      if (activeCollectionId === collectionId) {
+        setActiveCollectionId(null);
+      }
+    },
+  };
+}
+
+interface UploadProgress {
+  name: string;
+  done: number; // chunks embedded
+  total: number;
+}
+
+/**
+ * Documents in a collection, and uploading new ones one file at a time
+ */
+export function useKnowledgeDocuments(collection: KnowledgeCollection | null) {
+  const collectionId = collection?.id;
+  const documents =
+    useLiveQuery(
+      () => (collectionId ? getKnowledgeDocuments(collectionId) : []),
+      [collectionId]
+    ) || [];
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const addFiles = async (files: File[]) => {
+    if (!collection) return;
+    setErrors([]);
+    for (const file of files) {
+      try {
+        await ingestFile(collection, file, (done, total) =>
+          setProgress({ name: file.name, done, total })
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        setErrors((prev) => [...prev, `${file.name}: ${message}`]);
+      }
+    }
+    setProgress(null);
+  };
+
+  return {
+    documents,
+    progress,
+    errors,
+    addFiles,
+    deleteDocument: async (documentId: string) => {
+      await deleteKnowledgeDocument(documentId);
+    },
+  };
+}
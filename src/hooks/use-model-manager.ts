@@ -0,0 +1,157 @@
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { decodeNdjson, readErrorMessage } from "@/lib/ollama/ndjson";
+import type {
+  OllamaHost,
+  OllamaPullProgress,
+  OllamaRunningModel,
+  OllamaShowResponse,
+} from "@/types";
+
+const hostParams = (host: OllamaHost) =>
+  host.baseUrl ? `?host=${encodeURIComponent(host.baseUrl)}` : "";
+
+/**
+ * Models loaded in memory on a host, with VRAM use and unload time
+ */
+export function useRunningModels(host: OllamaHost) {
+  return useQuery({
+    queryKey: ["ollama-ps", host.id, host.baseUrl],
+    queryFn: async (): Promise<OllamaRunningModel[]> => {
+      const response = await fetch(`/api/ollama/ps${hostParams(host)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch running models from ${host.name}`);
+      }
+      const data = await response.json();
+      return data.models || [];
+    },
+    refetchInterval: 10000, // Loaded models expire, keep the list fresh
+  });
+}
+
+// Shared by the model manager and capability detection in useModels
+export const modelDetailsQuery = (host: OllamaHost, model: string | null) => ({
+  queryKey: ["ollama-show", host.id, host.baseUrl, model],
+  queryFn: async (): Promise<OllamaShowResponse> => {
+    const response = await fetch("/api/ollama/show", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, host: host.baseUrl }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to load details for ${model}`);
+    }
+    return await response.json();
+  },
+  staleTime: 300000,
+});
+
+/**
+ * Modelfile, template, parameters and license of a model
+ */
+export function useModelDetails(host: OllamaHost, model: string | null) {
+  return useQuery({
+    ...modelDetailsQuery(host, model),
+    enabled: !!model,
+  });
+}
+
+/**
+ * Pull and delete models on a host. Pull progress is tracked per model name
+ * and the model list is refreshed once a pull or delete finishes.
+ */
+export function useModelManager(host: OllamaHost) {
+  const queryClient = useQueryClient();
+  const [pulls, setPulls] = useState<Record<string, OllamaPullProgress>>({});
+  const pullControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const refreshModels = () => {
+    queryClient.invalidateQueries({ queryKey: ["ollama-models"] });
+    queryClient.invalidateQueries({ queryKey: ["ollama-ps", host.id] });
+  };
+
+  const setProgress = (model: string, progress: OllamaPullProgress) =>
+    setPulls((prev) => ({ ...prev, [model]: progress }));
+
+  const pullModel = async (model: string) => {
+    const controller = new AbortController();
+    pullControllersRef.current.set(model, controller);
+    setProgress(model, { status: "starting" });
+
+    try {
+      const response = await fetch("/api/ollama/pull", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
+        body: JSON.stringify({ model, host: host.baseUrl }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to pull: ${await readErrorMessage(response)}`);
+      }
+
+      if (!response.body) {
+        throw new Error("Response body is not readable");
+      }
+
+      let last: OllamaPullProgress = { status: "starting" };
+      for await (const line of decodeNdjson<OllamaPullProgress>(response.body)) {
+        if (!line.ok) {
+          throw new Error(`Malformed pull progress: ${line.line.slice(0, 200)}`);
+        }
+        last = line.value;
+        if (last.error) break;
+        setProgress(model, last);
+      }
+
+      if (last.error) {
+        throw new Error(last.error);
+      }
+      setProgress(model, { status: "success" });
+      refreshModels();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setProgress(model, { status: "cancelled" });
+        return;
+      }
+      setProgress(model, {
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      pullControllersRef.current.delete(model);
+    }
+  };
+
+  const cancelPull = (model: string) => {
+    pullControllersRef.current.get(model)?.abort();
+  };
+
+  const dismissPull = (model: string) => {
+    setPulls((prev) => {
+      const next = { ...prev };
+      delete next[model];
+      return next;
+    });
+  };
+
+  const deleteModel = async (model: string) => {
+    const response = await fetch("/api/ollama/delete", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, host: host.baseUrl }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to delete ${model}`);
+    }
+    refreshModels();
+  };
+
+  return {
+    pulls,
+    pullModel,
+    cancelPull,
+    dismissPull,
+    deleteModel,
+  };
+}
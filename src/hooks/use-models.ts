@@ -1,35 +1,86 @@
-import { useQuery } from "@tanstack/react-query";
-
-export interface OllamaModel {
-  name: string;
-  modified_at: string;
-  size: number;
-  digest: string;
-  details?: {
-    parent_model?: string;
-    format?: string;
-    family?: string;
-    families?: string[];
-    parameter_size?: string;
-    quantization_level?: string;
-  };
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useHosts } from "./use-hosts";
+import { modelDetailsQuery } from "./use-model-manager";
+import { getModelCapabilities } from "@/lib/ollama/capabilities";
+import type { OllamaHost, OllamaModel } from "@/types";
+
+export type { OllamaModel } from "@/types";
+
+/**
+ * Add capabilities from /api/show to a host's models. Show responses are
+ * cached, so the periodic model refetch doesn't ask again every minute.
+ * Models whose details fail to load are returned without capabilities.
+ */
+async function withCapabilities(
+  queryClient: QueryClient,
+  host: OllamaHost,
+  models: OllamaModel[]
+): Promise<OllamaModel[]> {
+  return await Promise.all(
+    models.map(async (model) => {
+      try {
+        const show = await queryClient.fetchQuery(modelDetailsQuery(host, model.name));
+        return { ...model, capabilities: getModelCapabilities(show) };
+      } catch {
+        return model;
+      }
+    })
+  );
 }
 
-async function fetchModels(): Promise<OllamaModel[]> {
-  const response = await fetch("/api/ollama/models");
+async function fetchHostModels(
+  queryClient: QueryClient,
+  host: OllamaHost
+): Promise<OllamaModel[]> {
+  const params = host.baseUrl
+    ? `?host=${encodeURIComponent(host.baseUrl)}`
+    : "";
+  const response = await fetch(`/api/ollama/models${params}`);
   if (!response.ok) {
-    throw new Error("Failed to fetch models");
+    throw new Error(`Failed to fetch models from ${host.name}`);
   }
   const data = await response.json();
-  return data.models || [];
+  const models: OllamaModel[] = data.models || [];
+  // Tag every model with the host it came from so requests can be routed back
+  return await withCapabilities(
+    queryClient,
+    host,
+    models.map((model) => ({ ...model, host: host.id }))
+  );
+}
+
+async function fetchModels(
+  queryClient: QueryClient,
+  hosts: OllamaHost[]
+): Promise<OllamaModel[]> {
+  const results = await Promise.allSettled(
+    hosts.map((host) => fetchHostModels(queryClient, host))
+  );
+
+  const models: OllamaModel[] = [];
+  results.forEach((result, idx) => {
+    if (result.status === "fulfilled") {
+      models.push(...result.value);
+    } else {
+      console.warn(`[Models] Host ${hosts[idx].name} unavailable:`, result.reason);
+    }
+  });
+
+  // Only fail when no host could be reached at all
+  if (models.length === 0 && results.every((r) => r.status === "rejected")) {
+    throw new Error("Failed to fetch models");
+  }
+  return models;
 }
 
 export function useModels() {
+  const { hosts } = useHosts();
+  const queryClient = useQueryClient();
+
   return useQuery({
-    queryKey: ["ollama-models"],
-    queryFn: fetchModels,
+    queryKey: ["ollama-models", hosts.map((h) => `${h.id}:${h.baseUrl}`)],
+    queryFn: () => fetchModels(queryClient, hosts),
     staleTime: 30000, // 30 seconds
     refetchInterval: 60000, // Refetch every minute
   });
 }
-
@@ -1,374 +1,340 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { 
-  evaluateResponse, 
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  evaluateResponse,
   analyzeHighlights,
   evaluateAllResponses,
   analyzeAllHighlights as analyzeAllHighlightsUtil,
 } from "@/lib/utils/response-evaluation";
+import { saveMessageEvaluation, saveMessageHighlights } from "@/lib/storage/db";
+import { useHosts } from "@/hooks/use-hosts";
+import { resolveHostUrl } from "@/lib/ollama/hosts";
+import { DEFAULT_RUBRIC } from "@/lib/utils/rubrics";
+import {
+  DEFAULT_JUDGE_MODEL,
+  combineVerdicts,
+  getEligibleJudges,
+} from "@/lib/utils/judge-panel";
 import type {
+  JudgeVerdict,
   ResponseEvaluation,
   HighlightAnalysis,
   EvaluationRequest,
   HighlightRequest,
   BatchEvaluationRequest,
   BatchHighlightRequest,
+  RubricDefinition,
 } from "@/types";
 
 interface UseResponseEvaluationOptions {
-  evalModel?: string;
+  judgeModels?: string[]; // the panel - the first judge also analyzes highlights
+  judgeHosts?: Record<string, string>; // judge model -> host id, see JudgeSettings
+  blind?: boolean; // hide model names from the judges, see JudgeBiasOptions
+  orderings?: number;
   autoEvaluate?: boolean;
+  rubric?: RubricDefinition;
+}
+
+// A response as the judge sees it, plus the saved message its results are
+// written to. Saved results come back through the message, so reopening a
+// chat shows them without asking the judge again. Responses are keyed by
+// message, so several versions from one model can be judged side by side.
+export interface EvaluatedResponse {
+  model: string; // model that wrote it - the name judges see, and it never judges itself
+  content: string;
+  done: boolean;
+  messageId?: string;
+  evaluation?: ResponseEvaluation | null;
+  highlightAnalysis?: HighlightAnalysis | null;
 }
 
 interface EvaluationState {
-  evaluations: Map<string, ResponseEvaluation>;
-  highlightAnalyses: Map<string, HighlightAnalysis>;
   loading: Set<string>;
   errors: Map<string, string>;
 }
 
+interface JudgeableResponse {
+  key: string;
+  model: string;
+  content: string;
+  messageId: string;
+  judges: string[];
+}
+
+// Judges answer by model name, so a batch holds one response per model.
+// Newest versions come first and fill the first round; older versions of a
+// model go into later rounds.
+const toJudgeRounds = (responses: JudgeableResponse[]): JudgeableResponse[][] => {
+  const rounds: JudgeableResponse[][] = [];
+  [...responses].reverse().forEach((response) => {
+    const round = rounds.find((r) => r.every(({ model }) => model !== response.model));
+    if (round) {
+      round.push(response);
+    } else {
+      rounds.push([response]);
+    }
+  });
+  return rounds;
+};
+
+// The newest response of every model other than `model`, as context for a
+// single judge call
+const getOtherModels = (responses: Map<string, EvaluatedResponse>, model: string) => {
+  const latest = new Map<string, string>();
+  responses.forEach((r) => {
+    if (r.model !== model) latest.set(r.model, r.content);
+  });
+  return Array.from(latest, ([name, content]) => ({ model: name, content }));
+};
+
+const noJudgeError = (model: string) =>
+  `No judge other than ${model} - add another judge to the panel`;
+
+// A judge's part of a panel evaluation
+const toVerdict = (
+  { readability, parameterScores, checks, finalScore, rationales, issues, runs }: ResponseEvaluation,
+  judgeModel: string
+): JudgeVerdict => ({
+  judgeModel,
+  readability,
+  parameterScores,
+  ...(checks && { checks }),
+  finalScore,
+  ...(rationales && { rationales }),
+  ...(issues && { issues }),
+  ...(runs && { runs }),
+});
+
 export function useResponseEvaluation(
   userQuestion: string,
-  responses: Map<string, { content: string; done: boolean }>,
+  responses: Map<string, EvaluatedResponse>,
   options: UseResponseEvaluationOptions = {}
 ) {
-  const { evalModel = "gemma3:4b", autoEvaluate = true } = options;
+  const {
+    blind = false,
+    orderings = 1,
+    autoEvaluate = true,
+    rubric = DEFAULT_RUBRIC,
+  } = options;
+  // Rebuilt only when the panel changes, so callbacks don't go stale on a
+  // new judge list or rerun on every render
+  const judgesKey = (options.judgeModels ?? [DEFAULT_JUDGE_MODEL]).join("\n");
+  const judgeModels = useMemo(() => (judgesKey ? judgesKey.split("\n") : []), [judgesKey]);
+  const highlightModel = judgeModels[0] || DEFAULT_JUDGE_MODEL;
+
+  // Judges run on the host they were picked from (the default host if unset)
+  const { hosts } = useHosts();
+  const { judgeHosts } = options;
+  const judgeHostUrls = useMemo(
+    () => new Map(judgeModels.map((judge) => [judge, resolveHostUrl(hosts, judgeHosts?.[judge])])),
+    [judgeModels, hosts, judgeHosts]
+  );
+  const highlightHost = resolveHostUrl(hosts, judgeHosts?.[highlightModel]);
 
   const [state, setState] = useState<EvaluationState>({
-    evaluations: new Map(),
-    highlightAnalyses: new Map(),
     loading: new Set(),
     errors: new Map(),
   });
 
-  const evaluationCacheRef = useRef<Map<string, ResponseEvaluation>>(new Map());
-  const highlightCacheRef = useRef<Map<string, HighlightAnalysis>>(new Map());
-  const evaluatedModelsRef = useRef<Set<string>>(new Set());
-  const lastQuestionRef = useRef<string>(userQuestion);
+  // Messages already sent to the judge by auto-evaluation
+  const autoEvaluatedRef = useRef<Set<string>>(new Set());
 
-  // Reset evaluation state when question changes
-  useEffect(() => {
-    if (lastQuestionRef.current !== userQuestion) {
-      console.log("[Evaluation] Question changed, resetting evaluation state");
-      lastQuestionRef.current = userQuestion;
-      evaluatedModelsRef.current.clear();
-      setState({
-        evaluations: new Map(),
-        highlightAnalyses: new Map(),
-        loading: new Set(),
-        errors: new Map(),
-      });
-    }
-  }, [userQuestion]);
+  // Results are read back from the saved messages
+  const evaluations = new Map<string, ResponseEvaluation>();
+  const highlightAnalyses = new Map<string, HighlightAnalysis>();
+  responses.forEach((response, key) => {
+    if (response.evaluation) evaluations.set(key, response.evaluation);
+    if (response.highlightAnalysis) highlightAnalyses.set(key, response.highlightAnalysis);
+  });
+
+  const setLoading = useCallback((keys: string[], isLoading: boolean) => {
+    setState((prev) => {
+      const newLoading = new Set(prev.loading);
+      keys.forEach((key) => (isLoading ? newLoading.add(key) : newLoading.delete(key)));
+      return { ...prev, loading: newLoading };
+    });
+  }, []);
+
+  const setErrors = useCallback((keys: string[], error: string | null) => {
+    setState((prev) => {
+      const newErrors = new Map(prev.errors);
+      keys.forEach((key) => (error ? newErrors.set(key, error) : newErrors.delete(key)));
+      return { ...prev, errors: newErrors };
+    });
+  }, []);
+
+  // Only saved responses can be judged, since that's where results are kept
+  const getJudgeableResponses = useCallback(
+    (all: Map<string, EvaluatedResponse>): JudgeableResponse[] =>
+      Array.from(all.entries())
+        .filter(([, r]) => r.done && r.messageId && r.content.trim().length > 0)
+        .map(([key, r]) => ({
+          key,
+          model: r.model,
+          content: r.content,
+          messageId: r.messageId!,
+          judges: getEligibleJudges(judgeModels, r.model),
+        })),
+    [judgeModels]
+  );
 
-  // Create a serializable dependency that React can properly track
-  // React compares Map objects by reference, not content, so we serialize the contents
-  // Compute key from Map contents - React will compare this string by value
-  const responsesKey = (() => {
-    const entries = Array.from(responses.entries())
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([model, response]) => `${model}:${response.done}:${response.content.length}`);
-    return entries.join('|');
-  })();
+  // Combine the panel's verdicts and save them. Fails only when no judge
+  // returned a verdict, with the first judge's error.
+  const saveVerdicts = useCallback(
+    async (messageId: string, results: PromiseSettledResult<JudgeVerdict>[]) => {
+      const verdicts = results
+        .filter((result): result is PromiseFulfilledResult<JudgeVerdict> => result.status === "fulfilled")
+        .map((result) => result.value);
+      if (verdicts.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      await saveMessageEvaluation(messageId, {
+        ...combineVerdicts(verdicts, rubric),
+        ...(blind && { blind: true }),
+        evaluatedAt: Date.now(),
+      });
+    },
+    [rubric, blind]
+  );
 
+  const saveHighlights = useCallback(
+    async (messageId: string, analysis: HighlightAnalysis) => {
+      await saveMessageHighlights(messageId, {
+        ...analysis,
+        judgeModel: highlightModel,
+        analyzedAt: Date.now(),
+      });
+    },
+    [highlightModel]
+  );
 
   // Evaluate a single response (for manual evaluation/re-evaluation)
   const evaluateSingleResponse = useCallback(
-    async (model: string, content: string) => {
-      console.log(`[Evaluation] Manual evaluation requested for ${model}`);
-      
-      // Check cache first
-      const cacheKey = `${userQuestion}:${model}:${content.substring(0, 100)}`;
-      if (evaluationCacheRef.current.has(cacheKey)) {
-        console.log(`[Evaluation] Using cached evaluation for ${model}`);
-        setState((prev) => {
-          const newEvaluations = new Map(prev.evaluations);
-          newEvaluations.set(model, evaluationCacheRef.current.get(cacheKey)!);
-          return {
-            ...prev,
-            evaluations: newEvaluations,
-          };
-        });
+    async (key: string, content: string) => {
+      const response = responses.get(key);
+      if (!response?.messageId) {
+        console.log(`[Evaluation] ${key} isn't saved yet, skipping evaluation`);
         return;
       }
+      const { model } = response;
 
-      // Build other responses list
-      const otherResponses = Array.from(responses.entries())
-        .filter(([m]) => m !== model)
-        .map(([m, r]) => ({
-          model: m,
-          content: r.content,
-        }));
+      const judges = getEligibleJudges(judgeModels, model);
+      if (judges.length === 0) {
+        setErrors([key], noJudgeError(model));
+        return;
+      }
 
-      setState((prev) => {
-        const newLoading = new Set(prev.loading);
-        newLoading.add(model);
-        return { ...prev, loading: newLoading };
-      });
+      setLoading([key], true);
 
       try {
         const request: EvaluationRequest = {
           userQuestion,
           currentResponse: content,
           currentModel: model,
-          otherResponses,
+          otherResponses: getOtherModels(responses, model),
         };
 
-        console.log(`[Evaluation] Calling evaluation API for ${model}`);
-        const evaluation = await evaluateResponse(request, evalModel);
-        console.log(`[Evaluation] Received evaluation for ${model}:`, evaluation);
-
-        // Cache result
-        evaluationCacheRef.current.set(cacheKey, evaluation);
-
-        setState((prev) => {
-          const newEvaluations = new Map(prev.evaluations);
-          newEvaluations.set(model, evaluation);
-          const newLoading = new Set(prev.loading);
-          newLoading.delete(model);
-          const newErrors = new Map(prev.errors);
-          newErrors.delete(model);
-          return {
-            ...prev,
-            evaluations: newEvaluations,
-            loading: newLoading,
-            errors: newErrors,
-          };
-        });
+        console.log(`[Evaluation] Calling evaluation API for ${model} with judges:`, judges);
+        const results = await Promise.allSettled(
+          judges.map(async (judgeModel) =>
+            toVerdict(
+              await evaluateResponse(request, judgeModel, judgeHostUrls.get(judgeModel), rubric, {
+                blind,
+              }),
+              judgeModel
+            )
+          )
+        );
+        await saveVerdicts(response.messageId, results);
+        setErrors([key], null);
       } catch (error) {
         console.error(`[Evaluation] Error evaluating ${model}:`, error);
-        setState((prev) => {
-          const newLoading = new Set(prev.loading);
-          newLoading.delete(model);
-          const newErrors = new Map(prev.errors);
-          newErrors.set(model, String(error));
-          return {
-            ...prev,
-            loading: newLoading,
-            errors: newErrors,
-          };
-        });
+        setErrors([key], String(error));
+      } finally {
+        setLoading([key], false);
       }
     },
-    [userQuestion, responses, evalModel]
+    [
+      userQuestion,
+      responses,
+      judgeModels,
+      judgeHostUrls,
+      rubric,
+      blind,
+      setLoading,
+      setErrors,
+      saveVerdicts,
+    ]
   );
 
   // Auto-evaluate when all responses complete
   useEffect(() => {
-    if (!autoEvaluate) {
-      return;
-    }
-
-    // Check if all responses are complete
-    if (responses.size === 0) {
+    if (!autoEvaluate || responses.size === 0) {
       return;
     }
 
     const allComplete = Array.from(responses.values()).every((r) => r.done && r.content.trim().length > 0);
-    
     if (!allComplete) {
       return;
     }
 
-    // Evaluate all responses in parallel
-    const modelsToEvaluate = Array.from(responses.entries())
-      .filter(([_, r]) => r.content.trim().length > 0)
-      .filter(([model]) => {
-        // Check if we've already evaluated or are currently evaluating this model
-        const alreadyEvaluated = evaluatedModelsRef.current.has(model);
-        const inState = state.evaluations.has(model);
-        const currentlyLoading = state.loading.has(model);
-        const shouldEvaluate = !alreadyEvaluated && !inState && !currentlyLoading;
-        
-        console.log(`[Evaluation] Model ${model}: alreadyEvaluated=${alreadyEvaluated}, inState=${inState}, loading=${currentlyLoading}, shouldEvaluate=${shouldEvaluate}`);
-        
-        if (shouldEvaluate) {
-          console.log(`[Evaluation] Will evaluate model: ${model}`);
-          evaluatedModelsRef.current.add(model);
-        }
-        return shouldEvaluate;
-      })
-      .map(([model, response]) => ({ model, content: response.content }));
-
-    if (modelsToEvaluate.length === 0) {
-      console.log("[Evaluation] No models need evaluation (all already evaluated or loading)");
+    const toEvaluate = getJudgeableResponses(responses).filter(
+      ({ key, messageId }) =>
+        !responses.get(key)?.evaluation &&
+        !state.loading.has(key) &&
+        !autoEvaluatedRef.current.has(messageId)
+    );
+    if (toEvaluate.length === 0) {
       return;
     }
 
-    console.log(`[Evaluation] 🚀 Starting evaluation for ${modelsToEvaluate.length} model(s):`, modelsToEvaluate.map(m => m.model));
-    console.log(`[Evaluation] This was triggered after sequential model completion.`);
-
-    // Trigger evaluations - build other responses list and call API directly
-    modelsToEvaluate.forEach(({ model, content }) => {
-      const cacheKey = `${userQuestion}:${model}:${content.substring(0, 100)}`;
-      
-      // Check cache first
-      if (evaluationCacheRef.current.has(cacheKey)) {
-        console.log(`[Evaluation] Using cached evaluation for ${model}`);
-        setState((prev) => {
-          const newEvaluations = new Map(prev.evaluations);
-          newEvaluations.set(model, evaluationCacheRef.current.get(cacheKey)!);
-          return {
-            ...prev,
-            evaluations: newEvaluations,
-          };
-        });
-        return;
-      }
-
-      // Set loading state
-      setState((prev) => {
-        const newLoading = new Set(prev.loading);
-        newLoading.add(model);
-        return { ...prev, loading: newLoading };
-      });
-
-      // Build other responses list
-      const otherResponses = Array.from(responses.entries())
-        .filter(([m]) => m !== model)
-        .map(([m, r]) => ({
-          model: m,
-          content: r.content,
-        }));
-
-      const request: EvaluationRequest = {
-        userQuestion,
-        currentResponse: content,
-        currentModel: model,
-        otherResponses,
-      };
-
-      console.log(`[Evaluation] 📡 Calling evaluation API for ${model}...`);
-      
-      evaluateResponse(request, evalModel)
-        .then((evaluation) => {
-          console.log(`[Evaluation] ✅ Received evaluation for ${model}:`, evaluation);
-          
-          // Cache result
-          evaluationCacheRef.current.set(cacheKey, evaluation);
-
-          setState((prev) => {
-            const newEvaluations = new Map(prev.evaluations);
-            newEvaluations.set(model, evaluation);
-            const newLoading = new Set(prev.loading);
-            newLoading.delete(model);
-            const newErrors = new Map(prev.errors);
-            newErrors.delete(model);
-            return {
-              ...prev,
-              evaluations: newEvaluations,
-              loading: newLoading,
-              errors: newErrors,
-            };
-          });
-        })
-        .catch((error) => {
-          console.error(`[Evaluation] Error evaluating ${model}:`, error);
-          
-          // Remove from ref on error so we can retry
-          evaluatedModelsRef.current.delete(model);
-          
-          setState((prev) => {
-            const newLoading = new Set(prev.loading);
-            newLoading.delete(model);
-            const newErrors = new Map(prev.errors);
-            newErrors.set(model, String(error));
-            return {
-              ...prev,
-              loading: newLoading,
-              errors: newErrors,
-            };
-          });
-        });
+    console.log(`[Evaluation] Auto-evaluating ${toEvaluate.length} response(s):`, toEvaluate.map((r) => r.model));
+    toEvaluate.forEach(({ key, content, messageId }) => {
+      autoEvaluatedRef.current.add(messageId);
+      evaluateSingleResponse(key, content);
     });
-  }, [autoEvaluate, responsesKey, userQuestion, evalModel, state.evaluations, state.loading]);
+  }, [autoEvaluate, responses, getJudgeableResponses, evaluateSingleResponse, state.loading]);
 
-  // Analyze highlights for a specific model
+  // Analyze highlights for a specific response
   const analyzeHighlightsForModel = useCallback(
-    async (targetModel: string) => {
-      // Check cache
-      const cacheKey = `${userQuestion}:${targetModel}:highlights`;
-      if (highlightCacheRef.current.has(cacheKey)) {
-        setState((prev) => {
-          const newHighlights = new Map(prev.highlightAnalyses);
-          newHighlights.set(targetModel, highlightCacheRef.current.get(cacheKey)!);
-          return {
-            ...prev,
-            highlightAnalyses: newHighlights,
-          };
-        });
+    async (key: string) => {
+      const loadingKey = `${key}:highlights`;
+      const target = responses.get(key);
+      const messageId = target?.messageId;
+      if (!target || !messageId || state.loading.has(loadingKey)) {
         return;
       }
+      const targetModel = target.model;
 
-      if (state.loading.has(`${targetModel}:highlights`)) {
-        return;
-      }
-
-      setState((prev) => {
-        const newLoading = new Set(prev.loading);
-        newLoading.add(`${targetModel}:highlights`);
-        return { ...prev, loading: newLoading };
-      });
+      setLoading([loadingKey], true);
 
       try {
         const request: HighlightRequest = {
-          responses: Array.from(responses.entries()).map(([model, r]) => ({
-            model,
-            content: r.content,
-          })),
+          responses: [
+            { model: targetModel, content: target.content },
+            ...getOtherModels(responses, targetModel),
+          ],
           targetModel,
         };
 
-        const analysis = await analyzeHighlights(request, evalModel);
-
-        // Cache result
-        highlightCacheRef.current.set(cacheKey, analysis);
-
-        setState((prev) => {
-          const newHighlights = new Map(prev.highlightAnalyses);
-          newHighlights.set(targetModel, analysis);
-          const newLoading = new Set(prev.loading);
-          newLoading.delete(`${targetModel}:highlights`);
-          const newErrors = new Map(prev.errors);
-          newErrors.delete(`${targetModel}:highlights`);
-          return {
-            ...prev,
-            highlightAnalyses: newHighlights,
-            loading: newLoading,
-            errors: newErrors,
-          };
-        });
+        const analysis = await analyzeHighlights(request, highlightModel, highlightHost);
+        await saveHighlights(messageId, analysis);
+        setErrors([loadingKey], null);
       } catch (error) {
         console.error(`Error analyzing highlights for ${targetModel}:`, error);
-        setState((prev) => {
-          const newLoading = new Set(prev.loading);
-          newLoading.delete(`${targetModel}:highlights`);
-          const newErrors = new Map(prev.errors);
-          newErrors.set(`${targetModel}:highlights`, String(error));
-          return {
-            ...prev,
-            loading: newLoading,
-            errors: newErrors,
-          };
-        });
+        setErrors([loadingKey], String(error));
+      } finally {
+        setLoading([loadingKey], false);
       }
     },
-    [userQuestion, responses, evalModel, state.loading]
+    [responses, highlightModel, highlightHost, state.loading, setLoading, setErrors, saveHighlights]
   );
 
   // Manual re-evaluation
   const reEvaluate = useCallback(
-    async (model: string) => {
-      const response = responses.get(model);
+    async (key: string) => {
+      const response = responses.get(key);
       if (!response) return;
-
-      // Clear existing evaluation
-      setState((prev) => {
-        const newEvaluations = new Map(prev.evaluations);
-        newEvaluations.delete(model);
-        return { ...prev, evaluations: newEvaluations };
-      });
-
-      await evaluateSingleResponse(model, response.content);
+      await evaluateSingleResponse(key, response.content);
     },
     [responses, evaluateSingleResponse]
   );
@@ -376,191 +342,157 @@ export function useResponseEvaluation(
   // Batch evaluation for all models (single API call)
   const evaluateAll = useCallback(async () => {
     console.log("[Evaluation] 🔘 Batch evaluation triggered for all models");
-    
+
     if (responses.size === 0) {
       console.log("[Evaluation] No responses to evaluate");
       return;
     }
 
     const allComplete = Array.from(responses.values()).every((r) => r.done && r.content.trim().length > 0);
-    
+
     if (!allComplete) {
-      const incomplete = Array.from(responses.entries())
-        .filter(([_, r]) => !r.done || r.content.trim().length === 0)
-        .map(([m]) => m);
+      const incomplete = Array.from(responses.values())
+        .filter((r) => !r.done || r.content.trim().length === 0)
+        .map((r) => r.model);
       console.log("[Evaluation] Cannot evaluate - some responses incomplete:", incomplete);
       return;
     }
 
-    // Clear any existing evaluations to force re-evaluation
-    evaluatedModelsRef.current.clear();
-    setState((prev) => ({
-      ...prev,
-      evaluations: new Map(),
-      errors: new Map(),
-    }));
-
-    // Prepare batch request
-    const responsesToEvaluate = Array.from(responses.entries())
-      .filter(([_, r]) => r.content.trim().length > 0)
-      .map(([model, response]) => ({ model, content: response.content }));
-
-    console.log(`[Evaluation] 🚀 Batch evaluation starting for ${responsesToEvaluate.length} model(s):`, responsesToEvaluate.map(r => r.model));
-
-    // Set loading state for all models
-    setState((prev) => {
-      const newLoading = new Set(prev.loading);
-      responsesToEvaluate.forEach(({ model }) => {
-        newLoading.add(model);
-        evaluatedModelsRef.current.add(model);
-      });
-      return { ...prev, loading: newLoading };
-    });
+    const responsesToEvaluate = getJudgeableResponses(responses);
+    const keys = responsesToEvaluate.map(({ key }) => key);
+    const rounds = toJudgeRounds(responsesToEvaluate);
 
-    const request: BatchEvaluationRequest = {
-      userQuestion,
-      responses: responsesToEvaluate,
-    };
+    console.log(`[Evaluation] 🚀 Batch evaluation starting for ${keys.length} response(s):`, responsesToEvaluate.map((r) => r.model));
+    setErrors(keys, null);
+    setLoading(keys, true);
 
     try {
-      console.log(`[Evaluation] 📡 Calling batch evaluation API...`);
-      const result = await evaluateAllResponses(request, evalModel);
-      console.log(`[Evaluation] ✅ Received batch evaluation:`, result);
-
-      // Cache and update state for all evaluations
-      setState((prev) => {
-        const newEvaluations = new Map(prev.evaluations);
-        const newLoading = new Set(prev.loading);
-        const newErrors = new Map(prev.errors);
-
-        Object.entries(result.evaluations).forEach(([model, evaluation]) => {
-          // Cache result
-          const response = responses.get(model);
-          if (response) {
-            const cacheKey = `${userQuestion}:${model}:${response.content.substring(0, 100)}`;
-            evaluationCacheRef.current.set(cacheKey, evaluation);
-          }
-
-          newEvaluations.set(model, evaluation);
-          newLoading.delete(model);
-          newErrors.delete(model);
-        });
-
-        return {
-          ...prev,
-          evaluations: newEvaluations,
-          loading: newLoading,
-          errors: newErrors,
-        };
-      });
-    } catch (error) {
-      console.error(`[Evaluation] Error in batch evaluation:`, error);
-      
-      // Clear loading state and set error for all models
-      setState((prev) => {
-        const newLoading = new Set(prev.loading);
-        const newErrors = new Map(prev.errors);
-
-        responsesToEvaluate.forEach(({ model }) => {
-          newLoading.delete(model);
-          newErrors.set(model, String(error));
-          evaluatedModelsRef.current.delete(model);
-        });
-
-        return {
-          ...prev,
-          loading: newLoading,
-          errors: newErrors,
-        };
-      });
+      // One batch call per judge and round, leaving out the judge's own responses
+      console.log(`[Evaluation] 📡 Calling batch evaluation API for judges:`, judgeModels);
+      const batches = await Promise.all(
+        judgeModels.map((judgeModel) =>
+          Promise.allSettled(
+            rounds.map(async (round) => {
+              const judged = round.filter(({ judges }) => judges.includes(judgeModel));
+              if (judged.length === 0) return {};
+
+              const request: BatchEvaluationRequest = {
+                userQuestion,
+                responses: judged.map(({ model, content }) => ({ model, content })),
+              };
+              const result = await evaluateAllResponses(
+                request,
+                judgeModel,
+                judgeHostUrls.get(judgeModel),
+                rubric,
+                { blind, orderings }
+              );
+              console.log(`[Evaluation] ✅ Received batch evaluation from ${judgeModel}:`, result);
+              return result.evaluations;
+            })
+          )
+        )
+      );
+
+      await Promise.all(
+        rounds.flatMap((round, roundIndex) =>
+          round.map(async ({ key, model, messageId, judges }) => {
+            if (judges.length === 0) {
+              setErrors([key], noJudgeError(model));
+              return;
+            }
+
+            const results = judges.map((judgeModel): PromiseSettledResult<JudgeVerdict> => {
+              const batch = batches[judgeModels.indexOf(judgeModel)][roundIndex];
+              if (batch.status === "rejected") return batch;
+              const evaluation = batch.value[model];
+              return evaluation
+                ? { status: "fulfilled", value: toVerdict(evaluation, judgeModel) }
+                : { status: "rejected", reason: new Error(`${judgeModel} did not score ${model}`) };
+            });
+
+            try {
+              await saveVerdicts(messageId, results);
+            } catch (error) {
+              console.error(`[Evaluation] Error in batch evaluation of ${model}:`, error);
+              setErrors([key], String(error));
+            }
+          })
+        )
+      );
+    } finally {
+      setLoading(keys, false);
     }
-  }, [userQuestion, responses, evalModel]);
+  }, [
+    userQuestion,
+    responses,
+    judgeModels,
+    judgeHostUrls,
+    rubric,
+    blind,
+    orderings,
+    setLoading,
+    setErrors,
+    getJudgeableResponses,
+    saveVerdicts,
+  ]);
 
   // Batch highlight analysis for all models (single API call)
   const analyzeAllHighlights = useCallback(async () => {
     console.log("[Evaluation] 🔘 Batch highlight analysis triggered for all models");
-    
+
     if (responses.size === 0) {
       console.log("[Evaluation] No responses to analyze");
       return;
     }
 
-    // Prepare batch request
-    const responsesToAnalyze = Array.from(responses.entries())
-      .filter(([_, r]) => r.content.trim().length > 0)
-      .map(([model, response]) => ({ model, content: response.content }));
-
-    console.log(`[Evaluation] 🚀 Batch highlight analysis starting for ${responsesToAnalyze.length} model(s):`, responsesToAnalyze.map(r => r.model));
-
-    // Set loading state for all models
-    setState((prev) => {
-      const newLoading = new Set(prev.loading);
-      responsesToAnalyze.forEach(({ model }) => {
-        newLoading.add(`${model}:highlights`);
-      });
-      return { ...prev, loading: newLoading };
-    });
+    const responsesToAnalyze = getJudgeableResponses(responses);
+    const loadingKeys = responsesToAnalyze.map(({ key }) => `${key}:highlights`);
 
-    const request: BatchHighlightRequest = {
-      responses: responsesToAnalyze,
-    };
+    console.log(`[Evaluation] 🚀 Batch highlight analysis starting for ${responsesToAnalyze.length} response(s):`, responsesToAnalyze.map(r => r.model));
+    setLoading(loadingKeys, true);
 
     try {
-      console.log(`[Evaluation] 📡 Calling batch highlight analysis API...`);
-      const result = await analyzeAllHighlightsUtil(request, evalModel);
-      console.log(`[Evaluation] ✅ Received batch highlight analysis:`, result);
-
-      // Cache and update state for all highlights
-      setState((prev) => {
-        const newHighlights = new Map(prev.highlightAnalyses);
-        const newLoading = new Set(prev.loading);
-        const newErrors = new Map(prev.errors);
-
-        Object.entries(result.highlights).forEach(([model, analysis]) => {
-          // Cache result
-          const cacheKey = `${userQuestion}:${model}:highlights`;
-          highlightCacheRef.current.set(cacheKey, analysis);
-
-          newHighlights.set(model, analysis);
-          newLoading.delete(`${model}:highlights`);
-          newErrors.delete(`${model}:highlights`);
-        });
-
-        return {
-          ...prev,
-          highlightAnalyses: newHighlights,
-          loading: newLoading,
-          errors: newErrors,
+      // One call per round, so no batch names a model twice
+      for (const round of toJudgeRounds(responsesToAnalyze)) {
+        const request: BatchHighlightRequest = {
+          responses: round.map(({ model, content }) => ({ model, content })),
         };
-      });
+
+        console.log(`[Evaluation] 📡 Calling batch highlight analysis API...`);
+        const result = await analyzeAllHighlightsUtil(request, highlightModel, highlightHost);
+        console.log(`[Evaluation] ✅ Received batch highlight analysis:`, result);
+
+        await Promise.all(
+          round.map(({ model, messageId }) => {
+            const analysis = result.highlights[model];
+            return analysis ? saveHighlights(messageId, analysis) : undefined;
+          })
+        );
+      }
+      setErrors(loadingKeys, null);
     } catch (error) {
       console.error(`[Evaluation] Error in batch highlight analysis:`, error);
-      
-      // Clear loading state and set error for all models
-      setState((prev) => {
-        const newLoading = new Set(prev.loading);
-        const newErrors = new Map(prev.errors);
-
-        responsesToAnalyze.forEach(({ model }) => {
-          newLoading.delete(`${model}:highlights`);
-          newErrors.set(`${model}:highlights`, String(error));
-        });
-
-        return {
-          ...prev,
-          loading: newLoading,
-          errors: newErrors,
-        };
-      });
+      setErrors(loadingKeys, String(error));
+    } finally {
+      setLoading(loadingKeys, false);
     }
-  }, [userQuestion, responses, evalModel]);
+  }, [
+    responses,
+    highlightModel,
+    highlightHost,
+    setLoading,
+    setErrors,
+    getJudgeableResponses,
+    saveHighlights,
+  ]);
 
   // Check if any evaluation is in progress
   const isEvaluatingAny = state.loading.size > 0;
 
   return {
-    evaluations: state.evaluations,
-    highlightAnalyses: state.highlightAnalyses,
+    evaluations,
+    highlightAnalyses,
     loading: state.loading,
     errors: state.errors,
     evaluateResponse: evaluateSingleResponse,
@@ -568,9 +500,8 @@ export function useResponseEvaluation(
     analyzeAllHighlights,
     reEvaluate,
     evaluateAll,
-    isEvaluating: (model: string) => state.loading.has(model),
+    isEvaluating: (key: string) => state.loading.has(key),
     isEvaluatingAny,
-    isAnalyzingHighlights: (model: string) => state.loading.has(`${model}:highlights`),
+    isAnalyzingHighlights: (key: string) => state.loading.has(`${key}:highlights`),
   };
 }
-
@@ -0,0 +1,52 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  db,
+  getRubrics,
+  saveRubric,
+  deleteRubric,
+  updateChatRubric,
+} from "@/lib/storage/db";
+import { DEFAULT_RUBRIC } from "@/lib/utils/rubrics";
+import { useChatStore } from "@/store/chat-store";
+import type { RubricDefinition } from "@/types";
+
+export function useRubrics() {
+  const rubrics = useLiveQuery(() => getRubrics()) || [];
+
+  return {
+    rubrics,
+    saveRubric: async (definition: RubricDefinition, rubricId?: string) => {
+      return await saveRubric(definition, rubricId);
+    },
+    deleteRubric: async (rubricId: string) => {
+      await deleteRubric(rubricId);
+    },
+  };
+}
+
+/**
+ * Rubric the current chat's responses are judged with. Before a chat exists
+ * the choice is kept as a draft and copied onto the chat when it's created.
+ * Falls back to the default rubric when none was picked or it was deleted.
+ */
+export function useChatRubric() {
+  const { currentChatId, draftRubricId, setDraftRubricId } = useChatStore();
+  const { rubrics } = useRubrics();
+  const chat = useLiveQuery(
+    () => (currentChatId ? db.chats.get(currentChatId) : undefined),
+    [currentChatId]
+  );
+  const rubricId = currentChatId ? chat?.rubricId : draftRubricId;
+  const rubric = rubrics.find((r) => r.id === rubricId) || DEFAULT_RUBRIC;
+
+  return {
+    rubric,
+    setRubricId: async (id: string | null) => {
+      if (currentChatId) {
+        await updateChatRubric(currentChatId, id || undefined);
+      } else {
+        setDraftRubricId(id);
+      }
+    },
+  };
+}
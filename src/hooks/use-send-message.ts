@@ -1,7 +1,82 @@
+import { useRef } from "react";
 import { useChatStore } from "@/store/chat-store";
 import { useChats } from "./use-chats";
-import { addMessage } from "@/lib/storage/db";
-import type { ModelResponse, Attachment, OllamaChatMessage } from "@/types";
+import {
+  db,
+  addMessage,
+  getChatMessages,
+  getHosts,
+  getCustomTools,
+  getDispatchSettings,
+  setActiveBranch,
+  clearTurnEvaluations,
+} from "@/lib/storage/db";
+import { DEFAULT_HOST_ID, resolveHostUrl } from "@/lib/ollama/hosts";
+import {
+  decodeOllamaStream,
+  readErrorMessage,
+  type OllamaStreamEvent,
+} from "@/lib/ollama/ndjson";
+import { openChatStream, type ChatStreamUpdate } from "@/lib/ollama/chat-stream-client";
+import { cleanGenerationOptions, toRequestOptions } from "@/lib/utils/generation-options";
+import { createThinkingTracker, splitThinking } from "@/lib/utils/thinking";
+import { withFileContext } from "@/lib/files/context";
+import { retrieveCitations, withRetrievedContext } from "@/lib/rag/retrieve";
+import { resolveSystemPrompt, withSystemPrompt } from "@/lib/utils/system-prompts";
+import { flattenBranch, getActivePath, getBranchKey } from "@/lib/utils/branches";
+import {
+  dispatchWithLimits,
+  getConcurrencyLimit,
+  getHostLimit,
+} from "@/lib/utils/dispatch";
+import type {
+  ModelResponse,
+  Attachment,
+  OllamaChatMessage,
+  ResponseMetrics,
+  GenerationOptions,
+  GenerationMode,
+  Message,
+  OllamaFormat,
+  ToolCallStep,
+  Citation,
+} from "@/types";
+
+// What to send for a single model: a chat conversation, or a raw prompt
+// for /api/ollama/generate that bypasses the model's chat template
+type StreamRequest = (
+  | { mode: "chat"; messages: OllamaChatMessage[] }
+  | { mode: "completion"; prompt: string; images?: string[] }
+) & { format?: OllamaFormat };
+
+// Strip the data URL prefix - Ollama expects bare base64
+const getImageData = (attachments?: Attachment[]): string[] =>
+  (attachments?.filter((att) => att.type === "image") || []).map((att) =>
+    att.data.includes(",") ? att.data.split(",")[1] : att.data
+  );
+
+// What the models see for a prompt: attached files, then retrieved
+// knowledge, then the prompt itself
+const toPromptContent = (message: Pick<Message, "content" | "attachments" | "citations">) =>
+  withFileContext(withRetrievedContext(message.content, message.citations), message.attachments);
+
+// Files and knowledge stay part of their prompt for the rest of the conversation
+const toChatHistory = (messages: Message[]): OllamaChatMessage[] =>
+  messages
+    .filter((msg) => msg.role === "user" || msg.role === "assistant")
+    .map((msg) => ({
+      role: msg.role as "user" | "assistant",
+      content: msg.role === "user" ? toPromptContent(msg) : msg.content,
+    }));
+
+// All messages of a chat plus the prompts on its currently selected branch
+const loadActivePath = async (chatId: string) => {
+  const [chat, messages] = await Promise.all([
+    db.chats.get(chatId),
+    getChatMessages(chatId),
+  ]);
+  return { messages, path: getActivePath(messages, chat?.activeBranches) };
+};
 
 export function useSendMessage() {
   const {
@@ -13,9 +88,15 @@ export function useSendMessage() {
     setLoading,
     setCurrentChatId,
     setRegenerating,
+    generationMode,
   } = useChatStore();
   const { createChat } = useChats();
 
+  // One controller per in-flight model, so each stream can be stopped on its own
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Models stopped before their turn came up (bounded / sequential dispatch)
+  const stoppedModelsRef = useRef<Set<string>>(new Set());
+
   // Wait for all responses to be marked as done in the store
   const waitForAllResponsesDone = async (models: string[], maxWaitMs: number = 2000): Promise<boolean> => {
     const startTime = Date.now();
@@ -24,7 +105,8 @@ export function useSendMessage() {
       const storeState = useChatStore.getState();
       const allDone = models.every(model => {
         const response = storeState.currentResponses[model];
-        return response?.done === true && response?.content?.trim().length > 0;
+        // A model that was stopped or failed before producing output counts as done
+        return response?.done === true && (response?.content?.trim().length > 0 || !!response?.thinking || !!response?.truncated || !!response?.error);
       });
       
       if (allDone) {
@@ -52,176 +134,411 @@ export function useSendMessage() {
   // Helper function to stream response from a single model
   const streamModelResponse = async (
     model: string,
-    conversationHistory: OllamaChatMessage[],
+    request: StreamRequest,
     chatId: string,
-    shouldSaveMessage: boolean = true
+    promptId: string,
+    shouldSaveMessage: boolean = true,
+    fallbackHostId?: string
   ) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(model, controller);
+    let fullContent = "";
+    let metrics: ResponseMetrics = {};
+    let options: GenerationOptions | undefined;
+    let toolCalls: ToolCallStep[] | undefined;
+    let hostId: string | undefined;
+    // Thinking arrives as separate events, or inline as <think> blocks in
+    // the content; both are kept out of the saved answer
+    let streamedThinking = "";
+    const isThinkingChunk = createThinkingTracker();
+    const currentOutput = () => {
+      const inline = splitThinking(fullContent);
+      const thinking = [streamedThinking, inline.thinking].filter(Boolean).join("\n\n");
+      return { content: inline.content, thinking: thinking || undefined };
+    };
+    const countThinkingToken = () => {
+      metrics.thinking_count = (metrics.thinking_count || 0) + 1;
+    };
+
+    // Time to first token includes routing, queueing and model load time
+    const startedAt = performance.now();
     try {
-      const response = await fetch("/api/ollama/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model,
-          messages: conversationHistory,
-          stream: true,
-        }),
-      });
+      // Route the request to the host this model was selected from, or the
+      // host that answered before when the selection didn't survive a reload
+      const hosts = await getHosts();
+      const { modelHosts, modelOptions, enabledTools } = useChatStore.getState();
+      hostId = modelHosts[model] || fallbackHostId || DEFAULT_HOST_ID;
+      const host = resolveHostUrl(hosts, hostId);
+      options = cleanGenerationOptions(modelOptions[model]);
+      const requestOptions = toRequestOptions(options);
+
+      // User-defined tools travel with the request, built-ins go by name
+      const customTools = (await getCustomTools())
+        .filter((tool) => enabledTools.includes(tool.name))
+        .map(({ name, description, parameters, result }) => ({ name, description, parameters, result }));
+
+      // The chat's persona for this model goes first in the conversation
+      const chat = await db.chats.get(chatId);
+      const systemPrompt = resolveSystemPrompt(chat?.systemPrompts, model);
+
+      // Chat goes over the resumable SSE protocol; raw completions relay
+      // Ollama's NDJSON stream as-is
+      let events: AsyncIterable<OllamaStreamEvent | ChatStreamUpdate>;
+      if (request.mode === "completion") {
+        const response = await fetch("/api/ollama/generate", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          signal: controller.signal,
+          body: JSON.stringify({
+            model,
+            prompt: request.prompt,
+            images: request.images,
+            raw: true,
+            stream: true,
+            ...requestOptions,
+            host,
+            format: request.format,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to generate: ${await readErrorMessage(response)}`);
+        }
 
-      if (!response.ok) {
-        throw new Error(`Failed to generate: ${response.statusText}`);
+        if (!response.body) {
+          throw new Error("Response body is not readable");
+        }
+        events = decodeOllamaStream(response.body);
+      } else {
+        events = openChatStream(
+          {
+            model,
+            messages: withSystemPrompt(request.messages, systemPrompt),
+            ...requestOptions,
+            host,
+            tools: enabledTools.length > 0 ? enabledTools : undefined,
+            customTools: customTools.length > 0 ? customTools : undefined,
+            format: request.format,
+          },
+          { signal: controller.signal }
+        );
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let fullContent = "";
+      for await (const event of events) {
+        // Upstream errors end the response - the partial output is kept
+        if (event.type === "error") {
+          throw new Error(event.message);
+        }
 
-      if (!reader) {
-        throw new Error("Response body is not readable");
-      }
+        // Tools run on the server between rounds; the trace is shown as it grows
+        if (event.type === "tool") {
+          toolCalls = [...(toolCalls || []), event.step];
+          addResponse(model, { model, ...currentOutput(), done: false, toolCalls });
+          continue;
+        }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const data = JSON.parse(line);
-              const content = data.message?.content || data.response || "";
-
-              if (content) {
-                fullContent += content;
-
-                addResponse(model, {
-                  model,
-                  content: fullContent,
-                  done: data.done || false,
-                });
-              }
-            } catch (e) {
-              console.error("Error parsing streaming response:", e);
-            }
-          }
+        if (event.content && metrics.time_to_first_token === undefined) {
+          metrics.time_to_first_token = performance.now() - startedAt;
+        }
+
+        if (event.type === "thinking") {
+          streamedThinking += event.content;
+          countThinkingToken();
+          addResponse(model, { model, ...currentOutput(), done: false, toolCalls });
+          continue;
+        }
+
+        if (event.type === "done") {
+          metrics = { ...metrics, ...event.metrics };
+        }
+
+        if (event.content) {
+          fullContent += event.content;
+          if (isThinkingChunk(event.content)) countThinkingToken();
+
+          addResponse(model, {
+            model,
+            ...currentOutput(),
+            done: event.type === "done",
+            toolCalls,
+          });
         }
       }
 
       const finalResponse: ModelResponse = {
         model,
-        content: fullContent,
+        ...currentOutput(),
         done: true,
+        metrics,
+        toolCalls,
       };
 
       addResponse(model, finalResponse);
 
       // Save assistant message
-      if (shouldSaveMessage && chatId && finalResponse.content) {
-        await addMessage(chatId, "assistant", finalResponse.content, model);
+      if (shouldSaveMessage && chatId && (finalResponse.content || finalResponse.thinking)) {
+        await addMessage(chatId, "assistant", finalResponse.content, model, undefined, {
+          parentId: promptId,
+          hostId,
+          metrics,
+          options,
+          toolCalls,
+          thinking: finalResponse.thinking,
+        });
       }
 
       return finalResponse;
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user - keep whatever was generated so far
+        const truncatedResponse: ModelResponse = {
+          model,
+          ...currentOutput(),
+          done: true,
+          truncated: true,
+          metrics,
+          toolCalls,
+        };
+        addResponse(model, truncatedResponse);
+
+        if (shouldSaveMessage && chatId && (truncatedResponse.content || truncatedResponse.thinking)) {
+          await addMessage(chatId, "assistant", truncatedResponse.content, model, undefined, {
+            parentId: promptId,
+            hostId,
+            truncated: true,
+            metrics,
+            options,
+            toolCalls,
+            thinking: truncatedResponse.thinking,
+          });
+        }
+        return truncatedResponse;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[SendMessage] ${model} failed:`, errorMessage);
       const errorResponse: ModelResponse = {
         model,
-        content: "",
-        error: error instanceof Error ? error.message : "Unknown error",
+        ...currentOutput(),
+        error: errorMessage,
         done: true,
+        metrics,
+        toolCalls,
       };
       addResponse(model, errorResponse);
+
+      // Keep partial output so the failure stays visible in the chat
+      if (shouldSaveMessage && chatId && (errorResponse.content || errorResponse.thinking)) {
+        await addMessage(chatId, "assistant", errorResponse.content, model, undefined, {
+          parentId: promptId,
+          hostId,
+          error: errorMessage,
+          metrics,
+          options,
+          toolCalls,
+          thinking: errorResponse.thinking,
+        });
+      }
       return errorResponse;
+    } finally {
+      if (abortControllersRef.current.get(model) === controller) {
+        abortControllersRef.current.delete(model);
+      }
     }
   };
 
-  const sendMessage = async (prompt: string, attachments?: Attachment[]) => {
-    if (selectedModels.length === 0) {
-      alert("Please select at least one model");
-      return;
-    }
+  // Stop a single model's generation (or skip it if it hasn't started yet)
+  const stopModel = (model: string) => {
+    stoppedModelsRef.current.add(model);
+    abortControllersRef.current.get(model)?.abort();
+  };
 
-    // Create a new chat if none exists
-    let chatId = currentChatId;
-    if (!chatId) {
-      const newChat = await createChat(prompt.slice(0, 50) || "New Chat");
-      chatId = newChat.id;
-      setCurrentChatId(chatId);
-    }
+  // Stop every running generation and skip the models still waiting to start
+  const stopAll = () => {
+    selectedModels.forEach((model) => stoppedModelsRef.current.add(model));
+    abortControllersRef.current.forEach((controller) => controller.abort());
+  };
 
+  // Save a prompt as a child of the last prompt on `path` and send it to the
+  // selected models. Editing a prompt is the same thing with a shorter path,
+  // which forks a new branch next to the original.
+  const submitPrompt = async (
+    chatId: string,
+    prompt: string,
+    attachments: Attachment[] | undefined,
+    mode: GenerationMode,
+    format: OllamaFormat | undefined,
+    messages: Message[],
+    path: Message[]
+  ) => {
     // Clear previous responses
     clearResponses();
+    stoppedModelsRef.current.clear();
     setLoading(true);
 
-    // Save user message
-    if (chatId) {
-      await addMessage(chatId, "user", prompt, null, attachments);
+    // Ground the prompt in the active knowledge collection. The chunks are
+    // saved with it, so regenerations see the same sources.
+    let citations: Citation[] | undefined;
+    const { activeCollectionId } = useChatStore.getState();
+    const collection = activeCollectionId
+      ? await db.knowledge_collections.get(activeCollectionId)
+      : undefined;
+    if (collection) {
+      try {
+        const retrieved = await retrieveCitations(collection, prompt);
+        citations = retrieved.length > 0 ? retrieved : undefined;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        alert(`Couldn't search the "${collection.name}" collection: ${message}`);
+        setLoading(false);
+        return;
+      }
     }
 
-    // Extract image data from attachments for Ollama API
-    const imageAttachments =
-      attachments?.filter((att) => att.type === "image") || [];
-    const images = imageAttachments.map((att) => {
-      return att.data.includes(",") ? att.data.split(",")[1] : att.data;
+    // Save user message and make its branch the active one
+    const userMessage = await addMessage(chatId, "user", prompt, null, attachments, {
+      mode,
+      format,
+      citations,
+      parentId: path.length > 0 ? path[path.length - 1].id : null,
     });
+    await setActiveBranch(chatId, getBranchKey(userMessage), userMessage.id);
 
-    // Build conversation history for context
-    const { getChatMessages } = await import("@/lib/storage/db");
-    const currentMessages = await getChatMessages(chatId!);
+    // Images go to Ollama as base64; files and knowledge as text in front of the prompt
+    const images = getImageData(attachments);
+    const promptContent = toPromptContent(userMessage);
 
-    // Build conversation history, excluding the last user message we just added
-    const previousMessages = currentMessages.slice(0, -1);
+    // Build conversation history from the active branch only
     const conversationHistory: OllamaChatMessage[] = [
-      ...previousMessages
-        .filter((msg) => msg.role === "user" || msg.role === "assistant")
-        .map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        })),
+      ...toChatHistory(flattenBranch(messages, path)),
       {
         role: "user" as const,
-        content: prompt,
+        content: promptContent,
         images: images.length > 0 ? images : undefined,
       },
     ];
 
-    // Send to models sequentially (one at a time)
-    console.log(`[SendMessage] Starting sequential processing of ${selectedModels.length} model(s)`);
-    
-    for (let i = 0; i < selectedModels.length; i++) {
-      const model = selectedModels[i];
-      const isLastModel = i === selectedModels.length - 1;
-      
-      console.log(`[SendMessage] Starting model ${i + 1}/${selectedModels.length}: ${model}`);
-      
-      try {
-        await streamModelResponse(model, conversationHistory, chatId!, true);
-        console.log(`[SendMessage] Completed model ${i + 1}/${selectedModels.length}: ${model}`);
-        
-        if (isLastModel) {
-          console.log(`[SendMessage] Last model completed. Waiting for all responses to be marked done in store...`);
-          // Wait for store to actually have all responses marked as done: true
-          // This ensures the evaluation hook's useEffect can detect the change
-          const allDone = await waitForAllResponsesDone(selectedModels);
-          if (allDone) {
-            console.log(`[SendMessage] ✅ All responses confirmed done. Evaluation should trigger automatically.`);
-          } else {
-            console.log(`[SendMessage] ⚠️ Some responses may not be marked done yet, but proceeding anyway.`);
+    // Raw completions send the prompt verbatim, without chat history
+    const request: StreamRequest =
+      mode === "completion"
+        ? {
+            mode: "completion",
+            prompt: promptContent,
+            images: images.length > 0 ? images : undefined,
+            format,
           }
+        : { mode: "chat", messages: conversationHistory, format };
+
+    // Fan out to the selected models using the configured dispatch strategy.
+    // Each model streams into its own slot in the store, so the result is the
+    // same whether models run one at a time or side by side.
+    const dispatch = await getDispatchSettings();
+    const { modelHosts } = useChatStore.getState();
+    const total = selectedModels.length;
+    let completed = 0;
+
+    console.log(`[SendMessage] Starting ${dispatch.strategy} processing of ${total} model(s)`);
+
+    await dispatchWithLimits(
+      selectedModels,
+      async (model) => {
+        if (stoppedModelsRef.current.has(model)) {
+          console.log(`[SendMessage] Skipping stopped model: ${model}`);
+          addResponse(model, { model, content: "", done: true, truncated: true });
+          return;
         }
-      } catch (error) {
-        console.error(`[SendMessage] Error processing model ${model}:`, error);
-        // Continue with next model even if one fails
+        console.log(`[SendMessage] Starting model: ${model}`);
+        await streamModelResponse(model, request, chatId, userMessage.id, true);
+        completed++;
+        console.log(`[SendMessage] Completed model ${completed}/${total}: ${model}`);
+      },
+      {
+        limit: getConcurrencyLimit(dispatch),
+        getGroup: (model) => modelHosts[model] || DEFAULT_HOST_ID,
+        groupLimit: (hostId) => getHostLimit(dispatch, hostId),
       }
+    );
+
+    console.log(`[SendMessage] Last model completed. Waiting for all responses to be marked done in store...`);
+    // Wait for store to actually have all responses marked as done: true
+    // This ensures the evaluation hook's useEffect can detect the change
+    const allDone = await waitForAllResponsesDone(selectedModels);
+    if (allDone) {
+      console.log(`[SendMessage] ✅ All responses confirmed done. Evaluation should trigger automatically.`);
+    } else {
+      console.log(`[SendMessage] ⚠️ Some responses may not be marked done yet, but proceeding anyway.`);
     }
     
     console.log(`[SendMessage] All models processed. Setting loading to false.`);
     setLoading(false);
   };
 
+  const sendMessage = async (prompt: string, attachments?: Attachment[]) => {
+    if (selectedModels.length === 0) {
+      alert("Please select at least one model");
+      return;
+    }
+
+    // Create a new chat if none exists
+    let chatId = currentChatId;
+    if (!chatId) {
+      const { draftSystemPrompts, draftRubricId } = useChatStore.getState();
+      const newChat = await createChat(
+        prompt.slice(0, 50) || "New Chat",
+        draftSystemPrompts,
+        draftRubricId || undefined
+      );
+      chatId = newChat.id;
+      setCurrentChatId(chatId);
+    }
+
+    // Continue from the end of the active branch
+    const { messages, path } = await loadActivePath(chatId);
+    // A schema attached in the input bar applies to this prompt's responses
+    const { responseFormat } = useChatStore.getState();
+    await submitPrompt(
+      chatId,
+      prompt,
+      attachments,
+      generationMode,
+      responseFormat || undefined,
+      messages,
+      path
+    );
+  };
+
+  // Edit an earlier prompt: the edited copy becomes a sibling branch of the
+  // original, and the original branch stays available in the navigator
+  const editPrompt = async (message: Message, content: string) => {
+    if (!currentChatId) {
+      console.error("No current chat to edit");
+      return;
+    }
+    if (selectedModels.length === 0) {
+      alert("Please select at least one model");
+      return;
+    }
+
+    const { messages, path } = await loadActivePath(currentChatId);
+    const index = path.findIndex((msg) => msg.id === message.id);
+    if (index === -1) {
+      console.error("Edited message is not on the active branch");
+      return;
+    }
+
+    await submitPrompt(
+      currentChatId,
+      content,
+      message.attachments,
+      message.mode || "chat",
+      message.format,
+      messages,
+      path.slice(0, index)
+    );
+  };
+
   // Regenerate response for a specific model
   const regenerateModel = async (model: string) => {
     if (!currentChatId) {
@@ -231,47 +548,54 @@ export function useSendMessage() {
 
     setRegenerating(model, true);
     clearModelResponse(model);
+    stoppedModelsRef.current.delete(model);
 
     try {
-      const { getChatMessages, db } = await import("@/lib/storage/db");
-      const currentMessages = await getChatMessages(currentChatId);
-
-      // Find the last user message and remove the old response for this model
-      const lastUserMessageIndex = [...currentMessages]
-        .reverse()
-        .findIndex((msg) => msg.role === "user");
+      const { messages, path } = await loadActivePath(currentChatId);
 
-      if (lastUserMessageIndex === -1) {
+      // Regenerate the answer to the last prompt on the active branch
+      const lastUserMessage = path[path.length - 1];
+      if (!lastUserMessage) {
         console.error("No user message found");
         return;
       }
 
-      const actualIndex = currentMessages.length - 1 - lastUserMessageIndex;
-      const lastUserMessage = currentMessages[actualIndex];
-
-      // Find and delete the old response from this model
-      const oldResponse = currentMessages.find(
-        (msg, idx) =>
-          idx > actualIndex &&
-          msg.role === "assistant" &&
-          msg.model === model
-      );
-
-      if (oldResponse) {
-        await db.messages.delete(oldResponse.id);
-      }
+      // Scores in this turn were relative to the response being replaced
+      await clearTurnEvaluations(lastUserMessage.id);
 
+      // The previous response is kept as an older sibling of the new one.
       // Build conversation history up to (including) the last user message
-      const conversationHistory: OllamaChatMessage[] = currentMessages
-        .slice(0, actualIndex + 1)
-        .filter((msg) => msg.role === "user" || msg.role === "assistant")
-        .map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        }));
+      const conversationHistory: OllamaChatMessage[] = toChatHistory([
+        ...flattenBranch(messages, path.slice(0, -1)),
+        lastUserMessage,
+      ]);
+
+      const images = getImageData(lastUserMessage.attachments);
+      const request: StreamRequest =
+        lastUserMessage.mode === "completion"
+          ? {
+              mode: "completion",
+              prompt: toPromptContent(lastUserMessage),
+              images: images.length > 0 ? images : undefined,
+              format: lastUserMessage.format,
+            }
+          : { mode: "chat", messages: conversationHistory, format: lastUserMessage.format };
+
+      // Model hosts picked in the selector aren't persisted, so after a reload
+      // the new response goes to the host that answered last time
+      const previousResponse = [...messages]
+        .reverse()
+        .find((msg) => msg.role === "assistant" && msg.model === model && msg.hostId);
 
       // Stream the new response
-      await streamModelResponse(model, conversationHistory, currentChatId, true);
+      await streamModelResponse(
+        model,
+        request,
+        currentChatId,
+        lastUserMessage.id,
+        true,
+        previousResponse?.hostId
+      );
     } catch (error) {
       console.error("Error regenerating response:", error);
       addResponse(model, {
@@ -285,5 +609,5 @@ export function useSendMessage() {
     }
   };
 
-  return { sendMessage, regenerateModel };
+  return { sendMessage, editPrompt, regenerateModel, stopModel, stopAll };
 }
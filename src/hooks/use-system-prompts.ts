@@ -0,0 +1,64 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  db,
+  getSystemPrompts,
+  saveSystemPrompt,
+  deleteSystemPrompt,
+  updateChatSystemPrompts,
+} from "@/lib/storage/db";
+import { useChatStore } from "@/store/chat-store";
+import type { ChatSystemPrompts, SystemPromptRef } from "@/types";
+
+export function useSystemPrompts() {
+  const prompts = useLiveQuery(() => getSystemPrompts()) || [];
+
+  return {
+    prompts,
+    savePrompt: async (name: string, content: string, promptId?: string) => {
+      return await saveSystemPrompt(name, content, promptId);
+    },
+    deletePrompt: async (promptId: string) => {
+      await deleteSystemPrompt(promptId);
+    },
+  };
+}
+
+/**
+ * System prompts selected for the current chat. Before a chat exists the
+ * selection is kept as a draft and copied onto the chat when it's created.
+ */
+export function useChatSystemPrompts() {
+  const { currentChatId, draftSystemPrompts, setDraftSystemPrompts } =
+    useChatStore();
+  const chat = useLiveQuery(
+    () => (currentChatId ? db.chats.get(currentChatId) : undefined),
+    [currentChatId]
+  );
+  const systemPrompts: ChatSystemPrompts = currentChatId
+    ? chat?.systemPrompts || {}
+    : draftSystemPrompts;
+
+  const update = async (next: ChatSystemPrompts) => {
+    if (currentChatId) {
+      await updateChatSystemPrompts(currentChatId, next);
+    } else {
+      setDraftSystemPrompts(next);
+    }
+  };
+
+  return {
+    systemPrompts,
+    setGlobalPrompt: async (prompt?: SystemPromptRef) => {
+      await update({ ...systemPrompts, global: prompt });
+    },
+    setModelPrompt: async (model: string, prompt?: SystemPromptRef) => {
+      const perModel = { ...systemPrompts.perModel };
+      if (prompt) {
+        perModel[model] = prompt;
+      } else {
+        delete perModel[model];
+      }
+      await update({ ...systemPrompts, perModel });
+    },
+  };
+}
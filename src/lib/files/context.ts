@@ -0,0 +1,95 @@
+import type { Attachment, GenerationOptions } from "@/types";
+
+// How file attachments are put in front of the prompt, and the token budget
+// they're checked against. Token counts are estimates - the real count
+// depends on each model's tokenizer.
+
+// Ollama's context window when num_ctx isn't set
+export const DEFAULT_CONTEXT_TOKENS = 2048;
+
+// Per-file limits offered in the attachment preview
+export const FILE_TOKEN_LIMITS = [500, 1000, 2000, 4000, 8000, 16000];
+
+// About four characters per token for English text and code
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const formatTokenCount = (tokens: number) =>
+  tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+
+export interface FileContext {
+  name: string;
+  text: string; // after truncation
+  tokens: number;
+  totalTokens: number; // before truncation
+  truncated: boolean;
+}
+
+/**
+ * The text of a file attachment as it will be sent, cut to its token
+ * limit. Null for images and files without extracted text.
+ */
+export function getFileContext(attachment: Attachment): FileContext | null {
+  if (attachment.type !== "file" || !attachment.text) return null;
+
+  const totalTokens = estimateTokens(attachment.text);
+  const limit = attachment.maxTokens;
+  if (!limit || totalTokens <= limit) {
+    return {
+      name: attachment.name,
+      text: attachment.text,
+      tokens: totalTokens,
+      totalTokens,
+      truncated: false,
+    };
+  }
+  return {
+    name: attachment.name,
+    text: attachment.text.slice(0, limit * CHARS_PER_TOKEN),
+    tokens: limit,
+    totalTokens,
+    truncated: true,
+  };
+}
+
+export function getFileContexts(attachments?: Attachment[]): FileContext[] {
+  return (attachments || [])
+    .map(getFileContext)
+    .filter((file): file is FileContext => file !== null);
+}
+
+/**
+ * Prepend the text of attached files to a prompt, each wrapped in
+ * <file name="..."> tags so the model can tell them apart from the question
+ */
+export function withFileContext(prompt: string, attachments?: Attachment[]): string {
+  const files = getFileContexts(attachments);
+  if (files.length === 0) return prompt;
+
+  const blocks = files.map((file) => {
+    const name = file.name.replace(/"/g, "'");
+    const note = file.truncated
+      ? ` truncated="first ${file.tokens} of ~${file.totalTokens} tokens"`
+      : "";
+    return `<file name="${name}"${note}>\n${file.text}\n</file>`;
+  });
+  return `${blocks.join("\n\n")}\n\n${prompt}`;
+}
+
+/**
+ * The smallest context window among the models a prompt goes to, from
+ * their num_ctx option or Ollama's default
+ */
+export function getContextBudget(
+  models: string[],
+  modelOptions: Record<string, GenerationOptions>
+): { tokens: number; model?: string } {
+  return models.reduce<{ tokens: number; model?: string }>(
+    (smallest, model) => {
+      const tokens = modelOptions[model]?.num_ctx || DEFAULT_CONTEXT_TOKENS;
+      return tokens < smallest.tokens || !smallest.model ? { tokens, model } : smallest;
+    },
+    { tokens: DEFAULT_CONTEXT_TOKENS }
+  );
+}
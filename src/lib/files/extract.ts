@@ -0,0 +1,97 @@
+// Text extraction for file attachments, run in the browser when a file is
+// attached so its size in tokens is known before sending. PDFs are parsed
+// with pdf.js; text, markdown, code and data files are read as UTF-8.
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+const TEXT_MIME_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-yaml",
+  "application/yaml",
+  "application/toml",
+  "application/sql",
+  "application/x-sh",
+];
+
+const TEXT_EXTENSIONS = new Set([
+  // Prose and data
+  "txt", "md", "markdown", "mdx", "rst", "csv", "tsv", "json", "jsonl", "ndjson",
+  "xml", "yaml", "yml", "toml", "ini", "cfg", "conf", "env", "log", "sql", "tex",
+  // Code
+  "js", "jsx", "mjs", "cjs", "ts", "tsx", "py", "rb", "go", "rs", "java", "kt",
+  "kts", "scala", "c", "h", "cc", "cpp", "hpp", "cs", "swift", "m", "php", "pl",
+  "lua", "r", "dart", "ex", "exs", "erl", "hs", "clj", "sh", "bash", "zsh",
+  "fish", "ps1", "bat", "html", "htm", "css", "scss", "sass", "less", "vue",
+  "svelte", "astro", "graphql", "gql", "proto", "dockerfile", "makefile",
+  "gradle", "cmake", "tf", "nix", "zig", "sol", "ipynb",
+]);
+
+const extensionOf = (name: string) => {
+  const base = name.toLowerCase().split("/").pop() || "";
+  return base.includes(".") ? base.split(".").pop() || "" : base;
+};
+
+export const isPdfFile = (file: { name: string; type: string }) =>
+  file.type === "application/pdf" || extensionOf(file.name) === "pdf";
+
+export const isTextFile = (file: { name: string; type: string }) =>
+  file.type.startsWith("text/") ||
+  TEXT_MIME_TYPES.includes(file.type) ||
+  TEXT_EXTENSIONS.has(extensionOf(file.name));
+
+async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) })
+    .promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      pages.push(
+        items
+          .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+          .join("")
+          .trim()
+      );
+    }
+    return pages.filter(Boolean).join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extract a file's text. Throws for files that are too large, binary
+ * formats other than PDF, and PDFs without a text layer (scans).
+ */
+export async function extractFileText(file: File): Promise<string> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+  }
+
+  if (isPdfFile(file)) {
+    const text = await extractPdfText(file);
+    if (!text.trim()) {
+      throw new Error("PDF has no text layer (scanned pages aren't supported)");
+    }
+    return text;
+  }
+
+  if (!isTextFile(file)) {
+    throw new Error("Unsupported file type, only text, code and PDF files can be sent");
+  }
+  const text = await file.text();
+  if (text.includes("\u0000")) {
+    throw new Error("File looks binary, not text");
+  }
+  return text;
+}
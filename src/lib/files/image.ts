@@ -0,0 +1,136 @@
+// Preprocessing for image attachments, run in the browser when an image is
+// attached. Images are decoded (with their EXIF orientation applied), scaled
+// down to the configured size and re-encoded as JPEG or PNG, the formats every
+// Ollama vision model accepts. Phone photos shrink from megabytes to a few
+// hundred KB, which keeps request payloads and IndexedDB small.
+
+import type { ImageSettings } from "@/types";
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  maxDimension: 1024,
+};
+
+// Longest-side choices offered in settings; 0 keeps the original size
+export const IMAGE_MAX_DIMENSIONS = [512, 768, 1024, 1536, 2048, 0];
+
+const JPEG_QUALITY = 0.85;
+
+const HEIC_EXTENSIONS = ["heic", "heif"];
+
+const extensionOf = (name: string) => name.toLowerCase().split(".").pop() || "";
+
+// Browsers other than Safari report an empty type for HEIC files
+export const isHeicFile = (file: { name: string; type: string }) =>
+  /^image\/hei[cf]/.test(file.type) || HEIC_EXTENSIONS.includes(extensionOf(file.name));
+
+export const isImageFile = (file: { name: string; type: string }) =>
+  file.type.startsWith("image/") || isHeicFile(file);
+
+export interface ProcessedImage {
+  data: string; // data URL of the re-encoded image
+  mimeType: "image/jpeg" | "image/png";
+  size: number; // in bytes
+  width: number;
+  height: number;
+}
+
+/**
+ * Get the size to scale an image to so its longest side fits `maxDimension`.
+ * Images are never scaled up.
+ */
+export function fitDimensions(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!maxDimension || longest <= maxDimension) return { width, height };
+  const scale = maxDimension / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// createImageBitmap applies the EXIF orientation when asked to. Safari can
+// only decode HEIC through <img>, which applies the orientation by default.
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+const readAsDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Resize and re-encode an image attachment. PNGs and GIFs stay PNG so
+ * screenshots keep sharp text and transparency; everything else (JPEG,
+ * WebP, HEIC, ...) becomes JPEG. Throws when the browser can't decode it.
+ */
+export async function preprocessImage(
+  file: File,
+  settings: ImageSettings = DEFAULT_IMAGE_SETTINGS
+): Promise<ProcessedImage> {
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decodeImage(file);
+  } catch {
+    throw new Error(
+      isHeicFile(file)
+        ? "This browser can't decode HEIC images - convert it to JPEG first"
+        : "Could not decode the image"
+    );
+  }
+
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const { width, height } = fitDimensions(sourceWidth, sourceHeight, settings.maxDimension);
+  const mimeType = /^image\/(png|gif)$/.test(file.type) ? "image/png" : "image/jpeg";
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Could not process the image");
+  }
+  if (mimeType === "image/jpeg") {
+    // JPEG has no alpha, so transparent WebPs would otherwise turn black
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(source, 0, 0, width, height);
+  if ("close" in source) source.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mimeType, JPEG_QUALITY)
+  );
+  if (!blob) {
+    throw new Error("Could not encode the image");
+  }
+
+  return {
+    data: await readAsDataURL(blob),
+    mimeType,
+    size: blob.size,
+    width,
+    height,
+  };
+}
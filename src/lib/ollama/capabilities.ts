@@ -0,0 +1,69 @@
+import type { ModelCapabilities, OllamaModel, OllamaShowResponse } from "@/types";
+
+// Model families /api/tags reports for models with an image encoder
+const VISION_FAMILIES = ["clip", "mllama", "qwen2vl", "qwen25vl", "llama4", "gemma3", "mistral3"];
+
+/**
+ * Read what a model can do from its /api/show response. Ollama 0.6.4+ lists
+ * capabilities directly; for older servers they're guessed from the model's
+ * families, metadata and template.
+ */
+export function getModelCapabilities(show: OllamaShowResponse): ModelCapabilities {
+  const info = show.model_info || {};
+  const architecture = info["general.architecture"];
+  const contextLength = info[`${architecture}.context_length`];
+  const listed = show.capabilities;
+
+  const has = (capability: string, guess: () => boolean) =>
+    listed ? listed.includes(capability) : guess();
+
+  return {
+    completion: has("completion", () => !(`${architecture}.pooling_type` in info)),
+    vision: has("vision", () =>
+      (show.details?.families || []).some((family) => VISION_FAMILIES.includes(family))
+    ),
+    tools: has("tools", () => /\.Tools\b/.test(show.template || "")),
+    thinking: has("thinking", () => /\.Think/.test(show.template || "")),
+    embedding: has("embedding", () => `${architecture}.pooling_type` in info),
+    contextLength: typeof contextLength === "number" ? contextLength : undefined,
+    parameterSize: show.details?.parameter_size,
+    quantization: show.details?.quantization_level,
+  };
+}
+
+/**
+ * Whether a model can see images. Null when its capabilities aren't known,
+ * so callers don't warn about models they know nothing about. Without
+ * /api/show data this falls back to the families /api/tags reports.
+ */
+export function isVisionModel(model: OllamaModel | undefined): boolean | null {
+  if (model?.capabilities) return model.capabilities.vision;
+  const families = model?.details?.families;
+  if (!families) return null;
+  return families.some((family) => VISION_FAMILIES.includes(family));
+}
+
+/**
+ * Whether a model was trained for tool calling. Null when unknown.
+ */
+export function supportsTools(model: OllamaModel | undefined): boolean | null {
+  return model?.capabilities ? model.capabilities.tools : null;
+}
+
+// Models like nomic-embed-text only answer /api/embed, so they can't chat
+export const isEmbeddingOnlyModel = (model: OllamaModel) =>
+  !!model.capabilities?.embedding && !model.capabilities.completion;
+
+// Capabilities the model selector can filter on
+export const CAPABILITY_FILTERS = ["vision", "tools", "thinking"] as const;
+export type CapabilityFilter = (typeof CAPABILITY_FILTERS)[number];
+
+export const hasCapabilities = (model: OllamaModel, filters: CapabilityFilter[]) =>
+  filters.every((filter) => model.capabilities?.[filter]);
+
+/**
+ * Short context length label, e.g. 131072 -> "128k"
+ */
+export function formatContextLength(tokens: number): string {
+  return tokens >= 1024 ? `${Math.round(tokens / 1024)}k` : String(tokens);
+}
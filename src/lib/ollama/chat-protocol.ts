@@ -0,0 +1,102 @@
+import type { OllamaMetrics, ToolCallStep } from "@/types";
+
+// Wire protocol between /api/ollama/chat and useSendMessage. Events are sent
+// as Server-Sent Events; every event's data is one of the JSON objects below.
+// Bump the version on any breaking change so clients can detect a mismatch.
+export const CHAT_STREAM_VERSION = 1;
+
+export type ChatStreamEvent =
+  | { type: "start"; version: number; streamId: string; model: string }
+  // Tokens, thinking and tool calls share one index, counted from 0. It doubles
+  // as the SSE event id, so a client can resume from the last event it received.
+  | { type: "token"; index: number; content: string }
+  | { type: "thinking"; index: number; content: string }
+  | { type: "tool"; index: number; step: ToolCallStep }
+  | { type: "metrics"; metrics: OllamaMetrics; doneReason?: string }
+  | { type: "error"; message: string }
+  | { type: "done"; tokenCount: number; stopped?: boolean };
+
+// Events that are kept for replay when a client resumes
+export type ReplayableEvent = Extract<ChatStreamEvent, { index: number }>;
+
+/**
+ * Frame an event as SSE. Replayable events carry their index as the event id.
+ */
+export function formatSseEvent(event: ChatStreamEvent): string {
+  const id = "index" in event ? `id: ${event.index}\n` : "";
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// SSE comment line - ignored by parsers, keeps proxies from closing idle connections
+export const SSE_HEARTBEAT = ": heartbeat\n\n";
+
+interface SseMessage {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+function parseSseBlock(block: string): SseMessage | null {
+  const message: SseMessage = { data: "" };
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "data") data.push(value);
+    else if (field === "event") message.event = value;
+    else if (field === "id") message.id = value;
+  }
+
+  if (data.length === 0) return null;
+  message.data = data.join("\n");
+  return message;
+}
+
+/**
+ * Decode an SSE byte stream into chat events. Heartbeats are skipped and a
+ * payload that isn't valid JSON becomes an error event.
+ */
+export async function* decodeChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const toEvent = (message: SseMessage): ChatStreamEvent => {
+    try {
+      return JSON.parse(message.data);
+    } catch {
+      return {
+        type: "error",
+        message: `Malformed stream event: ${message.data.slice(0, 200)}`,
+      };
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || "";
+
+      for (const block of blocks) {
+        const message = parseSseBlock(block);
+        if (message) yield toEvent(message);
+      }
+    }
+
+    buffer += decoder.decode();
+    const message = parseSseBlock(buffer);
+    if (message) yield toEvent(message);
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  CHAT_STREAM_VERSION,
+  decodeChatStream,
+} from "@/lib/ollama/chat-protocol";
+import { readErrorMessage } from "@/lib/ollama/ndjson";
+import type { OllamaMetrics, ToolCallStep } from "@/types";
+
+// Browser side of the /api/ollama/chat SSE protocol. A dropped connection is
+// resumed from the last event received instead of failing the response.
+
+export type ChatStreamUpdate =
+  | { type: "token"; content: string }
+  | { type: "thinking"; content: string }
+  | { type: "tool"; step: ToolCallStep }
+  | { type: "done"; content: string; metrics: OllamaMetrics; doneReason?: string }
+  | { type: "error"; message: string };
+
+interface ChatStreamOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
+const CHAT_URL = "/api/ollama/chat";
+const RETRY_BASE_MS = 500;
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Start a streaming chat request and yield its tokens, thinking and tool calls. Network failures are
+ * retried by re-attaching to the same server-side stream; HTTP errors and
+ * upstream errors are not. Aborting the signal also cancels the generation
+ * on the server, and the abort error is thrown to the caller.
+ */
+export async function* openChatStream(
+  body: Record<string, unknown>,
+  { signal, maxRetries = 3 }: ChatStreamOptions = {}
+): AsyncGenerator<ChatStreamUpdate, void, unknown> {
+  // Choosing the id here lets Stop cancel the stream before it has started
+  const streamId = crypto.randomUUID();
+  const cancel = () => {
+    fetch(`${CHAT_URL}?streamId=${streamId}`, { method: "DELETE", keepalive: true }).catch(
+      () => {}
+    );
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  let nextIndex = 0;
+  let started = false;
+  let posted = false;
+  let attempt = 0;
+  let metrics: OllamaMetrics = {};
+  let doneReason: string | undefined;
+
+  const post = () => {
+    posted = true;
+    return fetch(CHAT_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal,
+      body: JSON.stringify({ ...body, stream: true, streamId }),
+    });
+  };
+
+  try {
+    while (true) {
+      let lastError: string;
+      try {
+        let response: Response;
+        if (!posted) {
+          response = await post();
+        } else {
+          response = await fetch(`${CHAT_URL}?streamId=${streamId}&from=${nextIndex}`, {
+            signal,
+          });
+          // The first attempt never reached the server - start over
+          if (response.status === 404 && !started) {
+            response = await post();
+          }
+        }
+
+        if (!response.ok) {
+          yield {
+            type: "error",
+            message:
+              response.status === 404
+                ? "Connection lost and the stream has expired"
+                : `Failed to generate: ${await readErrorMessage(response)}`,
+          };
+          return;
+        }
+        if (!response.body) {
+          throw new Error("Response body is not readable");
+        }
+
+        for await (const event of decodeChatStream(response.body)) {
+          switch (event.type) {
+            case "start":
+              if (event.version !== CHAT_STREAM_VERSION) {
+                yield {
+                  type: "error",
+                  message: `Unsupported chat stream version ${event.version} (expected ${CHAT_STREAM_VERSION})`,
+                };
+                return;
+              }
+              started = true;
+              break;
+            case "token":
+            case "thinking":
+            case "tool":
+              // Replayed events we already have are skipped
+              if (event.index < nextIndex) break;
+              nextIndex = event.index + 1;
+              attempt = 0;
+              yield event.type === "tool"
+                ? { type: "tool", step: event.step }
+                : { type: event.type, content: event.content };
+              break;
+            case "metrics":
+              metrics = event.metrics;
+              doneReason = event.doneReason;
+              break;
+            case "error":
+              yield { type: "error", message: event.message };
+              return;
+            case "done":
+              yield { type: "done", content: "", metrics, doneReason };
+              return;
+          }
+        }
+        lastError = "Stream closed before it finished";
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      // The connection dropped - back off and re-attach
+      if (attempt >= maxRetries) {
+        yield { type: "error", message: `Connection lost: ${lastError}` };
+        return;
+      }
+      attempt++;
+      await wait(RETRY_BASE_MS * 2 ** (attempt - 1), signal);
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
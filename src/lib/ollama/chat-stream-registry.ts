@@ -0,0 +1,194 @@
+import {
+  CHAT_STREAM_VERSION,
+  SSE_HEARTBEAT,
+  formatSseEvent,
+  type ChatStreamEvent,
+  type ReplayableEvent,
+} from "@/lib/ollama/chat-protocol";
+import type { ChatRunEvent } from "@/lib/tools/loop";
+
+// Generation runs independently of the HTTP response that started it, so a
+// client whose connection drops can re-attach and resume from the last event
+// it saw. Streams live in memory on this server instance only.
+
+// How long a generation keeps running with nobody attached before it's cancelled
+const RESUME_GRACE_MS = 30_000;
+// How long a finished stream can still be replayed
+const RETENTION_MS = 60_000;
+const HEARTBEAT_MS = 15_000;
+
+type Listener = (event: ChatStreamEvent) => void;
+
+interface ChatStream {
+  id: string;
+  model: string;
+  events: ReplayableEvent[]; // tokens, thinking and tool calls so far
+  tokenCount: number;
+  ending: ChatStreamEvent[]; // metrics / error / done, in order, once generation ends
+  finished: boolean;
+  listeners: Set<Listener>;
+  upstream: AbortController;
+  orphanTimer?: ReturnType<typeof setTimeout>;
+}
+
+const streams = new Map<string, ChatStream>();
+
+function emit(stream: ChatStream, event: ChatStreamEvent) {
+  stream.listeners.forEach((listener) => listener(event));
+}
+
+function finish(stream: ChatStream, events: ChatStreamEvent[]) {
+  if (stream.finished) return;
+  stream.finished = true;
+  stream.ending = events;
+  events.forEach((event) => emit(stream, event));
+  clearTimeout(stream.orphanTimer);
+  // Cleanup timers are unref'd so they never keep the process alive
+  setTimeout(() => streams.delete(stream.id), RETENTION_MS).unref();
+}
+
+/**
+ * Start pumping an Ollama chat stream into a new registry entry. Clients may
+ * choose the id up front so they can cancel before the first event arrives.
+ */
+export function startChatStream(
+  model: string,
+  source: AsyncIterable<ChatRunEvent>,
+  upstream: AbortController,
+  streamId: string = crypto.randomUUID()
+): string {
+  const stream: ChatStream = {
+    id: streamId,
+    model,
+    events: [],
+    tokenCount: 0,
+    ending: [],
+    finished: false,
+    listeners: new Set(),
+    upstream,
+  };
+  streams.set(stream.id, stream);
+
+  (async () => {
+    try {
+      for await (const event of source) {
+        if (event.type === "done") {
+          finish(stream, [
+            { type: "metrics", metrics: event.metrics },
+            { type: "done", tokenCount: stream.tokenCount },
+          ]);
+          continue;
+        }
+        const index = stream.events.length;
+        const replayable: ReplayableEvent =
+          event.type === "tool"
+            ? { type: "tool", index, step: event.step }
+            : { type: event.type, index, content: event.content };
+        if (event.type === "token") stream.tokenCount++;
+        stream.events.push(replayable);
+        emit(stream, replayable);
+      }
+      // Upstream closed without a final chunk
+      finish(stream, [{ type: "done", tokenCount: stream.tokenCount }]);
+    } catch (error) {
+      if (upstream.signal.aborted) {
+        finish(stream, [{ type: "done", tokenCount: stream.tokenCount, stopped: true }]);
+        return;
+      }
+      finish(stream, [
+        { type: "error", message: error instanceof Error ? error.message : String(error) },
+      ]);
+    }
+  })();
+
+  return stream.id;
+}
+
+export function hasChatStream(streamId: string): boolean {
+  return streams.has(streamId);
+}
+
+/**
+ * Stop a generation right away (the user pressed Stop)
+ */
+export function cancelChatStream(streamId: string): boolean {
+  const stream = streams.get(streamId);
+  if (!stream) return false;
+  stream.upstream.abort();
+  return true;
+}
+
+/**
+ * SSE response for a stream: a start event, every replayable event from
+ * `fromIndex` on, then live events until the stream ends. Heartbeats are sent while the
+ * model is quiet. When the client goes away the generation keeps running
+ * for a grace period so it can resume.
+ */
+export function createChatStreamResponse(
+  streamId: string,
+  fromIndex: number,
+  signal: AbortSignal
+): Response {
+  const stream = streams.get(streamId)!;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      const listener: Listener = (event) => {
+        write(formatSseEvent(event));
+        if (event.type === "done" || event.type === "error") {
+          cleanup();
+          controller.close();
+        }
+      };
+      const heartbeat = setInterval(() => write(SSE_HEARTBEAT), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        stream.listeners.delete(listener);
+        if (stream.listeners.size === 0 && !stream.finished) {
+          stream.orphanTimer = setTimeout(() => stream.upstream.abort(), RESUME_GRACE_MS).unref();
+        }
+      };
+      signal.addEventListener("abort", () => cleanup());
+
+      clearTimeout(stream.orphanTimer);
+      write(
+        formatSseEvent({
+          type: "start",
+          version: CHAT_STREAM_VERSION,
+          streamId: stream.id,
+          model: stream.model,
+        })
+      );
+
+      // Replay what the client missed, then follow along live
+      stream.events.slice(fromIndex).forEach((event) => write(formatSseEvent(event)));
+      if (stream.finished) {
+        stream.ending.forEach(listener);
+        return;
+      }
+      stream.listeners.add(listener);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Chat-Stream-Version": String(CHAT_STREAM_VERSION),
+    },
+  });
+}
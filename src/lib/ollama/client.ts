@@ -4,9 +4,53 @@ import type {
   OllamaGenerateRequest,
   OllamaGenerateResponse,
   OllamaChatRequest,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaPullProgress,
+  OllamaShowResponse,
+  OllamaRunningModel,
+  OllamaProcessResponse,
 } from "@/types";
+import { pickMetrics } from "@/lib/utils/metrics";
+import {
+  decodeNdjson,
+  decodeOllamaStream,
+  readErrorMessage,
+} from "@/lib/ollama/ndjson";
 
-const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+export const DEFAULT_OLLAMA_URL =
+  process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+
+/**
+ * Relay a chat or generate stream as OllamaGenerateResponse chunks.
+ * In-band {"error": ...} lines and malformed lines are thrown.
+ */
+async function* relayStream(
+  body: ReadableStream<Uint8Array>,
+  model: string
+): AsyncGenerator<OllamaGenerateResponse, void, unknown> {
+  for await (const event of decodeOllamaStream(body)) {
+    if (event.type === "error") {
+      throw new Error(event.message);
+    }
+    const base = {
+      model: event.chunk.model || model,
+      created_at: event.chunk.created_at || new Date().toISOString(),
+    };
+    if (event.type === "thinking") {
+      yield { ...base, response: "", thinking: event.content, done: false };
+      continue;
+    }
+    yield {
+      ...base,
+      response: event.content,
+      done: event.type === "done",
+      context: event.chunk.context,
+      tool_calls: event.chunk.message?.tool_calls,
+      ...(event.type === "done" ? event.metrics : {}),
+    };
+  }
+}
 
 export class OllamaClient {
   private baseUrl: string;
@@ -62,14 +106,17 @@ export class OllamaClient {
   }
 
   /**
-   * Generate a streaming response from a model
+   * Generate a streaming response from a model.
+   * Aborting the signal cancels the upstream request and stops generation.
    */
   async *generateStream(
-    request: OllamaGenerateRequest
+    request: OllamaGenerateRequest,
+    signal?: AbortSignal
   ): AsyncGenerator<OllamaGenerateResponse, void, unknown> {
     try {
       const response = await fetch(`${this.baseUrl}/api/generate`, {
         method: "POST",
+        signal,
         headers: {
           "Content-Type": "application/json",
         },
@@ -80,38 +127,18 @@ export class OllamaClient {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to generate stream: ${response.statusText}`);
+        throw new Error(`Failed to generate stream: ${await readErrorMessage(response)}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
+      if (!response.body) {
         throw new Error("Response body is not readable");
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const data: OllamaGenerateResponse = JSON.parse(line);
-              yield data;
-            } catch (e) {
-              console.error("Error parsing streaming response:", e);
-            }
-          }
-        }
-      }
+      yield* relayStream(response.body, request.model);
     } catch (error) {
-      console.error("Error generating stream:", error);
+      if (!signal?.aborted) {
+        console.error("Error generating stream:", error);
+      }
       throw error;
     }
   }
@@ -145,6 +172,7 @@ export class OllamaClient {
         response: data.message?.content || "",
         done: data.done !== undefined ? data.done : true,
         context: data.context,
+        ...pickMetrics(data),
       };
     } catch (error) {
       console.error("Error chatting:", error);
@@ -153,14 +181,17 @@ export class OllamaClient {
   }
 
   /**
-   * Stream chat responses from a model
+   * Stream chat responses from a model.
+   * Aborting the signal cancels the upstream request and stops generation.
    */
   async *chatStream(
-    request: OllamaChatRequest
+    request: OllamaChatRequest,
+    signal?: AbortSignal
   ): AsyncGenerator<OllamaGenerateResponse, void, unknown> {
     try {
       const response = await fetch(`${this.baseUrl}/api/chat`, {
         method: "POST",
+        signal,
         headers: {
           "Content-Type": "application/json",
         },
@@ -171,44 +202,148 @@ export class OllamaClient {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to chat stream: ${response.statusText}`);
+        throw new Error(`Failed to chat stream: ${await readErrorMessage(response)}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
+      if (!response.body) {
         throw new Error("Response body is not readable");
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const data = JSON.parse(line);
-              yield {
-                model: data.model || request.model,
-                created_at: data.created_at || new Date().toISOString(),
-                response: data.message?.content || "",
-                done: data.done !== undefined ? data.done : false,
-                context: data.context,
-              };
-            } catch (e) {
-              console.error("Error parsing streaming response:", e);
-            }
-          }
+      yield* relayStream(response.body, request.model);
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error("Error chatting stream:", error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Download a model, yielding progress updates as Ollama reports them.
+   * Aborting the signal cancels the download.
+   */
+  async *pullStream(
+    model: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<OllamaPullProgress, void, unknown> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/pull`, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, stream: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to pull model: ${await readErrorMessage(response)}`);
+      }
+
+      if (!response.body) {
+        throw new Error("Response body is not readable");
+      }
+
+      for await (const line of decodeNdjson<OllamaPullProgress>(response.body)) {
+        if (!line.ok) {
+          throw new Error(`Malformed pull progress: ${line.line.slice(0, 200)}`);
+        }
+        if (line.value.error) {
+          throw new Error(line.value.error);
         }
+        yield line.value;
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error("Error pulling model:", error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a model from the server
+   */
+  async deleteModel(model: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/delete`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete model: ${response.statusText}`);
       }
     } catch (error) {
-      console.error("Error chatting stream:", error);
+      console.error("Error deleting model:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a model's modelfile, template, parameters and license
+   */
+  async showModel(model: string): Promise<OllamaShowResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to show model: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("Error showing model:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Embed one or more texts. Returns one vector per input, in order.
+   */
+  async embed(request: OllamaEmbedRequest): Promise<OllamaEmbedResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to embed: ${await readErrorMessage(response)}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("Error embedding:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * List models currently loaded in memory
+   */
+  async listRunningModels(): Promise<OllamaRunningModel[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/ps`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch running models: ${response.statusText}`);
+      }
+      const data: OllamaProcessResponse = await response.json();
+      return data.models || [];
+    } catch (error) {
+      console.error("Error listing running models:", error);
       throw error;
     }
   }
@@ -243,6 +378,86 @@ export class OllamaClient {
   }
 }
 
-// Singleton instance
+// Singleton instance for the default host
 export const ollamaClient = new OllamaClient();
 
+// Routes accept a host from the request, so keep the per-host cache bounded
+const MAX_HOST_CLIENTS = 16;
+const hostClients = new Map<string, OllamaClient>();
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Hosts the API routes may proxy to. The routes fetch whatever URL the
+ * browser sends, so without a list anyone who can reach the app could use
+ * the server to probe its network. OLLAMA_ALLOWED_HOSTS is a comma-separated
+ * list of hostnames or host:port pairs (`*` allows any host); by default only
+ * localhost and the OLLAMA_BASE_URL host are allowed.
+ */
+function getAllowedHosts(): string[] {
+  const configured = process.env.OLLAMA_ALLOWED_HOSTS?.split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return [
+    ...LOCAL_HOSTNAMES,
+    new URL(DEFAULT_OLLAMA_URL).host.toLowerCase(),
+    ...(configured || []),
+  ];
+}
+
+/**
+ * Check a host passed to an API route. Empty values select the default host;
+ * anything else must be a plain http(s) URL without credentials, on a host in
+ * the allowlist.
+ */
+export function isValidHost(baseUrl: unknown): boolean {
+  if (baseUrl === undefined || baseUrl === null) return true;
+  if (typeof baseUrl !== "string") return false;
+  if (!baseUrl.trim()) return true;
+  try {
+    const url = new URL(baseUrl.trim());
+    if (
+      (url.protocol !== "http:" && url.protocol !== "https:") ||
+      url.username ||
+      url.password
+    ) {
+      return false;
+    }
+    const allowed = getAllowedHosts();
+    return (
+      allowed.includes("*") ||
+      allowed.includes(url.hostname.toLowerCase()) ||
+      allowed.includes(url.host.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get a client for a specific Ollama host, falling back to the default
+ * instance when no host (or an empty one) is given
+ */
+export function getOllamaClient(baseUrl?: string | null): OllamaClient {
+  if (!isValidHost(baseUrl)) {
+    throw new Error(`Invalid Ollama host: ${baseUrl}`);
+  }
+  const normalized = baseUrl?.trim().replace(/\/$/, "");
+  if (!normalized || normalized === ollamaClient.getBaseUrl()) {
+    return ollamaClient;
+  }
+
+  let client = hostClients.get(normalized);
+  if (client) {
+    // Re-insert so the map stays ordered by most recent use
+    hostClients.delete(normalized);
+  } else {
+    client = new OllamaClient(normalized);
+    if (hostClients.size >= MAX_HOST_CLIENTS) {
+      const oldest = hostClients.keys().next().value;
+      if (oldest !== undefined) hostClients.delete(oldest);
+    }
+  }
+  hostClients.set(normalized, client);
+  return client;
+}
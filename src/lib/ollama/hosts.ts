@@ -0,0 +1,47 @@
+import type { OllamaHost, OllamaModel, UserSettings } from "@/types";
+
+export const DEFAULT_HOST_ID = "default";
+
+// The default host has no URL of its own - the API routes fall back to the
+// server's configured Ollama URL (OLLAMA_BASE_URL or localhost)
+export const DEFAULT_HOST: OllamaHost = {
+  id: DEFAULT_HOST_ID,
+  name: "Default",
+  baseUrl: "",
+};
+
+/**
+ * Get every host known to the app, with the server default first
+ */
+export function getHostRegistry(settings?: UserSettings | null): OllamaHost[] {
+  return [DEFAULT_HOST, ...(settings?.hosts || [])];
+}
+
+/**
+ * Resolve a host id to the base URL passed to the API routes.
+ * Returns undefined for the default host so the server picks its own URL.
+ */
+export function resolveHostUrl(
+  hosts: OllamaHost[],
+  hostId?: string | null
+): string | undefined {
+  const host = hosts.find((h) => h.id === hostId);
+  return host?.baseUrl || undefined;
+}
+
+/**
+ * Normalize a user-entered host URL (adds a scheme, removes trailing slash)
+ */
+export function normalizeHostUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  if (!trimmed) return "";
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+/**
+ * Key a model by host and name, e.g. for select values - the same model
+ * name can be installed on several hosts
+ */
+export function getModelKey(model: OllamaModel): string {
+  return `${model.host || ""}|${model.name}`;
+}
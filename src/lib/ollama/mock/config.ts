@@ -0,0 +1,40 @@
+// Stand-in Ollama server for demos and deterministic testing without a GPU.
+// Configured entirely through environment variables, read per request so a
+// restarted dev server isn't needed between scenarios.
+
+// Model that always fails, to exercise error handling on demand
+export const MOCK_ERROR_MODEL = "mock-error:latest";
+
+const DEFAULT_MOCK_MODELS = ["mock-llama:8b", "mock-gemma:4b", "mock-judge:1b", "mock-embed:latest"];
+
+export type MockErrorMode = "http" | "stream";
+
+export interface MockOllamaConfig {
+  enabled: boolean;
+  models: string[]; // models listed by /api/tags at startup
+  latencyMs: number; // delay before the first byte of every response
+  tokenDelayMs: number; // delay between streamed tokens
+  errorRate: number; // 0-1 chance that a chat/generate request fails
+  errorMode: MockErrorMode; // fail with a 500, or with an {"error"} line mid-stream
+  fixturesDir?: string; // <model>.ndjson / <model>.txt files to replay instead of scripted replies
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value === undefined ? NaN : Number(value);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+export function getMockConfig(): MockOllamaConfig {
+  const env = process.env;
+  return {
+    enabled: env.OLLAMA_MOCK === "1" || env.OLLAMA_MOCK === "true",
+    models: env.OLLAMA_MOCK_MODELS
+      ? env.OLLAMA_MOCK_MODELS.split(",").map((m) => m.trim()).filter(Boolean)
+      : DEFAULT_MOCK_MODELS,
+    latencyMs: Math.max(0, readNumber(env.OLLAMA_MOCK_LATENCY_MS, 0)),
+    tokenDelayMs: Math.max(0, readNumber(env.OLLAMA_MOCK_TOKEN_DELAY_MS, 20)),
+    errorRate: Math.min(1, Math.max(0, readNumber(env.OLLAMA_MOCK_ERROR_RATE, 0))),
+    errorMode: env.OLLAMA_MOCK_ERROR_MODE === "http" ? "http" : "stream",
+    fixturesDir: env.OLLAMA_MOCK_FIXTURES_DIR || undefined,
+  };
+}
@@ -0,0 +1,42 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+export type MockFixture =
+  | { kind: "ndjson"; lines: string[] } // replayed verbatim, one line per token delay
+  | { kind: "text"; text: string }; // streamed like a scripted reply
+
+// Model names contain ":" and "/" which don't belong in file names
+const toFileName = (model: string) => model.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up a recorded response for a model: `<model>.<endpoint>.ndjson`,
+ * then `<model>.ndjson`, then `<model>.txt` (e.g. `llama3_8b.chat.ndjson`)
+ */
+export async function loadFixture(
+  fixturesDir: string,
+  model: string,
+  endpoint: "chat" | "generate"
+): Promise<MockFixture | null> {
+  const base = path.join(fixturesDir, toFileName(model));
+
+  for (const file of [`${base}.${endpoint}.ndjson`, `${base}.ndjson`]) {
+    const content = await readOptional(file);
+    if (content !== null) {
+      return {
+        kind: "ndjson",
+        lines: content.split("\n").filter((line) => line.trim()),
+      };
+    }
+  }
+
+  const text = await readOptional(`${base}.txt`);
+  return text !== null ? { kind: "text", text } : null;
+}
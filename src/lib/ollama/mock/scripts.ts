@@ -0,0 +1,302 @@
+// Scripted, deterministic replies for the mock server. The same model and
+// prompt always produce the same text, and judge prompts get valid JSON so
+// the evaluation flow can run end to end.
+
+import type {
+  JsonSchema,
+  OllamaChatMessage,
+  OllamaFormat,
+  OllamaTool,
+  OllamaToolCall,
+} from "@/types";
+
+const READABILITY = ["easy", "medium", "difficult", "technical"] as const;
+const CRITERIA = ["accuracy", "depth", "clarity", "structure", "relevance"];
+
+interface JudgeRubric {
+  scored: { key: string; min: number; max: number }[];
+  checks: string[];
+}
+
+// Criteria listed in the judge prompt's JSON shape, e.g. `"accuracy": 1-4`
+// and `"cites_sources": true | false`, so custom rubrics get matching keys
+function readRubric(prompt: string): JudgeRubric {
+  const scored = Array.from(
+    prompt.matchAll(/"(\w+)": (-?\d+(?:\.\d+)?)-(-?\d+(?:\.\d+)?)/g),
+    (match) => ({ key: match[1], min: Number(match[2]), max: Number(match[3]) })
+  ).filter((criterion, i, all) => all.findIndex((c) => c.key === criterion.key) === i);
+  const checks = Array.from(
+    new Set(Array.from(prompt.matchAll(/"(\w+)": true \| false/g), (match) => match[1]))
+  );
+
+  return {
+    scored: scored.length > 0 ? scored : CRITERIA.map((key) => ({ key, min: 1, max: 4 })),
+    checks,
+  };
+}
+
+// Small stable string hash (FNV-1a)
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Responses quoted in judge prompts as "Response 1 (model):\n...", or as
+// "Response A:\n..." in blind prompts, where the label stands in for the model
+function extractResponses(prompt: string): { model: string; content: string }[] {
+  const pattern =
+    /Response (\w+)(?: \((.+?)\))?:\n([\s\S]*?)(?=\n\nResponse \w+(?: \(.+?\))?:\n|\n\n[A-Z][A-Z ]+:|\n\nPlease provide|$)/g;
+  return Array.from(prompt.matchAll(pattern), (match) => ({
+    model: match[2] ?? match[1],
+    content: match[3].trim(),
+  }));
+}
+
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^[-*\d.\s]+/, "").trim())
+    .filter((s) => s.length > 3);
+}
+
+// Position of a score on its criterion's scale, from 0 to 1
+const normalize = (score: number, { min, max }: { min: number; max: number }) =>
+  (score - min) / (max - min || 1);
+
+function scoreEvaluation(seed: string, rubric: JudgeRubric, content: string) {
+  const h = hash(seed);
+  const parameterScores = Object.fromEntries(
+    rubric.scored.map(({ key, min, max }, i) => [
+      key,
+      min + (hash(`${h}:${key}:${i}`) % (Math.floor(max - min) + 1)),
+    ])
+  );
+  const scores = Object.values(parameterScores);
+  const keys = [...rubric.scored.map(({ key }) => key), ...rubric.checks];
+
+  // Flag one sentence against the lowest-scored criterion
+  const sentences = splitSentences(content);
+  const [weakest] = [...rubric.scored].sort(
+    (a, b) => normalize(parameterScores[a.key], a) - normalize(parameterScores[b.key], b)
+  );
+  const issues =
+    sentences.length > 0 && parameterScores[weakest.key] < weakest.max
+      ? [
+          {
+            criterion: weakest.key,
+            problem: "This could be more specific.",
+            quote: sentences[h % sentences.length],
+          },
+        ]
+      : [];
+
+  return {
+    readability: READABILITY[h % READABILITY.length],
+    parameterScores,
+    ...(rubric.checks.length > 0 && {
+      checks: Object.fromEntries(rubric.checks.map((key) => [key, hash(`${h}:${key}`) % 4 !== 0])),
+    }),
+    finalScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10,
+    rationales: Object.fromEntries(
+      keys.map((key) => [key, `Scripted rationale for ${key} (mock #${hash(`${h}:${key}`) % 1000}).`])
+    ),
+    issues,
+  };
+}
+
+
+function highlightFor(content: string) {
+  const sentences = splitSentences(content);
+  return {
+    similarSentences: sentences.slice(0, 1),
+    differentSentences: sentences.slice(1, 2),
+  };
+}
+
+function chatReply(model: string, prompt: string): string {
+  const h = hash(`${model}\n${prompt}`);
+  const topic = prompt.trim().split("\n")[0].slice(0, 80) || "your message";
+  const points = [
+    "The mock server streams this reply token by token.",
+    "Latency and token timing come from the OLLAMA_MOCK_* settings.",
+    "Replies are deterministic for the same model and prompt.",
+    "No GPU or Ollama install is required.",
+  ];
+  const count = 2 + (h % 3);
+
+  return [
+    `This is a scripted response from **${model}** to: "${topic}"`,
+    "",
+    ...points.slice(0, count).map((point) => `- ${point}`),
+    "",
+    `Reply #${h % 1000}.`,
+  ].join("\n");
+}
+
+/**
+ * Reply text for a prompt. Evaluation and highlight prompts (see
+ * response-evaluation.ts) are answered with JSON in the expected shape.
+ */
+export function scriptReply(model: string, prompt: string): string {
+  if (prompt.includes('"evaluations"')) {
+    const evaluations = Object.fromEntries(
+      extractResponses(prompt).map((r) => [
+        r.model,
+        scoreEvaluation(model + r.model + r.content, readRubric(prompt), r.content),
+      ])
+    );
+    return JSON.stringify({ evaluations }, null, 2);
+  }
+
+  if (prompt.includes('"highlights"')) {
+    const highlights = Object.fromEntries(
+      extractResponses(prompt).map((r) => [r.model, highlightFor(r.content)])
+    );
+    return JSON.stringify({ highlights }, null, 2);
+  }
+
+  if (prompt.includes('"parameterScores"')) {
+    const target = prompt.match(/RESPONSE TO EVALUATE(?: \(.+?\))?:\n([\s\S]*?)\n\nOTHER RESPONSES/);
+    return JSON.stringify(
+      scoreEvaluation(model + prompt, readRubric(prompt), target?.[1] || ""),
+      null,
+      2
+    );
+  }
+
+  if (prompt.includes('"similarSentences"')) {
+    const target = prompt.match(/TARGET RESPONSE \(.+?\):\n([\s\S]*?)\n\nOTHER RESPONSES/);
+    return JSON.stringify(highlightFor(target?.[1] || ""), null, 2);
+  }
+
+  return chatReply(model, prompt);
+}
+
+// A value that satisfies the common schema keywords, derived from the seed
+function sampleFromSchema(schema: JsonSchema, seed: number): unknown {
+  if (schema.enum?.length) return schema.enum[seed % schema.enum.length];
+  if ("const" in schema) return schema.const;
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case "object": {
+      const properties = schema.properties || {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, child], i) => [
+          key,
+          sampleFromSchema(child, hash(`${seed}:${key}:${i}`)),
+        ])
+      );
+    }
+    case "array": {
+      const min = typeof schema.minItems === "number" ? schema.minItems : 1;
+      const items = schema.items || { type: "string" };
+      return Array.from({ length: Math.max(min, 1 + (seed % 3)) }, (_, i) =>
+        sampleFromSchema(items, hash(`${seed}:${i}`))
+      );
+    }
+    case "integer":
+    case "number": {
+      const min = typeof schema.minimum === "number" ? schema.minimum : 0;
+      const max = typeof schema.maximum === "number" ? schema.maximum : min + 100;
+      const value = min + (seed % (Math.floor(max - min) + 1));
+      return type === "integer" ? Math.round(value) : value;
+    }
+    case "boolean":
+      return seed % 2 === 0;
+    case "null":
+      return null;
+    default:
+      return `sample ${seed % 1000}`;
+  }
+}
+
+/**
+ * Reply for a prompt sent with Ollama's `format`: judge prompts already
+ * produce JSON, anything else gets a sample value matching the schema
+ */
+export function scriptFormattedReply(
+  model: string,
+  prompt: string,
+  format: OllamaFormat
+): string {
+  const reply = scriptReply(model, prompt);
+  try {
+    JSON.parse(reply);
+    return reply;
+  } catch {
+    const h = hash(`${model}\n${prompt}`);
+    const schema: JsonSchema =
+      format === "json" ? { type: "object", properties: { answer: { type: "string" } } } : format;
+    return JSON.stringify(sampleFromSchema(schema, h), null, 2);
+  }
+}
+
+const EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Embedding for /api/embed: a normalized bag of hashed words, so texts that
+ * share words come out similar and retrieval behaves plausibly
+ */
+export function scriptEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+    vector[hash(word) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+}
+
+// Reasoning for requests sent with think: true, streamed before the reply
+export function scriptThinking(model: string, prompt: string): string {
+  const h = hash(`${model}\nthinking\n${prompt}`);
+  const topic = prompt.trim().split(/\s+/).slice(0, 8).join(" ");
+  return [
+    `The user wants to know about "${topic}".`,
+    `Let me consider ${2 + (h % 3)} angles before answering.`,
+    "I'll keep the answer short and check it once more.",
+  ].join(" ");
+}
+
+/**
+ * Pick a tool call for the last user message when tools are offered:
+ * arithmetic goes to the calculator, questions about the time or date to
+ * get_current_time, and questions about files to read_file. Once a tool has
+ * answered the model replies with text instead.
+ */
+export function scriptToolCall(
+  messages: OllamaChatMessage[],
+  tools: OllamaTool[] | undefined
+): OllamaToolCall | null {
+  const last = messages[messages.length - 1];
+  if (!tools?.length || last?.role !== "user") return null;
+  const offered = (name: string) => tools.some((tool) => tool.function.name === name);
+
+  const expression = last.content.match(/[\d(][\d\s.()]*(?:[-+*/^][\d\s.()]+)+/)?.[0];
+  if (expression && offered("calculator")) {
+    return { function: { name: "calculator", arguments: { expression: expression.trim() } } };
+  }
+  if (/\b(time|date|today)\b/i.test(last.content) && offered("get_current_time")) {
+    return { function: { name: "get_current_time", arguments: {} } };
+  }
+  if (/\b(files?|folder|documents?)\b/i.test(last.content) && offered("read_file")) {
+    return { function: { name: "read_file", arguments: { path: "." } } };
+  }
+  return null;
+}
+
+// Reply after a tool result: just report what the tool said
+export function toolResultReply(message: OllamaChatMessage): string {
+  return `The ${message.tool_name || "tool"} tool returned: ${message.content}`;
+}
+
+/**
+ * Split text into stream chunks, keeping whitespace attached to each word
+ */
+export function tokenize(text: string): string[] {
+  return text.match(/\s*\S+/g) || [];
+}
@@ -0,0 +1,353 @@
+import "fake-indexeddb/auto";
+import { after, before, beforeEach, describe, test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { createElement } from "react";
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+import { NextRequest } from "next/server";
+import { handleMockRequest } from "@/lib/ollama/mock/server";
+import { MOCK_ERROR_MODEL } from "@/lib/ollama/mock/config";
+import { DEFAULT_OLLAMA_URL } from "@/lib/ollama/client";
+import {
+  decodeOllamaStream,
+  readErrorMessage,
+  type OllamaStreamEvent,
+} from "@/lib/ollama/ndjson";
+import { openChatStream, type ChatStreamUpdate } from "@/lib/ollama/chat-stream-client";
+import { evaluateAllResponses } from "@/lib/utils/response-evaluation";
+import { useSendMessage } from "@/hooks/use-send-message";
+import { useChatStore } from "@/store/chat-store";
+import { db, getChatMessages } from "@/lib/storage/db";
+import { DEFAULT_RUBRIC, getScoredCriteria } from "@/lib/utils/rubrics";
+import * as chatRoute from "@/app/api/ollama/chat/route";
+import * as evaluationRoute from "@/app/api/evaluation/route";
+
+// Smoke tests that drive the app's streaming and evaluation code against the
+// mock Ollama server. fetch is routed in-process: the app's own API routes
+// for relative URLs, the mock for the Ollama host. useSendMessage saves
+// chats to IndexedDB, which fake-indexeddb provides.
+
+type RouteHandler = (request: NextRequest) => Promise<Response>;
+
+const APP_ROUTES: Record<string, Partial<Record<string, RouteHandler>>> = {
+  "/api/ollama/chat": chatRoute,
+  "/api/evaluation": evaluationRoute,
+};
+
+const realFetch = globalThis.fetch;
+
+async function routeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  const method = init?.method || "GET";
+
+  if (url.startsWith(DEFAULT_OLLAMA_URL)) {
+    const path = new URL(url).pathname.replace(/^\//, "");
+    return handleMockRequest(method, path, new Request(url, init));
+  }
+
+  const { pathname } = new URL(url, "http://localhost");
+  const handler = APP_ROUTES[pathname]?.[method];
+  if (!handler) {
+    throw new Error(`No route for ${method} ${url}`);
+  }
+  const { signal, ...rest } = init || {};
+  return handler(new NextRequest(new URL(url, "http://localhost"), { ...rest, signal: signal ?? undefined }));
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+const text = (events: Array<OllamaStreamEvent | ChatStreamUpdate>) =>
+  events.map((event) => ("content" in event ? event.content : "")).join("");
+
+// Mock settings are read per request, so a test can change them for its own run
+function setMockEnv(t: TestContext, env: Record<string, string>) {
+  const previous = Object.fromEntries(Object.keys(env).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  t.after(() => {
+    Object.entries(previous).forEach(([key, value]) => {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    });
+  });
+}
+
+async function chat(model: string, content: string) {
+  const response = await fetch(`${DEFAULT_OLLAMA_URL}/api/chat`, {
+    method: "POST",
+    body: JSON.stringify({ model, messages: [{ role: "user", content }], stream: true }),
+  });
+  return { response, events: response.ok ? await collect(decodeOllamaStream(response.body!)) : [] };
+}
+
+type SendMessageHook = ReturnType<typeof useSendMessage>;
+
+const Probe = ({ onRender }: { onRender: (hook: SendMessageHook) => void }) => {
+  onRender(useSendMessage());
+  return null;
+};
+
+// Mounts the hook with the given models selected. Sending goes through act()
+// since the store updates re-render the component.
+async function renderSendMessage(t: TestContext, models: string[]) {
+  useChatStore.setState({ selectedModels: models, currentChatId: null, currentResponses: {} });
+  let hook: SendMessageHook | undefined;
+  let renderer: ReactTestRenderer | undefined;
+  await act(async () => {
+    renderer = create(createElement(Probe, { onRender: (value) => (hook = value) }));
+  });
+  t.after(() => act(() => renderer!.unmount()));
+  return {
+    sendMessage: (prompt: string) => act(() => hook!.sendMessage(prompt)),
+  };
+}
+
+// The hook logs every step; keep the test output readable
+const quietConsole = (t: TestContext) => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "error", () => {});
+};
+
+const savedResponses = async () => {
+  const { currentChatId } = useChatStore.getState();
+  assert.ok(currentChatId, "the hook should have created a chat");
+  const messages = await getChatMessages(currentChatId);
+  return messages.filter((message) => message.role === "assistant");
+};
+
+before(() => {
+  process.env.OLLAMA_MOCK = "1";
+  process.env.OLLAMA_MOCK_TOKEN_DELAY_MS = "0";
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  globalThis.fetch = routeFetch as typeof fetch;
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe("mock Ollama streams", () => {
+  test("chat NDJSON decodes into tokens and a final done event", async () => {
+    const response = await fetch(`${DEFAULT_OLLAMA_URL}/api/chat`, {
+      method: "POST",
+      body: JSON.stringify({
+        model: "mock-llama:8b",
+        messages: [{ role: "user", content: "Hello there" }],
+        stream: true,
+      }),
+    });
+    assert.equal(response.status, 200);
+
+    const events = await collect(decodeOllamaStream(response.body!));
+    const done = events.at(-1);
+    assert.equal(done?.type, "done");
+    assert.ok(done?.type === "done" && done.metrics.eval_count);
+    assert.ok(events.some((event) => event.type === "token"));
+    assert.ok(text(events).trim().length > 0);
+  });
+
+  test("in-band errors surface as error events", async () => {
+    const response = await fetch(`${DEFAULT_OLLAMA_URL}/api/generate`, {
+      method: "POST",
+      body: JSON.stringify({ model: MOCK_ERROR_MODEL, prompt: "Hello", stream: true }),
+    });
+
+    assert.equal(response.status, 200);
+
+    const events = await collect(decodeOllamaStream(response.body!));
+    assert.equal(events.at(-1)?.type, "error");
+  });
+});
+
+describe("chat SSE protocol", () => {
+  test("openChatStream relays the mock's reply through /api/ollama/chat", async () => {
+    const events = await collect(
+      openChatStream({
+        model: "mock-llama:8b",
+        messages: [{ role: "user", content: "Tell me about rivers" }],
+        stream: true,
+      })
+    );
+
+    const done = events.at(-1);
+    assert.equal(done?.type, "done");
+    assert.ok(text(events.slice(0, -1)).trim().length > 0);
+  });
+
+  test("tool calls show up as tool events", async () => {
+    const events = await collect(
+      openChatStream({
+        model: "mock-llama:8b",
+        messages: [{ role: "user", content: "What is 12 * 7?" }],
+        stream: true,
+        tools: ["calculator"],
+      })
+    );
+
+    const tool = events.find((event) => event.type === "tool");
+    assert.ok(tool?.type === "tool");
+    assert.equal(tool.step.name, "calculator");
+    assert.equal(tool.step.result, "84");
+  });
+
+  test("a host that isn't an http(s) URL is rejected", async () => {
+    const events = await collect(
+      openChatStream({
+        model: "mock-llama:8b",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+        host: "file:///etc/passwd",
+      })
+    );
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "error");
+  });
+});
+
+describe("mock settings", () => {
+  test("latency delays the response and is reported as load time", async (t) => {
+    setMockEnv(t, { OLLAMA_MOCK_LATENCY_MS: "80" });
+    const startedAt = performance.now();
+    const { events } = await chat("mock-llama:8b", "Hello");
+
+    assert.ok(performance.now() - startedAt >= 75);
+    const done = events.at(-1);
+    assert.ok(done?.type === "done");
+    assert.equal(done.metrics.load_duration, 80e6);
+  });
+
+  test("token delay spaces out the streamed tokens", async (t) => {
+    setMockEnv(t, { OLLAMA_MOCK_TOKEN_DELAY_MS: "5" });
+    const { events } = await chat("mock-llama:8b", "Hello");
+
+    const done = events.at(-1);
+    assert.ok(done?.type === "done" && done.metrics.eval_count && done.metrics.eval_duration);
+    // Allow for timers firing a little early
+    assert.ok(done.metrics.eval_duration >= done.metrics.eval_count * 4e6);
+  });
+
+  test("an error rate of 1 fails every request mid-stream", async (t) => {
+    setMockEnv(t, { OLLAMA_MOCK_ERROR_RATE: "1" });
+    const { response, events } = await chat("mock-llama:8b", "Hello");
+
+    assert.equal(response.status, 200);
+    assert.ok(events.some((event) => event.type === "token"), "fails halfway, after some tokens");
+    assert.equal(events.at(-1)?.type, "error");
+  });
+
+  test("http error mode fails with a 500 instead", async (t) => {
+    setMockEnv(t, { OLLAMA_MOCK_ERROR_RATE: "1", OLLAMA_MOCK_ERROR_MODE: "http" });
+    const { response } = await chat("mock-llama:8b", "Hello");
+
+    assert.equal(response.status, 500);
+    assert.equal(await readErrorMessage(response), "mock server error");
+  });
+});
+
+describe("useSendMessage", () => {
+  beforeEach(async () => {
+    await Promise.all([db.chats.clear(), db.messages.clear()]);
+  });
+
+  test("streams every selected model's reply into the store and saves it", async (t) => {
+    quietConsole(t);
+    const models = ["mock-llama:8b", "mock-gemma:4b"];
+    const { sendMessage } = await renderSendMessage(t, models);
+    await sendMessage("Tell me about rivers");
+
+    const { currentResponses, isLoading } = useChatStore.getState();
+    assert.equal(isLoading, false);
+    for (const model of models) {
+      const response = currentResponses[model];
+      assert.ok(response?.done && !response.error, `${model} should have finished`);
+      assert.ok(response.content.trim().length > 0);
+      assert.ok(response.metrics?.eval_count);
+    }
+
+    const saved = await savedResponses();
+    // Sequential dispatch by default, so they're saved in the order selected
+    assert.deepEqual(saved.map(({ model }) => model), models);
+    saved.forEach((message) => {
+      assert.equal(message.content, currentResponses[message.model!].content);
+      assert.equal(message.hostId, "default");
+    });
+  });
+
+  test("keeps the partial reply and the error when the stream fails", async (t) => {
+    quietConsole(t);
+    const { sendMessage } = await renderSendMessage(t, [MOCK_ERROR_MODEL]);
+    await sendMessage("Hello");
+
+    const response = useChatStore.getState().currentResponses[MOCK_ERROR_MODEL];
+    assert.ok(response?.done);
+    assert.equal(response.error, "mock stream interrupted");
+    assert.ok(response.content.length > 0, "tokens before the error are kept");
+
+    const [saved] = await savedResponses();
+    assert.equal(saved.error, "mock stream interrupted");
+    assert.equal(saved.content, response.content);
+  });
+
+  test("reports an HTTP error without saving an empty reply", async (t) => {
+    quietConsole(t);
+    setMockEnv(t, { OLLAMA_MOCK_ERROR_RATE: "1", OLLAMA_MOCK_ERROR_MODE: "http" });
+    const { sendMessage } = await renderSendMessage(t, ["mock-llama:8b"]);
+    await sendMessage("Hello");
+
+    const response = useChatStore.getState().currentResponses["mock-llama:8b"];
+    assert.ok(response?.done);
+    assert.match(response.error || "", /mock server error/);
+    assert.deepEqual(await savedResponses(), []);
+  });
+
+  test("times the first token from when the request was sent", async (t) => {
+    quietConsole(t);
+    setMockEnv(t, { OLLAMA_MOCK_LATENCY_MS: "80" });
+    const { sendMessage } = await renderSendMessage(t, ["mock-llama:8b"]);
+    await sendMessage("Hello");
+
+    const { metrics } = useChatStore.getState().currentResponses["mock-llama:8b"];
+    assert.ok((metrics?.time_to_first_token ?? 0) >= 75);
+    assert.equal(metrics?.load_duration, 80e6);
+  });
+});
+
+describe("evaluation parsing", () => {
+  const request = {
+    userQuestion: "What is the capital of France?",
+    responses: [
+      { model: "mock-llama:8b", content: "The capital of France is Paris." },
+      { model: "mock-gemma:4b", content: "Paris is the capital and largest city of France." },
+    ],
+  };
+
+  const assertValid = (evaluations: Awaited<ReturnType<typeof evaluateAllResponses>>["evaluations"]) => {
+    for (const { model } of request.responses) {
+      const evaluation = evaluations[model];
+      assert.ok(evaluation, `missing evaluation for ${model}`);
+      for (const { key } of getScoredCriteria(DEFAULT_RUBRIC)) {
+        const score = evaluation.parameterScores[key];
+        assert.ok(score >= DEFAULT_RUBRIC.scaleMin && score <= DEFAULT_RUBRIC.scaleMax);
+      }
+      assert.ok(Number.isFinite(evaluation.finalScore));
+    }
+  };
+
+  test("batch evaluations are validated against the rubric", async () => {
+    const { evaluations } = await evaluateAllResponses(request, "mock-judge:1b", undefined, DEFAULT_RUBRIC);
+    assertValid(evaluations);
+  });
+
+  test("blind evaluations map labels back to model names", async () => {
+    const { evaluations } = await evaluateAllResponses(request, "mock-judge:1b", undefined, DEFAULT_RUBRIC, {
+      blind: true,
+      orderings: 2,
+    });
+    assertValid(evaluations);
+    assert.equal(evaluations["mock-llama:8b"].runs?.length, 2);
+  });
+});
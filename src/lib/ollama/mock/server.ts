@@ -0,0 +1,362 @@
+import { getMockConfig, MOCK_ERROR_MODEL, type MockOllamaConfig } from "./config";
+import { loadFixture } from "./fixtures";
+import {
+  scriptEmbedding,
+  scriptFormattedReply,
+  scriptThinking,
+  scriptReply,
+  scriptToolCall,
+  toolResultReply,
+  tokenize,
+} from "./scripts";
+import type {
+  OllamaChatMessage,
+  OllamaModel,
+  OllamaPullProgress,
+  OllamaToolCall,
+} from "@/types";
+
+const NDJSON_HEADERS = { "Content-Type": "application/x-ndjson" };
+const MOCK_MODEL_SIZE = 2_000_000_000;
+
+// Models added by /api/pull and removed by /api/delete, on top of the configured list
+const pulledModels = new Set<string>();
+const deletedModels = new Set<string>();
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+function listModelNames(config: MockOllamaConfig): string[] {
+  const names = new Set([...config.models, MOCK_ERROR_MODEL, ...pulledModels]);
+  return Array.from(names).filter((name) => !deletedModels.has(name));
+}
+
+// Capabilities follow the model name, so every kind of model can be mocked
+function mockCapabilities(name: string): string[] {
+  if (/embed/i.test(name)) return ["embedding"];
+  const capabilities = ["completion", "tools", "thinking"];
+  if (/gemma|llava|vision/i.test(name)) capabilities.push("vision");
+  return capabilities;
+}
+
+function toOllamaModel(name: string): OllamaModel {
+  return {
+    name,
+    modified_at: new Date(0).toISOString(),
+    size: MOCK_MODEL_SIZE,
+    digest: `mock-${name}`,
+    details: {
+      format: "gguf",
+      family: "mock",
+      families: mockCapabilities(name).includes("vision") ? ["mock", "clip"] : ["mock"],
+      parameter_size: name.match(/:(\d+(?:\.\d+)?b)$/i)?.[1].toUpperCase() || "1B",
+      quantization_level: "Q4_K_M",
+    },
+  };
+}
+
+// Text the scripted reply is based on: the last user message, or the raw prompt
+function getPromptText(body: { prompt?: string; messages?: OllamaChatMessage[] }): string {
+  if (body.prompt !== undefined) return body.prompt;
+  const userMessages = (body.messages || []).filter((m) => m.role === "user");
+  return userMessages[userMessages.length - 1]?.content || "";
+}
+
+/**
+ * Serve /api/chat and /api/generate: scripted or fixture text, streamed as
+ * NDJSON with Ollama's chunk shape and a final chunk carrying metrics
+ */
+async function handleCompletion(
+  endpoint: "chat" | "generate",
+  request: Request,
+  config: MockOllamaConfig
+): Promise<Response> {
+  const body = await request.json();
+  const model: string = body.model;
+  if (!model) {
+    return json({ error: "model is required" }, 400);
+  }
+  if (!listModelNames(config).includes(model)) {
+    return json({ error: `model "${model}" not found, try pulling it first` }, 404);
+  }
+
+  const shouldFail = model === MOCK_ERROR_MODEL || Math.random() < config.errorRate;
+  const startedAt = performance.now();
+  await sleep(config.latencyMs, request.signal);
+
+  if (shouldFail && config.errorMode === "http") {
+    return json({ error: "mock server error" }, 500);
+  }
+
+  const prompt = getPromptText(body);
+  const fixture = config.fixturesDir
+    ? await loadFixture(config.fixturesDir, model, endpoint)
+    : null;
+  const messages: OllamaChatMessage[] = endpoint === "chat" ? body.messages || [] : [];
+  const lastMessage = messages[messages.length - 1];
+  const toolCall = fixture ? null : scriptToolCall(messages, body.tools);
+  const tokens =
+    fixture?.kind === "ndjson" || toolCall
+      ? []
+      : tokenize(
+          fixture?.kind === "text"
+            ? fixture.text
+            : lastMessage?.role === "tool"
+              ? toolResultReply(lastMessage)
+              : body.format
+                ? scriptFormattedReply(model, prompt, body.format)
+                : scriptReply(model, prompt)
+        );
+
+  const thinkingTokens =
+    body.think === true && fixture?.kind !== "ndjson" && !toolCall
+      ? tokenize(scriptThinking(model, prompt))
+      : [];
+
+  const chunk = (
+    content: string,
+    done: boolean,
+    toolCalls?: OllamaToolCall[],
+    thinking?: string
+  ) => ({
+    model,
+    created_at: new Date().toISOString(),
+    ...(endpoint === "chat"
+      ? { message: { role: "assistant", content, thinking, tool_calls: toolCalls } }
+      : { response: content, thinking }),
+    done,
+  });
+
+  const metrics = (evalStartedAt: number) => {
+    const now = performance.now();
+    const toNs = (ms: number) => Math.round(ms * 1e6);
+    return {
+      done_reason: "stop",
+      total_duration: toNs(now - startedAt),
+      load_duration: toNs(config.latencyMs),
+      prompt_eval_count: tokenize(prompt).length,
+      prompt_eval_duration: toNs(Math.max(0, evalStartedAt - startedAt - config.latencyMs)),
+      eval_count: thinkingTokens.length + tokens.length,
+      eval_duration: toNs(now - evalStartedAt),
+    };
+  };
+
+  if (body.stream === false) {
+    if (shouldFail) {
+      return json({ error: "mock server error" }, 500);
+    }
+    const evalStartedAt = performance.now();
+    await sleep(config.tokenDelayMs * (thinkingTokens.length + tokens.length), request.signal);
+    return json({
+      ...chunk(
+        tokens.join(""),
+        true,
+        toolCall ? [toolCall] : undefined,
+        thinkingTokens.join("") || undefined
+      ),
+      ...metrics(evalStartedAt),
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: string) => controller.enqueue(encoder.encode(line + "\n"));
+      const evalStartedAt = performance.now();
+
+      if (fixture?.kind === "ndjson") {
+        for (const line of fixture.lines) {
+          if (request.signal.aborted) return;
+          send(line);
+          await sleep(config.tokenDelayMs, request.signal);
+        }
+        controller.close();
+        return;
+      }
+
+      // Ollama streams tool calls in a chunk of their own before the final one
+      if (toolCall) {
+        send(JSON.stringify(chunk("", false, [toolCall])));
+        await sleep(config.tokenDelayMs, request.signal);
+      }
+
+      // Thinking comes first, in chunks with empty content
+      for (const token of thinkingTokens) {
+        if (request.signal.aborted) return;
+        send(JSON.stringify(chunk("", false, undefined, token)));
+        await sleep(config.tokenDelayMs, request.signal);
+      }
+
+      // A failing stream stops halfway with Ollama's in-band error line
+      const failAt = shouldFail ? Math.floor(tokens.length / 2) : -1;
+      for (let i = 0; i < tokens.length; i++) {
+        if (request.signal.aborted) return;
+        if (i === failAt) {
+          send(JSON.stringify({ error: "mock stream interrupted" }));
+          controller.close();
+          return;
+        }
+        send(JSON.stringify(chunk(tokens[i], false)));
+        await sleep(config.tokenDelayMs, request.signal);
+      }
+      if (shouldFail && tokens.length === 0 && !toolCall) {
+        send(JSON.stringify({ error: "mock stream interrupted" }));
+      } else {
+        send(JSON.stringify({ ...chunk("", true), ...metrics(evalStartedAt) }));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { headers: NDJSON_HEADERS });
+}
+
+/**
+ * Serve /api/pull: fake layer download progress, then the model is listed
+ */
+async function handlePull(request: Request, config: MockOllamaConfig): Promise<Response> {
+  const body = await request.json();
+  const model: string = body.model || body.name;
+  if (!model) {
+    return json({ error: "model is required" }, 400);
+  }
+
+  const total = 100_000_000;
+  const steps = 10;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (progress: OllamaPullProgress) =>
+        controller.enqueue(encoder.encode(JSON.stringify(progress) + "\n"));
+
+      await sleep(config.latencyMs, request.signal);
+      send({ status: "pulling manifest" });
+      if (model === MOCK_ERROR_MODEL) {
+        send({ status: "error", error: "pull model manifest: file does not exist" });
+        controller.close();
+        return;
+      }
+
+      const digest = `sha256:mock-${model.replace(/[^a-z0-9]/gi, "")}`;
+      for (let step = 1; step <= steps; step++) {
+        if (request.signal.aborted) return;
+        send({ status: `pulling ${digest.slice(7, 19)}`, digest, total, completed: (total / steps) * step });
+        await sleep(config.tokenDelayMs * 5, request.signal);
+      }
+      send({ status: "verifying sha256 digest" });
+      send({ status: "writing manifest" });
+      pulledModels.add(model);
+      deletedModels.delete(model);
+      send({ status: "success" });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { headers: NDJSON_HEADERS });
+}
+
+/**
+ * Route a mock request. `path` is everything after the mock base URL,
+ * e.g. "api/chat".
+ */
+export async function handleMockRequest(
+  method: string,
+  path: string,
+  request: Request
+): Promise<Response> {
+  const config = getMockConfig();
+  if (!config.enabled) {
+    return json({ error: "Mock Ollama server is disabled, set OLLAMA_MOCK=1" }, 404);
+  }
+
+  switch (`${method} ${path}`) {
+    case "GET api/tags":
+      return json({ models: listModelNames(config).map(toOllamaModel) });
+
+    case "GET api/ps":
+      return json({
+        models: listModelNames(config)
+          .slice(0, 1)
+          .map((name) => ({
+            ...toOllamaModel(name),
+            model: name,
+            expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+            size_vram: MOCK_MODEL_SIZE,
+          })),
+      });
+
+    case "GET api/version":
+      return json({ version: "0.0.0-mock" });
+
+    case "POST api/chat":
+      return handleCompletion("chat", request, config);
+
+    case "POST api/generate":
+      return handleCompletion("generate", request, config);
+
+    case "POST api/embed": {
+      const { model, input } = await request.json();
+      if (!listModelNames(config).includes(model)) {
+        return json({ error: `model "${model}" not found, try pulling it first` }, 404);
+      }
+      const inputs: string[] = Array.isArray(input) ? input : [input];
+      return json({
+        model,
+        embeddings: inputs.map(scriptEmbedding),
+        prompt_eval_count: inputs.reduce((sum, text) => sum + tokenize(text).length, 0),
+      });
+    }
+
+    case "POST api/pull":
+      return handlePull(request, config);
+
+    case "POST api/show": {
+      const { model } = await request.json();
+      if (!listModelNames(config).includes(model)) {
+        return json({ error: `model "${model}" not found` }, 404);
+      }
+      return json({
+        modelfile: `# Mock modelfile\nFROM ${model}\nPARAMETER temperature 0.7`,
+        parameters: "temperature 0.7",
+        template: "{{ .Prompt }}",
+        license: "Mock license - for testing only",
+        details: toOllamaModel(model).details,
+        model_info: {
+          "general.architecture": "mock",
+          "mock.context_length": /embed/i.test(model) ? 2048 : 8192,
+        },
+        capabilities: mockCapabilities(model),
+      });
+    }
+
+    case "DELETE api/delete": {
+      const { model } = await request.json();
+      if (!listModelNames(config).includes(model)) {
+        return json({ error: `model "${model}" not found` }, 404);
+      }
+      pulledModels.delete(model);
+      deletedModels.add(model);
+      return new Response(null, { status: 200 });
+    }
+
+    default:
+      return json({ error: `Mock server does not handle ${method} /${path}` }, 404);
+  }
+}
@@ -0,0 +1,147 @@
+import { pickMetrics } from "@/lib/utils/metrics";
+import type { OllamaMetrics, OllamaToolCall } from "@/types";
+
+// Shared decoder for Ollama's newline-delimited JSON streams. Used by the
+// server-side client, the API routes and the browser hooks, so it must not
+// depend on anything server-only.
+
+export type NdjsonLine<T> =
+  | { ok: true; value: T }
+  | { ok: false; line: string; error: string };
+
+/**
+ * Split a byte stream into parsed JSON lines. A final line without a
+ * trailing newline is still decoded, and lines that aren't valid JSON are
+ * reported instead of dropped.
+ */
+export async function* decodeNdjson<T = unknown>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<NdjsonLine<T>, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (line: string): NdjsonLine<T> => {
+    try {
+      return { ok: true, value: JSON.parse(line) };
+    } catch (e) {
+      return { ok: false, line, error: String(e) };
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.trim()) yield parse(line);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield parse(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Raw chunk from /api/chat or /api/generate (or our routes that relay them)
+export interface OllamaStreamChunk extends Partial<OllamaMetrics> {
+  model?: string;
+  created_at?: string;
+  message?: {
+    role?: string;
+    content?: string;
+    thinking?: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  response?: string;
+  thinking?: string; // /api/generate puts thinking at the top level
+  done?: boolean;
+  done_reason?: string;
+  context?: number[];
+  error?: string;
+}
+
+export type OllamaStreamEvent =
+  | { type: "token"; content: string; chunk: OllamaStreamChunk }
+  // Reasoning from a model asked to think - comes before the answer
+  | { type: "thinking"; content: string; chunk: OllamaStreamChunk }
+  // The final chunk - may still carry a last piece of content
+  | {
+      type: "done";
+      content: string;
+      metrics: OllamaMetrics;
+      doneReason?: string;
+      chunk: OllamaStreamChunk;
+    }
+  // Ollama's in-band {"error": "..."} line, or a line that isn't valid JSON
+  | { type: "error"; message: string };
+
+/**
+ * Decode an Ollama chat/generate stream into typed events. A chunk's
+ * thinking is yielded as its own event ahead of its content; chunks with
+ * neither that aren't the final one are skipped.
+ */
+export async function* decodeOllamaStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<OllamaStreamEvent, void, unknown> {
+  for await (const line of decodeNdjson<OllamaStreamChunk>(body)) {
+    if (!line.ok) {
+      yield {
+        type: "error",
+        message: `Malformed stream line: ${line.line.slice(0, 200)}`,
+      };
+      continue;
+    }
+
+    const chunk = line.value;
+    if (chunk.error) {
+      yield { type: "error", message: chunk.error };
+      continue;
+    }
+
+    const thinking = chunk.message?.thinking || chunk.thinking;
+    if (thinking) {
+      yield { type: "thinking", content: thinking, chunk };
+    }
+
+    const content = chunk.message?.content || chunk.response || "";
+    if (chunk.done) {
+      yield {
+        type: "done",
+        content,
+        metrics: pickMetrics(chunk),
+        doneReason: chunk.done_reason,
+        chunk,
+      };
+    } else if (content || chunk.message?.tool_calls?.length) {
+      yield { type: "token", content, chunk };
+    }
+  }
+}
+
+/**
+ * Best-effort error message from a failed response: Ollama sends
+ * {"error": "..."}, our routes send {error, message}
+ */
+export async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const text = await response.text();
+    try {
+      const data = JSON.parse(text);
+      const message = [data.error, data.message].filter(Boolean).join(": ");
+      if (message) return message;
+    } catch {
+      if (text.trim()) return text.trim().slice(0, 500);
+    }
+  } catch {
+    // Body unreadable - fall back to the status
+  }
+  return response.statusText || `HTTP ${response.status}`;
+}
@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText } from "@/lib/rag/chunk";
+
+const paragraph = (word: string, count: number) => Array(count).fill(word).join(" ");
+
+describe("chunkText", () => {
+  test("keeps a short document in one chunk", () => {
+    assert.deepEqual(chunkText("First paragraph.\r\n\r\nSecond paragraph."), [
+      "First paragraph.\n\nSecond paragraph.",
+    ]);
+  });
+
+  test("drops blank paragraphs", () => {
+    assert.deepEqual(chunkText("\n\n  \n\nOnly this.\n\n\n"), ["Only this."]);
+    assert.deepEqual(chunkText(""), []);
+  });
+
+  test("splits at paragraph boundaries and stays within the size", () => {
+    const text = [paragraph("alpha", 10), paragraph("beta", 10), paragraph("gamma", 10)].join("\n\n");
+    const chunks = chunkText(text, 80, 0);
+    assert.deepEqual(chunks, [paragraph("alpha", 10), paragraph("beta", 10), paragraph("gamma", 10)]);
+  });
+
+  test("starts each chunk with the end of the previous one", () => {
+    const chunks = chunkText([paragraph("alpha", 10), paragraph("beta", 10)].join("\n\n"), 80, 20);
+    assert.equal(chunks.length, 2);
+    assert.ok(chunks[1].startsWith("alpha"), "overlap starts at a word boundary");
+    assert.ok(chunks[1].endsWith(paragraph("beta", 10)));
+  });
+
+  test("cuts an over-long paragraph at sentence ends", () => {
+    const sentence = "This sentence is exactly forty chars. ";
+    const chunks = chunkText(sentence.repeat(5).trim(), 100, 0);
+    assert.ok(chunks.length > 1);
+    chunks.forEach((chunk) => {
+      assert.ok(chunk.length <= 100);
+      assert.ok(chunk.endsWith("."));
+    });
+  });
+
+  test("cuts text without spaces at the size", () => {
+    const chunks = chunkText("x".repeat(250), 100, 0);
+    assert.deepEqual(chunks.map((chunk) => chunk.length), [100, 100, 50]);
+  });
+});
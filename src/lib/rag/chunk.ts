@@ -0,0 +1,51 @@
+// Splitting documents into chunks for embedding. Chunks follow paragraph
+// boundaries where possible and overlap a little, so a passage cut at a
+// boundary is still found whole in one of its neighbours.
+
+const CHUNK_SIZE = 1200; // characters, roughly 300 tokens
+const CHUNK_OVERLAP = 200;
+
+// Cut an over-long paragraph at sentence ends, or at spaces if it has none
+function splitLongParagraph(text: string, size: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    let cut = rest.lastIndexOf(". ", size);
+    if (cut < size / 2) cut = rest.lastIndexOf(" ", size);
+    cut = cut < size / 2 ? size : cut + 1;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+export function chunkText(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): string[] {
+  const pieces = text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      paragraph.length > size ? splitLongParagraph(paragraph, size) : [paragraph]
+    );
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > size) {
+      chunks.push(current);
+      // Start the next chunk with the end of this one, from a word boundary
+      current = overlap > 0 ? current.slice(-overlap).replace(/^\S*\s+/, "") : "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
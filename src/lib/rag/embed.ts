@@ -0,0 +1,37 @@
+// Browser-side embedding through our /api/ollama/embed route
+
+import { readErrorMessage } from "@/lib/ollama/ndjson";
+
+const EMBED_URL = "/api/ollama/embed";
+const EMBED_BATCH_SIZE = 16;
+
+/**
+ * Embed texts with an Ollama model through /api/ollama/embed, a batch at a
+ * time. `onProgress` gets the number of texts embedded so far.
+ */
+export async function embedTexts(
+  model: string,
+  texts: string[],
+  host?: string,
+  onProgress?: (done: number) => void
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+    const response = await fetch(EMBED_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: batch, host }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to embed: ${await readErrorMessage(response)}`);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== batch.length) {
+      throw new Error(`${model} did not return an embedding for every input`);
+    }
+    embeddings.push(...data.embeddings);
+    onProgress?.(embeddings.length);
+  }
+  return embeddings;
+}
@@ -0,0 +1,49 @@
+import { addKnowledgeDocument, getHosts } from "@/lib/storage/db";
+import { resolveHostUrl } from "@/lib/ollama/hosts";
+import { extractFileText } from "@/lib/files/extract";
+import { chunkText } from "@/lib/rag/chunk";
+import { embedTexts } from "@/lib/rag/embed";
+import type { KnowledgeChunk, KnowledgeCollection, KnowledgeDocument } from "@/types";
+
+/**
+ * Add a file to a collection: extract its text, split it into chunks and
+ * embed them with the collection's model. Nothing is stored unless every
+ * chunk was embedded. `onProgress` gets chunks embedded and the total.
+ */
+export async function ingestFile(
+  collection: KnowledgeCollection,
+  file: File,
+  onProgress?: (done: number, total: number) => void
+): Promise<KnowledgeDocument> {
+  const chunks = chunkText(await extractFileText(file));
+  if (chunks.length === 0) {
+    throw new Error("File has no text");
+  }
+
+  onProgress?.(0, chunks.length);
+  const host = resolveHostUrl(await getHosts(), collection.embeddingHost);
+  const embeddings = await embedTexts(collection.embeddingModel, chunks, host, (done) =>
+    onProgress?.(done, chunks.length)
+  );
+
+  const document: KnowledgeDocument = {
+    id: crypto.randomUUID(),
+    collectionId: collection.id,
+    name: file.name,
+    size: file.size,
+    chunkCount: chunks.length,
+    createdAt: Date.now(),
+  };
+  const records: KnowledgeChunk[] = chunks.map((text, index) => ({
+    id: crypto.randomUUID(),
+    collectionId: collection.id,
+    documentId: document.id,
+    documentName: file.name,
+    index,
+    text,
+    embedding: embeddings[index],
+  }));
+
+  await addKnowledgeDocument(document, records);
+  return document;
+}
@@ -0,0 +1,88 @@
+import { getHosts, getKnowledgeChunks } from "@/lib/storage/db";
+import { resolveHostUrl } from "@/lib/ollama/hosts";
+import { embedTexts } from "@/lib/rag/embed";
+import type { Citation, KnowledgeChunk, KnowledgeCollection } from "@/types";
+
+// Retrieval for knowledge collections: the prompt is embedded with the
+// collection's model, compared against every stored chunk, and the best
+// matches are put in front of the prompt as numbered sources.
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The `topK` chunks most similar to the query vector, best first
+ */
+export function rankChunks(
+  query: number[],
+  chunks: KnowledgeChunk[],
+  topK: number
+): Citation[] {
+  return chunks
+    .map((chunk) => ({ chunk, score: cosineSimilarity(query, chunk.embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ chunk, score }) => ({
+      chunkId: chunk.id,
+      documentName: chunk.documentName,
+      index: chunk.index,
+      text: chunk.text,
+      score,
+    }));
+}
+
+/**
+ * Find the chunks of a collection that best match a prompt
+ */
+export async function retrieveCitations(
+  collection: KnowledgeCollection,
+  prompt: string
+): Promise<Citation[]> {
+  const chunks = await getKnowledgeChunks(collection.id);
+  if (chunks.length === 0 || !prompt.trim()) return [];
+  const host = resolveHostUrl(await getHosts(), collection.embeddingHost);
+  const [query] = await embedTexts(collection.embeddingModel, [prompt], host);
+  return rankChunks(query, chunks, collection.topK);
+}
+
+/**
+ * Put retrieved chunks in front of a prompt as numbered sources the model
+ * is asked to cite as [1], [2]...
+ */
+export function withRetrievedContext(prompt: string, citations?: Citation[]): string {
+  if (!citations || citations.length === 0) return prompt;
+
+  const sources = citations.map(
+    (citation, i) =>
+      `[${i + 1}] ${citation.documentName} (part ${citation.index + 1})\n${citation.text}`
+  );
+  return [
+    "Answer using the sources below where they are relevant. Cite the sources you use as [1], [2] and so on. If they don't contain the answer, say so.",
+    sources.join("\n\n"),
+    `Question: ${prompt}`,
+  ].join("\n\n");
+}
+
+/**
+ * Source numbers a response cites, e.g. "[2]" or "[1, 3]", limited to the
+ * sources that were actually given
+ */
+export function getCitedSources(content: string, count: number): Set<number> {
+  const cited = new Set<number>();
+  for (const match of content.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const number of match[1].split(",").map((n) => parseInt(n, 10))) {
+      if (number >= 1 && number <= count) cited.add(number);
+    }
+  }
+  return cited;
+}
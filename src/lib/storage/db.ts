@@ -1,10 +1,43 @@
 import Dexie, { Table } from "dexie";
-import type { Chat, Message, UserSettings, Attachment } from "@/types";
+import { getHostRegistry } from "@/lib/ollama/hosts";
+import { DEFAULT_DISPATCH_SETTINGS } from "@/lib/utils/dispatch";
+import { DEFAULT_IMAGE_SETTINGS } from "@/lib/files/image";
+import { DEFAULT_JUDGE_SETTINGS } from "@/lib/utils/judge-panel";
+import type {
+  Chat,
+  Message,
+  UserSettings,
+  Attachment,
+  OllamaHost,
+  DispatchSettings,
+  ImageSettings,
+  JudgeSettings,
+  GenerationPreset,
+  GenerationOptions,
+  SystemPrompt,
+  ChatSystemPrompts,
+  KnowledgeCollection,
+  KnowledgeDocument,
+  KnowledgeChunk,
+  ResponseEvaluation,
+  HighlightAnalysis,
+  EvaluationRubric,
+  RubricDefinition,
+  CustomTool,
+  CustomToolDefinition,
+} from "@/types";
 
 export class MultiModalWebUIDB extends Dexie {
   chats!: Table<Chat>;
   messages!: Table<Message>;
   user_settings!: Table<UserSettings>;
+  generation_presets!: Table<GenerationPreset>;
+  system_prompts!: Table<SystemPrompt>;
+  knowledge_collections!: Table<KnowledgeCollection>;
+  knowledge_documents!: Table<KnowledgeDocument>;
+  knowledge_chunks!: Table<KnowledgeChunk>;
+  rubrics!: Table<EvaluationRubric>;
+  custom_tools!: Table<CustomTool>;
 
   constructor() {
     super("MultiModalWebUI");
@@ -14,19 +47,80 @@ export class MultiModalWebUIDB extends Dexie {
       messages: "id, chatId, createdAt, orderIndex, [chatId+orderIndex]",
       user_settings: "id",
     });
+
+    this.version(2).stores({
+      generation_presets: "id, name, createdAt",
+    });
+
+    this.version(3).stores({
+      system_prompts: "id, name, createdAt",
+    });
+
+    this.version(4)
+      .stores({
+        messages: "id, chatId, createdAt, orderIndex, parentId, [chatId+orderIndex]",
+      })
+      .upgrade(async (tx) => {
+        // Link existing linear chats into a tree: each prompt follows the
+        // previous prompt, and each response points at the prompt it answers
+        const messages: Message[] = await tx.table("messages").orderBy("orderIndex").toArray();
+        const lastPrompt = new Map<string, string>();
+        for (const message of messages) {
+          message.parentId = lastPrompt.get(message.chatId) || null;
+          if (message.role === "user") {
+            lastPrompt.set(message.chatId, message.id);
+          }
+        }
+        await tx.table("messages").bulkPut(messages);
+      });
+
+    this.version(5).stores({
+      knowledge_collections: "id, name, createdAt",
+      knowledge_documents: "id, collectionId, createdAt",
+      knowledge_chunks: "id, collectionId, documentId",
+    });
+
+    this.version(6).stores({
+      rubrics: "id, name, createdAt",
+    });
+
+    this.version(7).stores({
+      custom_tools: "id, name, createdAt",
+    });
   }
 }
 
 export const db = new MultiModalWebUIDB();
 
+// Optional message fields that don't belong in addMessage's positional args
+export type MessageExtras = Partial<
+  Omit<
+    Message,
+    | "id"
+    | "chatId"
+    | "role"
+    | "content"
+    | "model"
+    | "attachments"
+    | "createdAt"
+    | "orderIndex"
+  >
+>;
+
 // Helper functions
-export async function createChat(title: string): Promise<Chat> {
+export async function createChat(
+  title: string,
+  systemPrompts?: ChatSystemPrompts,
+  rubricId?: string
+): Promise<Chat> {
   const now = Date.now();
   const chat: Chat = {
     id: crypto.randomUUID(),
     title,
     createdAt: now,
     updatedAt: now,
+    systemPrompts,
+    rubricId,
   };
   await db.chats.add(chat);
   return chat;
@@ -37,35 +131,40 @@ export async function addMessage(
   role: "user" | "assistant",
   content: string,
   model: string | null = null,
-  attachments?: Attachment[]
+  attachments?: Attachment[],
+  extras?: MessageExtras
 ): Promise<Message> {
-  // Get the highest orderIndex for this chat
-  const existingMessages = await db.messages
-    .where("chatId")
-    .equals(chatId)
-    .sortBy("orderIndex");
-  const orderIndex =
-    existingMessages.length > 0
-      ? existingMessages[existingMessages.length - 1].orderIndex + 1
-      : 0;
+  // Read the highest orderIndex and add the message in one transaction, so
+  // responses from models running in parallel never get the same index
+  return await db.transaction("rw", db.chats, db.messages, async () => {
+    const existingMessages = await db.messages
+      .where("chatId")
+      .equals(chatId)
+      .sortBy("orderIndex");
+    const orderIndex =
+      existingMessages.length > 0
+        ? existingMessages[existingMessages.length - 1].orderIndex + 1
+        : 0;
 
-  const message: Message = {
-    id: crypto.randomUUID(),
-    chatId,
-    role,
-    content,
-    model,
-    attachments,
-    createdAt: Date.now(),
-    orderIndex,
-  };
+    const message: Message = {
+      id: crypto.randomUUID(),
+      chatId,
+      role,
+      content,
+      model,
+      attachments,
+      createdAt: Date.now(),
+      orderIndex,
+      ...extras,
+    };
 
-  await db.messages.add(message);
+    await db.messages.add(message);
 
-  // Update chat's updatedAt timestamp
-  await db.chats.update(chatId, { updatedAt: Date.now() });
+    // Update chat's updatedAt timestamp
+    await db.chats.update(chatId, { updatedAt: Date.now() });
 
-  return message;
+    return message;
+  });
 }
 
 export async function getChatMessages(chatId: string): Promise<Message[]> {
@@ -75,6 +174,47 @@ export async function getChatMessages(chatId: string): Promise<Message[]> {
     .sortBy("orderIndex");
 }
 
+export async function saveMessageEvaluation(
+  messageId: string,
+  evaluation: ResponseEvaluation
+): Promise<void> {
+  await db.messages.update(messageId, { evaluation });
+}
+
+export async function saveMessageHighlights(
+  messageId: string,
+  highlightAnalysis: HighlightAnalysis
+): Promise<void> {
+  await db.messages.update(messageId, { highlightAnalysis });
+}
+
+/**
+ * Drop the evaluations and highlights of every response to a prompt. Judges
+ * score responses against each other, so a new version makes them all stale.
+ */
+export async function clearTurnEvaluations(promptId: string): Promise<void> {
+  await db.messages
+    .where("parentId")
+    .equals(promptId)
+    .modify((message) => {
+      delete message.evaluation;
+      delete message.highlightAnalysis;
+    });
+}
+
+export async function setActiveBranch(
+  chatId: string,
+  branchKey: string,
+  messageId: string
+): Promise<void> {
+  await db.transaction("rw", db.chats, async () => {
+    const chat = await db.chats.get(chatId);
+    await db.chats.update(chatId, {
+      activeBranches: { ...chat?.activeBranches, [branchKey]: messageId },
+    });
+  });
+}
+
 export async function deleteChat(chatId: string): Promise<void> {
   await db.transaction("rw", db.chats, db.messages, async () => {
     await db.messages.where("chatId").equals(chatId).delete();
@@ -109,3 +249,243 @@ export async function updateUserSettings(
   await db.user_settings.update("default", updates);
 }
 
+
+export async function getHosts(): Promise<OllamaHost[]> {
+  const settings = await db.user_settings.get("default");
+  return getHostRegistry(settings);
+}
+
+export async function saveHosts(hosts: OllamaHost[]): Promise<void> {
+  await getOrCreateUserSettings();
+  await updateUserSettings({ hosts });
+}
+
+export async function getDispatchSettings(): Promise<DispatchSettings> {
+  const settings = await db.user_settings.get("default");
+  return { ...DEFAULT_DISPATCH_SETTINGS, ...settings?.dispatch };
+}
+
+export async function saveDispatchSettings(
+  updates: Partial<DispatchSettings>
+): Promise<void> {
+  const current = await getDispatchSettings();
+  await getOrCreateUserSettings();
+  await updateUserSettings({ dispatch: { ...current, ...updates } });
+}
+
+export async function getImageSettings(): Promise<ImageSettings> {
+  const settings = await db.user_settings.get("default");
+  return { ...DEFAULT_IMAGE_SETTINGS, ...settings?.images };
+}
+
+export async function saveImageSettings(
+  updates: Partial<ImageSettings>
+): Promise<void> {
+  const current = await getImageSettings();
+  await getOrCreateUserSettings();
+  await updateUserSettings({ images: { ...current, ...updates } });
+}
+
+export async function getJudgeSettings(): Promise<JudgeSettings> {
+  const settings = await db.user_settings.get("default");
+  return { ...DEFAULT_JUDGE_SETTINGS, ...settings?.judges };
+}
+
+export async function saveJudgeSettings(
+  updates: Partial<JudgeSettings>
+): Promise<void> {
+  const current = await getJudgeSettings();
+  await getOrCreateUserSettings();
+  await updateUserSettings({ judges: { ...current, ...updates } });
+}
+
+export async function getGenerationPresets(): Promise<GenerationPreset[]> {
+  return await db.generation_presets.orderBy("name").toArray();
+}
+
+export async function saveGenerationPreset(
+  name: string,
+  options: GenerationOptions
+): Promise<GenerationPreset> {
+  const preset: GenerationPreset = {
+    id: crypto.randomUUID(),
+    name,
+    options,
+    createdAt: Date.now(),
+  };
+  await db.generation_presets.add(preset);
+  return preset;
+}
+
+export async function deleteGenerationPreset(presetId: string): Promise<void> {
+  await db.generation_presets.delete(presetId);
+}
+
+export async function getSystemPrompts(): Promise<SystemPrompt[]> {
+  return await db.system_prompts.orderBy("name").toArray();
+}
+
+export async function saveSystemPrompt(
+  name: string,
+  content: string,
+  promptId?: string
+): Promise<SystemPrompt> {
+  const now = Date.now();
+  const existing = promptId ? await db.system_prompts.get(promptId) : undefined;
+  const prompt: SystemPrompt = {
+    id: existing?.id || crypto.randomUUID(),
+    name,
+    content,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  await db.system_prompts.put(prompt);
+  return prompt;
+}
+
+export async function deleteSystemPrompt(promptId: string): Promise<void> {
+  await db.system_prompts.delete(promptId);
+}
+
+export async function updateChatSystemPrompts(
+  chatId: string,
+  systemPrompts: ChatSystemPrompts
+): Promise<void> {
+  await db.chats.update(chatId, { systemPrompts });
+}
+
+export async function getRubrics(): Promise<EvaluationRubric[]> {
+  return await db.rubrics.orderBy("name").toArray();
+}
+
+export async function saveRubric(
+  definition: RubricDefinition,
+  rubricId?: string
+): Promise<EvaluationRubric> {
+  const now = Date.now();
+  const existing = rubricId ? await db.rubrics.get(rubricId) : undefined;
+  const rubric: EvaluationRubric = {
+    ...definition,
+    id: existing?.id || crypto.randomUUID(),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  await db.rubrics.put(rubric);
+  return rubric;
+}
+
+export async function deleteRubric(rubricId: string): Promise<void> {
+  await db.rubrics.delete(rubricId);
+}
+
+export async function getCustomTools(): Promise<CustomTool[]> {
+  return await db.custom_tools.orderBy("name").toArray();
+}
+
+export async function saveCustomTool(
+  definition: CustomToolDefinition,
+  toolId?: string
+): Promise<CustomTool> {
+  const now = Date.now();
+  const existing = toolId ? await db.custom_tools.get(toolId) : undefined;
+  const tool: CustomTool = {
+    ...definition,
+    id: existing?.id || crypto.randomUUID(),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  await db.custom_tools.put(tool);
+  return tool;
+}
+
+export async function deleteCustomTool(toolId: string): Promise<void> {
+  await db.custom_tools.delete(toolId);
+}
+
+export async function updateChatRubric(
+  chatId: string,
+  rubricId: string | undefined
+): Promise<void> {
+  await db.chats.update(chatId, { rubricId });
+}
+
+export async function getKnowledgeCollections(): Promise<KnowledgeCollection[]> {
+  return await db.knowledge_collections.orderBy("name").toArray();
+}
+
+export async function saveKnowledgeCollection(
+  name: string,
+  embeddingModel: string,
+  embeddingHost: string | undefined,
+  topK: number
+): Promise<KnowledgeCollection> {
+  const now = Date.now();
+  const collection: KnowledgeCollection = {
+    id: crypto.randomUUID(),
+    name,
+    embeddingModel,
+    embeddingHost,
+    topK,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.knowledge_collections.add(collection);
+  return collection;
+}
+
+export async function updateKnowledgeCollection(
+  collectionId: string,
+  updates: Partial<Pick<KnowledgeCollection, "name" | "topK">>
+): Promise<void> {
+  await db.knowledge_collections.update(collectionId, { ...updates, updatedAt: Date.now() });
+}
+
+export async function deleteKnowledgeCollection(collectionId: string): Promise<void> {
+  await db.transaction(
+    "rw",
+    db.knowledge_collections,
+    db.knowledge_documents,
+    db.knowledge_chunks,
+    async () => {
+      await db.knowledge_chunks.where("collectionId").equals(collectionId).delete();
+      await db.knowledge_documents.where("collectionId").equals(collectionId).delete();
+      await db.knowledge_collections.delete(collectionId);
+    }
+  );
+}
+
+export async function getKnowledgeDocuments(collectionId: string): Promise<KnowledgeDocument[]> {
+  return await db.knowledge_documents.where("collectionId").equals(collectionId).sortBy("createdAt");
+}
+
+/**
+ * Store a document with its embedded chunks in one go, so a failed upload
+ * never leaves a document without its chunks
+ */
+export async function addKnowledgeDocument(
+  document: KnowledgeDocument,
+  chunks: KnowledgeChunk[]
+): Promise<void> {
+  await db.transaction(
+    "rw",
+    db.knowledge_collections,
+    db.knowledge_documents,
+    db.knowledge_chunks,
+    async () => {
+      await db.knowledge_documents.add(document);
+      await db.knowledge_chunks.bulkAdd(chunks);
+      await db.knowledge_collections.update(document.collectionId, { updatedAt: Date.now() });
+    }
+  );
+}
+
+export async function deleteKnowledgeDocument(documentId: string): Promise<void> {
+  await db.transaction("rw", db.knowledge_documents, db.knowledge_chunks, async () => {
+    await db.knowledge_chunks.where("documentId").equals(documentId).delete();
+    await db.knowledge_documents.delete(documentId);
+  });
+}
+
+export async function getKnowledgeChunks(collectionId: string): Promise<KnowledgeChunk[]> {
+  return await db.knowledge_chunks.where("collectionId").equals(collectionId).toArray();
+}
@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { evaluateExpression } from "@/lib/tools/calculator";
+import { validateJsonSchema } from "@/lib/utils/json-schema";
+import type { CustomToolDefinition, OllamaToolCall, ToolCallStep } from "@/types";
+
+// Server-side implementations of the tools in ./definitions
+
+// read_file is confined to this folder and disabled when it isn't set
+const TOOLS_DIR = process.env.OLLAMA_TOOLS_DIR;
+const MAX_FILE_BYTES = 64 * 1024;
+const MAX_LISTED_ENTRIES = 200;
+
+type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Missing "${name}" argument`);
+  }
+  return value;
+};
+
+/**
+ * Resolve a model-supplied path inside the sandbox folder. Symlinks are
+ * resolved too, so a link can't point outside it.
+ */
+async function resolveSandboxPath(relativePath: string): Promise<string> {
+  if (!TOOLS_DIR) {
+    throw new Error("File reading is disabled (OLLAMA_TOOLS_DIR is not set)");
+  }
+  const root = await fs.realpath(TOOLS_DIR);
+  const inside = (target: string) =>
+    target === root || target.startsWith(root + path.sep);
+
+  const target = path.resolve(root, relativePath);
+  if (!inside(target)) {
+    throw new Error("Path is outside the shared folder");
+  }
+  let real: string;
+  try {
+    real = await fs.realpath(target);
+  } catch {
+    throw new Error(`No such file or directory: ${relativePath}`);
+  }
+  if (!inside(real)) {
+    throw new Error("Path is outside the shared folder");
+  }
+  return real;
+}
+
+const handlers: Record<string, ToolHandler> = {
+  calculator: async (args) => {
+    return String(evaluateExpression(stringArg(args, "expression")));
+  },
+
+  get_current_time: async (args) => {
+    const timeZone = typeof args.timezone === "string" && args.timezone.trim()
+      ? args.timezone.trim()
+      : undefined;
+    const now = new Date();
+    let local: string;
+    try {
+      local = now.toLocaleString("en-US", {
+        timeZone,
+        dateStyle: "full",
+        timeStyle: "long",
+      });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    return JSON.stringify({ iso: now.toISOString(), local, timezone: timeZone || "server" });
+  },
+
+  read_file: async (args) => {
+    const relativePath = stringArg(args, "path");
+    const target = await resolveSandboxPath(relativePath);
+    const stats = await fs.stat(target);
+
+    if (stats.isDirectory()) {
+      const entries = await fs.readdir(target, { withFileTypes: true });
+      const listing = entries
+        .slice(0, MAX_LISTED_ENTRIES)
+        .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name));
+      if (entries.length > MAX_LISTED_ENTRIES) {
+        listing.push(`... ${entries.length - MAX_LISTED_ENTRIES} more`);
+      }
+      return listing.join("\n") || "(empty directory)";
+    }
+
+    const handle = await fs.open(target, "r");
+    try {
+      const buffer = Buffer.alloc(Math.min(stats.size, MAX_FILE_BYTES));
+      await handle.read(buffer, 0, buffer.length, 0);
+      const text = buffer.toString("utf8");
+      if (text.includes("\u0000")) {
+        throw new Error("File is not a text file");
+      }
+      return stats.size > MAX_FILE_BYTES
+        ? `${text}\n\n[truncated: showing ${MAX_FILE_BYTES} of ${stats.size} bytes]`
+        : text;
+    } finally {
+      await handle.close();
+    }
+  },
+};
+
+// User-defined tools have no implementation: arguments that match the
+// tool's schema get its configured result
+const customHandler =
+  (tool: CustomToolDefinition): ToolHandler =>
+  async (args) => {
+    const violations = validateJsonSchema(args, tool.parameters, "arguments");
+    if (violations.length > 0) {
+      throw new Error(violations.map((v) => `${v.path}: ${v.message}`).join("; "));
+    }
+    return tool.result;
+  };
+
+/**
+ * Run a tool call from the model. Failures are recorded on the step rather
+ * than thrown, so the model can see the error and try again.
+ */
+export async function executeTool(
+  call: OllamaToolCall,
+  enabledTools: string[],
+  customTools: CustomToolDefinition[] = []
+): Promise<ToolCallStep> {
+  const { name } = call.function;
+  // Some models send arguments as a JSON string instead of an object
+  let args = call.function.arguments ?? {};
+  if (typeof args === "string") {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      args = {};
+    }
+  }
+
+  const startedAt = performance.now();
+  const step: ToolCallStep = { name, arguments: args, durationMs: 0 };
+  try {
+    const custom = customTools.find((tool) => tool.name === name);
+    const handler = Object.hasOwn(handlers, name)
+      ? handlers[name]
+      : custom && customHandler(custom);
+    if (!handler || !enabledTools.includes(name)) {
+      throw new Error(`Unknown tool "${name}"`);
+    }
+    step.result = await handler(args);
+  } catch (error) {
+    step.error = error instanceof Error ? error.message : String(error);
+  }
+  step.durationMs = performance.now() - startedAt;
+  return step;
+}
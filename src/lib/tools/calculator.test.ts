@@ -0,0 +1,41 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateExpression } from "@/lib/tools/calculator";
+
+describe("evaluateExpression", () => {
+  test("follows operator precedence and parentheses", () => {
+    assert.equal(evaluateExpression("2 + 3 * 4"), 14);
+    assert.equal(evaluateExpression("(2 + 3) * 4"), 20);
+    assert.equal(evaluateExpression("10 % 4 - 6 / 3"), 0);
+  });
+
+  test("powers are right-associative and bind tighter than unary minus", () => {
+    assert.equal(evaluateExpression("2 ^ 3 ^ 2"), 512);
+    assert.equal(evaluateExpression("2 ** 10"), 1024);
+    assert.equal(evaluateExpression("-2 ^ 2"), -4);
+    assert.equal(evaluateExpression("2 ^ -1"), 0.5);
+  });
+
+  test("knows constants and functions, case-insensitively", () => {
+    assert.equal(evaluateExpression("PI"), Math.PI);
+    assert.equal(evaluateExpression("sqrt(16) + abs(-2)"), 6);
+    assert.equal(evaluateExpression("max(1, 7, 3)"), 7);
+    assert.equal(evaluateExpression("log(1000)"), 3);
+    assert.equal(evaluateExpression("1.5e3 + .5"), 1500.5);
+  });
+
+  test("rejects anything that isn't arithmetic", () => {
+    assert.throws(() => evaluateExpression(""), /Empty expression/);
+    assert.throws(() => evaluateExpression("2 +"), /Unexpected end/);
+    assert.throws(() => evaluateExpression("(1 + 2"), /Expected "\)"/);
+    assert.throws(() => evaluateExpression("1 2"), /Unexpected "2"/);
+    assert.throws(() => evaluateExpression("2 & 3"), /Unexpected character "&"/);
+    assert.throws(() => evaluateExpression("constructor(1)"), /Unknown name "constructor"/);
+  });
+
+  test("rejects results that aren't finite and over-long input", () => {
+    assert.throws(() => evaluateExpression("1 / 0"), /not a finite number/);
+    assert.throws(() => evaluateExpression("sqrt(-1)"), /not a finite number/);
+    assert.throws(() => evaluateExpression("1+".repeat(300) + "1"), /too long/);
+  });
+});
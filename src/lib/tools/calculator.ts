@@ -0,0 +1,167 @@
+// Arithmetic for the calculator tool. Expressions come from the model, so
+// they're parsed by hand rather than handed to eval/Function.
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+};
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+)|([a-z_]+)|(\*\*|[-+*/%^(),]))/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(expression);
+    if (!match) {
+      const rest = expression.slice(start).trim();
+      if (!rest) break;
+      throw new Error(`Unexpected character "${rest[0]}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: "number", value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: "name", value: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: "op", value: match[3] === "**" ? "^" : match[3] });
+    else break;
+  }
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression. Throws on syntax errors, unknown names
+ * and results that aren't finite numbers.
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error("Expression is too long");
+  }
+
+  const tokens = tokenize(expression.toLowerCase());
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.type === "op" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[position++].value;
+      const right = parseTerm();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp("*") || isOp("/") || isOp("%")) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      value = op === "*" ? value * right : op === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power
+  const parseUnary = (): number => {
+    if (isOp("-")) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp("+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp("^")) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | name "(" args ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error("Unexpected end of expression");
+
+    if (token.type === "number") {
+      position++;
+      return token.value;
+    }
+
+    if (token.type === "name") {
+      position++;
+      // Own properties only, so names like "constructor" aren't resolved
+      if (Object.hasOwn(CONSTANTS, token.value) && !isOp("(")) {
+        return CONSTANTS[token.value];
+      }
+      const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new Error(`Unknown name "${token.value}"`);
+      expect("(");
+      const args = [parseExpression()];
+      while (isOp(",")) {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(")");
+      return fn(...args);
+    }
+
+    if (isOp("(")) {
+      position++;
+      const value = parseExpression();
+      expect(")");
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new Error("Empty expression");
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error("Result is not a finite number");
+  }
+  return result;
+}
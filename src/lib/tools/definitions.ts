@@ -0,0 +1,120 @@
+import { validateJsonSchema } from "@/lib/utils/json-schema";
+import type { CustomToolDefinition, JsonSchema, OllamaTool } from "@/types";
+
+// Built-in tools models can call in Chat mode. Only the definitions live
+// here so the browser can list them; they are executed server-side by
+// executeTool in ./builtins. Users can add their own tools next to these,
+// see CustomToolDefinition.
+
+export const BUILTIN_TOOLS: OllamaTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "calculator",
+      description:
+        "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, " +
+        "the constants pi and e, and sqrt, abs, round, floor, ceil, min, max, " +
+        "sin, cos, tan, log (base 10), ln and exp.",
+      parameters: {
+        type: "object",
+        properties: {
+          expression: {
+            type: "string",
+            description: "Expression to evaluate, e.g. (12.5 * 4) ^ 2 / sqrt(16)",
+          },
+        },
+        required: ["expression"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_current_time",
+      description: "Get the current date and time, optionally in a given IANA time zone.",
+      parameters: {
+        type: "object",
+        properties: {
+          timezone: {
+            type: "string",
+            description: "IANA time zone such as Europe/Paris. Defaults to the server's zone.",
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "read_file",
+      description:
+        "Read a text file from the shared documents folder, or list a directory " +
+        "inside it. Paths are relative to that folder; use \".\" to list its contents.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Relative path of the file or directory",
+          },
+        },
+        required: ["path"],
+      },
+    },
+  },
+];
+
+export const BUILTIN_TOOL_LABELS: Record<string, string> = {
+  calculator: "Calculator",
+  get_current_time: "Current time",
+  read_file: "Read files",
+};
+
+export const isBuiltinTool = (name: string) =>
+  BUILTIN_TOOLS.some((tool) => tool.function.name === name);
+
+// What Ollama accepts as a tool's parameters: an object schema whose
+// properties are schemas themselves
+const TOOL_PARAMETERS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { const: "object" },
+    properties: { type: "object", additionalProperties: { type: "object" } },
+    required: { type: "array", items: { type: "string" } },
+  },
+  required: ["type", "properties"],
+};
+
+/**
+ * Why a user-defined tool can't be offered to models, or null when it can
+ */
+export function getCustomToolError(tool: CustomToolDefinition): string | null {
+  if (!/^[A-Za-z_][\w-]{0,63}$/.test(tool.name)) {
+    return "Names use letters, digits, _ and - and start with a letter or _";
+  }
+  if (isBuiltinTool(tool.name)) return `"${tool.name}" is a built-in tool`;
+  if (!tool.description.trim()) return "Describe when the model should call it";
+  const [violation] = validateJsonSchema(tool.parameters, TOOL_PARAMETERS_SCHEMA, "parameters");
+  return violation ? `${violation.path}: ${violation.message}` : null;
+}
+
+export function toToolDefinition({ name, description, parameters }: CustomToolDefinition): OllamaTool {
+  return { type: "function", function: { name, description, parameters } };
+}
+
+/**
+ * Definitions for the given tool names, ignoring unknown ones. Custom tools
+ * with a built-in's name or an invalid schema are left out.
+ */
+export function getToolDefinitions(
+  names: string[] | undefined,
+  customTools: CustomToolDefinition[] = []
+): OllamaTool[] {
+  if (!names?.length) return [];
+  return [
+    ...BUILTIN_TOOLS.filter((tool) => names.includes(tool.function.name)),
+    ...customTools
+      .filter((tool) => names.includes(tool.name) && !getCustomToolError(tool))
+      .map(toToolDefinition),
+  ];
+}
@@ -0,0 +1,95 @@
+import { pickMetrics } from "@/lib/utils/metrics";
+import { getToolDefinitions } from "@/lib/tools/definitions";
+import { executeTool } from "@/lib/tools/builtins";
+import type { OllamaClient } from "@/lib/ollama/client";
+import type {
+  CustomToolDefinition,
+  OllamaChatMessage,
+  OllamaChatRequest,
+  OllamaMetrics,
+  OllamaToolCall,
+  ToolCallStep,
+} from "@/types";
+
+// Rounds of tool calls before the model has to answer without tools
+const MAX_TOOL_ROUNDS = 6;
+
+export type ChatRunEvent =
+  | { type: "token"; content: string }
+  | { type: "thinking"; content: string }
+  | { type: "tool"; step: ToolCallStep }
+  | { type: "done"; metrics: OllamaMetrics };
+
+// Token counts and durations add up across rounds
+function addMetrics(total: OllamaMetrics, next: OllamaMetrics): OllamaMetrics {
+  const sum = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : a + b;
+  return {
+    total_duration: sum(total.total_duration, next.total_duration),
+    load_duration: sum(total.load_duration, next.load_duration),
+    prompt_eval_count: sum(total.prompt_eval_count, next.prompt_eval_count),
+    prompt_eval_duration: sum(total.prompt_eval_duration, next.prompt_eval_duration),
+    eval_count: sum(total.eval_count, next.eval_count),
+    eval_duration: sum(total.eval_duration, next.eval_duration),
+  };
+}
+
+/**
+ * Stream a chat, running any tools the model calls and feeding their
+ * results back until it answers. Without tools this is a single round.
+ * `toolNames` picks from the built-ins and `customTools`.
+ */
+export async function* runChat(
+  client: OllamaClient,
+  request: Omit<OllamaChatRequest, "tools" | "stream">,
+  toolNames: string[] | undefined,
+  customTools: CustomToolDefinition[] | undefined,
+  signal?: AbortSignal
+): AsyncGenerator<ChatRunEvent, void, unknown> {
+  const tools = getToolDefinitions(toolNames, customTools);
+  const enabled = tools.map((tool) => tool.function.name);
+  const messages: OllamaChatMessage[] = [...request.messages];
+  let metrics: OllamaMetrics = {};
+
+  for (let round = 0; ; round++) {
+    // On the last round tools are withheld so the model has to answer
+    const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+    let content = "";
+    const calls: OllamaToolCall[] = [];
+
+    for await (const chunk of client.chatStream(
+      { ...request, messages, stream: true, tools: offerTools ? tools : undefined },
+      signal
+    )) {
+      if (chunk.thinking) {
+        yield { type: "thinking", content: chunk.thinking };
+      }
+      if (chunk.response) {
+        content += chunk.response;
+        yield { type: "token", content: chunk.response };
+      }
+      if (chunk.tool_calls) {
+        calls.push(...chunk.tool_calls);
+      }
+      if (chunk.done) {
+        metrics = addMetrics(metrics, pickMetrics(chunk));
+      }
+    }
+
+    if (calls.length === 0 || !offerTools) {
+      yield { type: "done", metrics };
+      return;
+    }
+
+    messages.push({ role: "assistant", content, tool_calls: calls });
+    for (const call of calls) {
+      const step = await executeTool(call, enabled, customTools);
+      yield { type: "tool", step };
+      messages.push({
+        role: "tool",
+        tool_name: step.name,
+        content: step.error ? `Error: ${step.error}` : step.result || "",
+      });
+    }
+  }
+}
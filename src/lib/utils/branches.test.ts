@@ -0,0 +1,74 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { flattenBranch, getActivePath } from "@/lib/utils/branches";
+import type { Message } from "@/types";
+
+let orderIndex = 0;
+
+const message = (
+  id: string,
+  role: Message["role"],
+  parentId: string | null,
+  model: string | null = null
+): Message => ({
+  id,
+  chatId: "chat",
+  role,
+  content: id,
+  model,
+  createdAt: orderIndex,
+  orderIndex: orderIndex++,
+  parentId,
+});
+
+// p1 ─┬─ p2  (edited into p2b)
+//     └─ p2b ── p3
+const messages: Message[] = [
+  message("p1", "user", null),
+  message("p1-llama", "assistant", "p1", "llama"),
+  message("p1-gemma", "assistant", "p1", "gemma"),
+  message("p2", "user", "p1"),
+  message("p2-llama", "assistant", "p2", "llama"),
+  message("p1-llama-v2", "assistant", "p1", "llama"),
+  message("p2b", "user", "p1"),
+  message("p2b-gemma", "assistant", "p2b", "gemma"),
+  message("p3", "user", "p2b"),
+];
+
+const ids = (path: Message[]) => path.map(({ id }) => id);
+
+describe("getActivePath", () => {
+  test("follows the newest prompt at every fork by default", () => {
+    assert.deepEqual(ids(getActivePath(messages)), ["p1", "p2b", "p3"]);
+  });
+
+  test("follows the selected branch", () => {
+    assert.deepEqual(ids(getActivePath(messages, { p1: "p2" })), ["p1", "p2"]);
+  });
+
+  test("falls back to the newest prompt when the selection is gone", () => {
+    assert.deepEqual(ids(getActivePath(messages, { p1: "deleted" })), ["p1", "p2b", "p3"]);
+  });
+
+  test("is empty for a chat without prompts", () => {
+    assert.deepEqual(getActivePath([]), []);
+  });
+});
+
+describe("flattenBranch", () => {
+  test("puts the newest response from each model after its prompt", () => {
+    const path = getActivePath(messages, { p1: "p2" });
+    assert.deepEqual(ids(flattenBranch(messages, path)), [
+      "p1",
+      "p1-gemma",
+      "p1-llama-v2",
+      "p2",
+      "p2-llama",
+    ]);
+  });
+
+  test("leaves out responses on other branches", () => {
+    const flat = ids(flattenBranch(messages, getActivePath(messages)));
+    assert.deepEqual(flat, ["p1", "p1-gemma", "p1-llama-v2", "p2b", "p2b-gemma", "p3"]);
+  });
+});
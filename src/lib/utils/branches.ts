@@ -0,0 +1,89 @@
+import type { Message } from "@/types";
+
+// Branch key for the first prompts of a chat, which have no parent
+export const ROOT_BRANCH_KEY = "root";
+
+/**
+ * Key shared by a prompt and all of its edited alternatives
+ */
+export function getBranchKey(message: Message): string {
+  return message.parentId || ROOT_BRANCH_KEY;
+}
+
+/**
+ * Prompts that fork from the same point as `message` (including itself), oldest first
+ */
+export function getSiblingPrompts(messages: Message[], message: Message): Message[] {
+  const branchKey = getBranchKey(message);
+  return messages.filter(
+    (msg) => msg.role === "user" && getBranchKey(msg) === branchKey
+  );
+}
+
+/**
+ * Walk the conversation tree from the first prompt, following the selected
+ * branch at each fork (or the newest one if none was picked).
+ * Returns the user prompts on the active path, in order.
+ */
+export function getActivePath(
+  messages: Message[],
+  activeBranches: Record<string, string> = {}
+): Message[] {
+  const promptsByBranch = new Map<string, Message[]>();
+  for (const message of messages) {
+    if (message.role !== "user") continue;
+    const branchKey = getBranchKey(message);
+    promptsByBranch.set(branchKey, [...(promptsByBranch.get(branchKey) || []), message]);
+  }
+
+  const path: Message[] = [];
+  let branchKey = ROOT_BRANCH_KEY;
+  let prompts = promptsByBranch.get(branchKey);
+  while (prompts && prompts.length > 0) {
+    const next =
+      prompts.find((msg) => msg.id === activeBranches[branchKey]) ||
+      prompts[prompts.length - 1];
+    path.push(next);
+    branchKey = next.id;
+    prompts = promptsByBranch.get(branchKey);
+  }
+  return path;
+}
+
+/**
+ * Every response to a prompt grouped by model, oldest first. Regenerating a
+ * response adds a new version instead of replacing the old one.
+ */
+export function getResponseVersions(messages: Message[], promptId: string): Map<string, Message[]> {
+  const versions = new Map<string, Message[]>();
+  for (const message of messages) {
+    if (message.role === "assistant" && message.parentId === promptId && message.model) {
+      versions.set(message.model, [...(versions.get(message.model) || []), message]);
+    }
+  }
+  return versions;
+}
+
+/**
+ * Newest response from each model to a prompt
+ */
+export function getLatestResponses(messages: Message[], promptId: string): Map<string, Message> {
+  const responses = new Map<string, Message>();
+  getResponseVersions(messages, promptId).forEach((versions, model) => {
+    responses.set(model, versions[versions.length - 1]);
+  });
+  return responses;
+}
+
+/**
+ * Flatten a path of prompts into conversation history: each prompt followed
+ * by the newest response from every model that answered it
+ */
+export function flattenBranch(messages: Message[], path: Message[]): Message[] {
+  return path.flatMap((prompt) => [
+    prompt,
+    ...Array.from(getLatestResponses(messages, prompt.id).values()).sort(
+      (a, b) => a.orderIndex - b.orderIndex
+    ),
+  ]);
+}
@@ -0,0 +1,98 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { dispatchWithLimits, getConcurrencyLimit, getHostLimit } from "@/lib/utils/dispatch";
+
+interface Job {
+  name: string;
+  host: string;
+}
+
+const jobs: Job[] = [
+  { name: "a", host: "gpu" },
+  { name: "b", host: "gpu" },
+  { name: "c", host: "cpu" },
+  { name: "d", host: "gpu" },
+  { name: "e", host: "cpu" },
+];
+
+// Runs the jobs, each resolving on a later tick, and records the start order
+// and the most jobs seen in flight overall and per host
+async function run(limit: number, hostLimit: number, fail: string[] = []) {
+  const started: string[] = [];
+  const inFlight = new Map<string, number>();
+  let active = 0;
+  let peak = 0;
+  const peakByHost = new Map<string, number>();
+
+  await dispatchWithLimits(
+    jobs,
+    async ({ name, host }) => {
+      started.push(name);
+      active++;
+      inFlight.set(host, (inFlight.get(host) || 0) + 1);
+      peak = Math.max(peak, active);
+      peakByHost.set(host, Math.max(peakByHost.get(host) || 0, inFlight.get(host)!));
+
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      inFlight.set(host, inFlight.get(host)! - 1);
+      if (fail.includes(name)) throw new Error(`${name} failed`);
+    },
+    { limit, getGroup: (job) => job.host, groupLimit: () => hostLimit }
+  );
+
+  return { started, peak, peakByHost };
+}
+
+describe("dispatchWithLimits", () => {
+  test("runs one at a time in order with a limit of 1", async () => {
+    const { started, peak } = await run(1, 1);
+    assert.deepEqual(started, ["a", "b", "c", "d", "e"]);
+    assert.equal(peak, 1);
+  });
+
+  test("keeps within the overall and per-group limits", async () => {
+    const { started, peak, peakByHost } = await run(3, 1);
+    assert.equal(peak, 2);
+    assert.equal(peakByHost.get("gpu"), 1);
+    assert.equal(peakByHost.get("cpu"), 1);
+    // c jumps ahead of b, which waits for the gpu
+    assert.deepEqual(started.slice(0, 2), ["a", "c"]);
+    assert.equal(started.length, jobs.length);
+  });
+
+  test("runs everything at once when nothing limits it", async () => {
+    const { peak } = await run(Infinity, Infinity);
+    assert.equal(peak, jobs.length);
+  });
+
+  test("keeps going when a worker fails", async (t) => {
+    t.mock.method(console, "error", () => {});
+    const { started } = await run(2, 2, ["a", "c"]);
+    assert.equal(started.length, jobs.length);
+  });
+
+  test("resolves immediately with no items", async () => {
+    await dispatchWithLimits([], async () => assert.fail("no items to run"), {
+      limit: 1,
+      getGroup: () => "",
+      groupLimit: () => 1,
+    });
+  });
+});
+
+describe("dispatch limits", () => {
+  test("map strategies to an overall limit", () => {
+    assert.equal(getConcurrencyLimit({ strategy: "sequential", concurrency: 4 }), 1);
+    assert.equal(getConcurrencyLimit({ strategy: "parallel", concurrency: 4 }), Infinity);
+    assert.equal(getConcurrencyLimit({ strategy: "bounded", concurrency: 2.7 }), 2);
+    assert.equal(getConcurrencyLimit({ strategy: "bounded", concurrency: 0 }), 1);
+  });
+
+  test("cap hosts at their loaded-model limit unless sequential", () => {
+    const settings = { strategy: "parallel" as const, concurrency: 2, hostLimits: { gpu: 5 } };
+    assert.equal(getHostLimit(settings, "gpu"), 5);
+    assert.equal(getHostLimit(settings, "other"), 3);
+    assert.equal(getHostLimit({ ...settings, strategy: "sequential" }, "gpu"), 1);
+  });
+});
@@ -0,0 +1,93 @@
+import type { DispatchSettings } from "@/types";
+
+// Ollama's default OLLAMA_MAX_LOADED_MODELS (per GPU, or for CPU inference)
+export const DEFAULT_MAX_LOADED_MODELS = 3;
+
+export const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = {
+  strategy: "sequential",
+  concurrency: 2,
+};
+
+interface DispatchOptions<T> {
+  limit: number; // max items in flight overall
+  getGroup: (item: T) => string; // e.g. the host an item runs on
+  groupLimit: (group: string) => number; // max items in flight per group
+}
+
+/**
+ * Get the overall number of models allowed in flight for a strategy
+ */
+export function getConcurrencyLimit(settings: DispatchSettings): number {
+  switch (settings.strategy) {
+    case "parallel":
+      return Infinity;
+    case "bounded":
+      return Math.max(1, Math.floor(settings.concurrency) || 1);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Get how many models may run at once on a single host. Sequential dispatch
+ * never overlaps; otherwise the host's configured loaded-model limit applies.
+ */
+export function getHostLimit(settings: DispatchSettings, hostId: string): number {
+  if (settings.strategy === "sequential") return 1;
+  return Math.max(
+    1,
+    settings.hostLimits?.[hostId] ?? DEFAULT_MAX_LOADED_MODELS
+  );
+}
+
+/**
+ * Run a worker for every item, respecting an overall concurrency limit and a
+ * per-group limit. Items start in order as soon as both limits allow it.
+ * Worker failures are logged and don't stop the remaining items.
+ */
+export function dispatchWithLimits<T>(
+  items: T[],
+  worker: (item: T) => Promise<unknown>,
+  { limit, getGroup, groupLimit }: DispatchOptions<T>
+): Promise<void> {
+  const pending = [...items];
+  const running = new Map<string, number>();
+  let active = 0;
+
+  return new Promise((resolve) => {
+    const startNext = () => {
+      if (pending.length === 0 && active === 0) {
+        resolve();
+        return;
+      }
+
+      let i = 0;
+      while (i < pending.length && active < limit) {
+        const item = pending[i];
+        const group = getGroup(item);
+        const groupActive = running.get(group) || 0;
+
+        if (groupActive >= groupLimit(group)) {
+          i++;
+          continue;
+        }
+
+        pending.splice(i, 1);
+        active++;
+        running.set(group, groupActive + 1);
+
+        worker(item)
+          .catch((error) => {
+            console.error("[Dispatch] Worker failed:", error);
+          })
+          .finally(() => {
+            active--;
+            running.set(group, (running.get(group) || 1) - 1);
+            startNext();
+          });
+      }
+    };
+
+    startNext();
+  });
+}
@@ -0,0 +1,55 @@
+import type { GenerationOptions } from "@/types";
+
+/**
+ * Drop unset values so only explicitly chosen options are sent to Ollama
+ * (anything missing falls back to the model's Modelfile defaults)
+ */
+export function cleanGenerationOptions(
+  options?: GenerationOptions
+): GenerationOptions | undefined {
+  if (!options) return undefined;
+
+  const cleaned: GenerationOptions = {};
+  for (const key of ["temperature", "top_p", "num_ctx", "seed"] as const) {
+    const value = options[key];
+    if (typeof value === "number" && !isNaN(value)) {
+      cleaned[key] = value;
+    }
+  }
+  const stop = options.stop?.filter((s) => s.length > 0);
+  if (stop && stop.length > 0) {
+    cleaned.stop = stop;
+  }
+  if (typeof options.think === "boolean") {
+    cleaned.think = options.think;
+  }
+
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Split cleaned options into request fields: `think` goes at the top level
+ * of an Ollama request, everything else under `options`
+ */
+export function toRequestOptions(options?: GenerationOptions): {
+  options?: Omit<GenerationOptions, "think">;
+  think?: boolean;
+} {
+  if (!options) return {};
+  const { think, ...sampling } = options;
+  return {
+    options: Object.keys(sampling).length > 0 ? sampling : undefined,
+    think,
+  };
+}
+
+/**
+ * Format options for display, e.g. "temperature=0.7 · seed=42"
+ */
+export function formatGenerationOptions(options: GenerationOptions): string {
+  return Object.entries(options)
+    .map(([key, value]) =>
+      `${key}=${Array.isArray(value) ? JSON.stringify(value) : value}`
+    )
+    .join(" · ");
+}
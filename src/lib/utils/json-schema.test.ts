@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { checkStructuredOutput, validateJsonSchema } from "@/lib/utils/json-schema";
+import type { JsonSchema } from "@/types";
+
+const person: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+};
+
+const paths = (value: unknown, schema: JsonSchema) =>
+  validateJsonSchema(value, schema).map(({ path }) => path);
+
+describe("validateJsonSchema", () => {
+  test("accepts a matching value", () => {
+    assert.deepEqual(validateJsonSchema({ name: "Ada", age: 36, tags: ["math"] }, person), []);
+  });
+
+  test("reports every violation with its path", () => {
+    assert.deepEqual(
+      paths({ name: "", age: 1.5, tags: ["a", 2, "c"], extra: true }, person),
+      ["$.name", "$.age", "$.tags", "$.tags[1]", "$.extra"]
+    );
+  });
+
+  test("reports missing required properties at the object", () => {
+    const [violation] = validateJsonSchema({ name: "Ada" }, person);
+    assert.deepEqual(violation, { path: "$", message: 'Missing required property "age"' });
+  });
+
+  test("stops at a type mismatch instead of repeating it", () => {
+    assert.deepEqual(validateJsonSchema("Ada", person), [
+      { path: "$", message: "Expected object, got string" },
+    ]);
+  });
+
+  test("quotes keys that aren't identifiers", () => {
+    const schema: JsonSchema = { type: "object", additionalProperties: { type: "number" } };
+    assert.deepEqual(paths({ "first name": "Ada" }, schema), ['$["first name"]']);
+  });
+
+  test("checks enum, const and pattern", () => {
+    assert.equal(validateJsonSchema("red", { enum: ["red", "green"] }).length, 0);
+    assert.equal(validateJsonSchema("blue", { enum: ["red", "green"] }).length, 1);
+    assert.equal(validateJsonSchema({ a: [1] }, { const: { a: [1] } }).length, 0);
+    assert.equal(validateJsonSchema("abc", { type: "string", pattern: "^\\d+$" }).length, 1);
+  });
+
+  test("combines schemas with anyOf, oneOf and allOf", () => {
+    const anyOf: JsonSchema = { anyOf: [{ type: "string" }, { type: "number" }] };
+    assert.equal(validateJsonSchema(3, anyOf).length, 0);
+    assert.equal(validateJsonSchema(true, anyOf).length, 1);
+
+    const oneOf: JsonSchema = { oneOf: [{ type: "number" }, { type: "integer" }] };
+    assert.equal(validateJsonSchema(1.5, oneOf).length, 0);
+    assert.match(validateJsonSchema(2, oneOf)[0].message, /matched 2/);
+
+    const allOf: JsonSchema = { allOf: [{ minimum: 0 }, { maximum: 10 }] };
+    assert.equal(validateJsonSchema(11, allOf).length, 1);
+  });
+});
+
+describe("checkStructuredOutput", () => {
+  test("requires valid JSON", () => {
+    const check = checkStructuredOutput("{name: Ada}", "json");
+    assert.equal(check.valid, false);
+    assert.match(check.violations[0].message, /^Not valid JSON/);
+  });
+
+  test("validates against a schema format", () => {
+    assert.equal(checkStructuredOutput('{"name":"Ada","age":36}', person).valid, true);
+    assert.equal(checkStructuredOutput('{"name":"Ada"}', person).valid, false);
+  });
+});
@@ -0,0 +1,224 @@
+import type { JsonSchema, OllamaFormat } from "@/types";
+
+// A small JSON Schema validator for checking structured output. It covers
+// the keywords models are usually asked to follow: type, enum, const,
+// properties/required/additionalProperties, items, string/number/array
+// bounds, pattern and anyOf/oneOf/allOf. $ref is not resolved.
+
+export interface SchemaViolation {
+  path: string; // JSONPath-like location, e.g. $.items[2].name
+  message: string;
+}
+
+export interface StructuredOutputCheck {
+  valid: boolean;
+  violations: SchemaViolation[];
+}
+
+const MAX_VIOLATIONS = 20;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeOf(value) === "object";
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+const isSchema = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === "number"
+    ? `${path}[${key}]`
+    : /^[A-Za-z_$][\w$]*$/.test(key)
+      ? `${path}.${key}`
+      : `${path}[${JSON.stringify(key)}]`;
+
+/**
+ * Check a parsed value against a schema. Returns every violation found (up
+ * to a limit), not just the first.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string, at: string = path) => {
+    if (violations.length < MAX_VIOLATIONS) violations.push({ path: at, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`Expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return violations; // the other keywords would only repeat this
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`Must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail(`Must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      fail(`Must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      fail(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) {
+          fail(`Must match /${schema.pattern}/`);
+        }
+      } catch {
+        // An invalid pattern in the schema isn't the response's fault
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail(`Must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail(`Must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail(`Must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail(`Must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail(`Must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      fail(`Must have at most ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      const items = schema.items;
+      value.forEach((item, index) =>
+        violations.push(...validateJsonSchema(item, items, childPath(path, index)))
+      );
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    (schema.required || []).forEach((key) => {
+      if (!Object.hasOwn(object, key)) fail(`Missing required property "${key}"`);
+    });
+
+    const properties = schema.properties || {};
+    Object.entries(object).forEach(([key, child]) => {
+      const at = childPath(path, key);
+      if (Object.hasOwn(properties, key)) {
+        violations.push(...validateJsonSchema(child, properties[key], at));
+      } else if (schema.additionalProperties === false) {
+        fail("Unexpected property", at);
+      } else if (isSchema(schema.additionalProperties)) {
+        violations.push(...validateJsonSchema(child, schema.additionalProperties, at));
+      }
+    });
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.filter(isSchema).forEach((sub) => {
+      violations.push(...validateJsonSchema(value, sub, path));
+    });
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf.filter(isSchema);
+    if (!options.some((sub) => validateJsonSchema(value, sub, path).length === 0)) {
+      fail("Does not match any of the allowed schemas (anyOf)");
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf
+      .filter(isSchema)
+      .filter((sub) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) {
+      fail(`Must match exactly one schema (oneOf), matched ${matches}`);
+    }
+  }
+
+  return violations.slice(0, MAX_VIOLATIONS);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeOf(a) !== typeOf(b) || typeof a !== "object" || a === null) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => Object.hasOwn(right, key) && deepEqual(left[key], right[key]))
+  );
+}
+
+/**
+ * Check a model's response against the requested format: it must be valid
+ * JSON and, for a schema, match it
+ */
+export function checkStructuredOutput(
+  content: string,
+  format: OllamaFormat
+): StructuredOutputCheck {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { valid: false, violations: [{ path: "$", message: `Not valid JSON: ${reason}` }] };
+  }
+
+  const violations = format === "json" ? [] : validateJsonSchema(value, format);
+  return { valid: violations.length === 0, violations };
+}
+
+/**
+ * Parse a JSON Schema typed into an editor. Throws when the text isn't a
+ * JSON object.
+ */
+export function parseSchema(text: string): JsonSchema {
+  const schema = JSON.parse(text);
+  if (!isSchema(schema)) {
+    throw new Error("Schema must be a JSON object");
+  }
+  return schema;
+}
+
+/**
+ * Parse the format typed into the schema editor: blank means any JSON,
+ * otherwise it must be a JSON Schema object
+ */
+export function parseFormat(text: string): OllamaFormat {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed === "json") return "json";
+  return parseSchema(trimmed);
+}
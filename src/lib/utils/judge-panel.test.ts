@@ -0,0 +1,33 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { krippendorffAlpha } from "@/lib/utils/judge-panel";
+
+describe("krippendorffAlpha", () => {
+  test("is 1 when the judges agree on every item", () => {
+    assert.equal(krippendorffAlpha([[3, 3], [7, 7, 7], [5, 5]]), 1);
+  });
+
+  test("is 1 when every score is the same", () => {
+    assert.equal(krippendorffAlpha([[4, 4], [4, 4]]), 1);
+  });
+
+  test("is below 0 when judges disagree systematically", () => {
+    const alpha = krippendorffAlpha([[1, 9], [9, 1], [1, 9]]);
+    assert.ok(alpha !== null && alpha < 0);
+  });
+
+  test("matches the interval alpha worked out by hand", () => {
+    // Observed disagreement 6 / 6 = 1, expected 322 / (6 * 5) over all six values
+    const alpha = krippendorffAlpha([[1, 2], [4, 5], [7, 6]]);
+    assert.ok(alpha !== null && Math.abs(alpha - (1 - 30 / 322)) < 1e-9);
+  });
+
+  test("ignores items only one judge scored", () => {
+    assert.equal(krippendorffAlpha([[2, 2], [8], [6, 6]]), 1);
+  });
+
+  test("is null when nothing can be paired", () => {
+    assert.equal(krippendorffAlpha([]), null);
+    assert.equal(krippendorffAlpha([[5], [7]]), null);
+  });
+});
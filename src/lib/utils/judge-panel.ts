@@ -0,0 +1,244 @@
+import {
+  computeFinalScore,
+  getCheckCriteria,
+  getScoredCriteria,
+  toRubricDefinition,
+} from "@/lib/utils/rubrics";
+import type {
+  JudgeSettings,
+  JudgeVerdict,
+  OrderingRun,
+  ReadabilityLevel,
+  ResponseEvaluation,
+  RubricDefinition,
+} from "@/types";
+
+export const DEFAULT_JUDGE_MODEL = "gemma3:4b";
+
+export const DEFAULT_JUDGE_SETTINGS: JudgeSettings = {
+  models: [DEFAULT_JUDGE_MODEL],
+  blind: false,
+  orderings: 1,
+};
+
+// How many shuffled orderings a blind batch evaluation can be repeated with
+export const JUDGE_ORDERINGS = [1, 2, 3, 4];
+
+// "llama3" and "llama3:latest" name the same model
+const normalizeModelName = (name: string) => name.trim().toLowerCase().replace(/:latest$/, "");
+
+export const isSameModel = (a: string, b: string) =>
+  normalizeModelName(a) === normalizeModelName(b);
+
+/**
+ * Judges that may score a response: every judge except the model that wrote it
+ */
+export function getEligibleJudges(judges: string[], author?: string): string[] {
+  return author ? judges.filter((judge) => !isSameModel(judge, author)) : judges;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Population standard deviation - how far the judges' scores are spread
+export function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+}
+
+// Sum of squared differences over every ordered pair of values
+const sumSquaredDifferences = (values: number[]) =>
+  values.reduce(
+    (sum, a, i) => sum + values.reduce((inner, b, j) => (i === j ? inner : inner + (a - b) ** 2), 0),
+    0
+  );
+
+/**
+ * Krippendorff's alpha for interval data. Each unit holds the values the
+ * judges gave one item, units with a single value are ignored. 1 is perfect
+ * agreement, 0 is no better than chance and below 0 is systematic
+ * disagreement. Returns null when fewer than two values can be paired.
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairable = units.filter((unit) => unit.length > 1);
+  const values = pairable.flat();
+  const n = values.length;
+  if (n < 2) return null;
+
+  const observed =
+    pairable.reduce((sum, unit) => sum + sumSquaredDifferences(unit) / (unit.length - 1), 0) / n;
+  const expected = sumSquaredDifferences(values) / (n * (n - 1));
+  // Every judge gave every item the same score
+  if (expected === 0) return 1;
+  return 1 - observed / expected;
+}
+
+// Readability given most often, the earliest one on a tie
+function mostCommonReadability(verdicts: Pick<JudgeVerdict, "readability">[]): ReadabilityLevel {
+  const counts = new Map<ReadabilityLevel, number>();
+  verdicts.forEach(({ readability }) => counts.set(readability, (counts.get(readability) || 0) + 1));
+  return verdicts.reduce(
+    (best, { readability }) => (counts.get(readability)! > counts.get(best)! ? readability : best),
+    verdicts[0].readability
+  );
+}
+
+type Scores = Pick<ResponseEvaluation, "readability" | "parameterScores" | "checks">;
+
+/**
+ * Average several sets of scores for one response: the mean score per
+ * criterion, checks passed by a majority and the most common readability
+ */
+export function averageScores(
+  scores: Scores[],
+  rubric: RubricDefinition
+): Pick<ResponseEvaluation, "readability" | "parameterScores" | "checks" | "finalScore"> {
+  const parameterScores = Object.fromEntries(
+    getScoredCriteria(rubric).map(({ key }) => [
+      key,
+      round(mean(scores.map((score) => score.parameterScores[key]))),
+    ])
+  );
+  const checkCriteria = getCheckCriteria(rubric);
+  const checks = Object.fromEntries(
+    checkCriteria.map(({ key }) => [
+      key,
+      scores.filter((score) => score.checks?.[key]).length > scores.length / 2,
+    ])
+  );
+
+  return {
+    readability: mostCommonReadability(scores),
+    parameterScores,
+    ...(checkCriteria.length > 0 && { checks }),
+    finalScore: computeFinalScore(parameterScores, rubric),
+  };
+}
+
+/**
+ * Explanations for scores averaged from several runs of one judge: the first
+ * run's rationales, and every problem flagged in any run, once per quote
+ */
+export function mergeExplanations(
+  runs: Pick<ResponseEvaluation, "rationales" | "issues">[]
+): Pick<ResponseEvaluation, "rationales" | "issues"> {
+  const issues = runs
+    .flatMap((run) => run.issues || [])
+    .filter(
+      (issue, i, all) =>
+        all.findIndex(
+          (other) =>
+            other.criterion === issue.criterion &&
+            (issue.quote ? other.quote === issue.quote : other.problem === issue.problem)
+        ) === i
+    );
+  const rationales = runs.find((run) => run.rationales)?.rationales;
+
+  return {
+    ...(rationales && { rationales }),
+    ...(issues.length > 0 && { issues }),
+  };
+}
+
+/**
+ * Combine the judges' verdicts on one response (see averageScores). A single
+ * verdict is returned as a plain single-judge evaluation. Each judge's
+ * rationales stay with its verdict, the problems they flagged are collected.
+ */
+export function combineVerdicts(
+  verdicts: JudgeVerdict[],
+  rubric: RubricDefinition
+): ResponseEvaluation {
+  if (verdicts.length === 1) {
+    return { ...verdicts[0], rubric: toRubricDefinition(rubric) };
+  }
+
+  const issues = verdicts.flatMap(({ judgeModel, issues = [] }) =>
+    issues.map((issue) => ({ ...issue, judgeModel }))
+  );
+
+  return {
+    ...averageScores(verdicts, rubric),
+    ...(issues.length > 0 && { issues }),
+    rubric: toRubricDefinition(rubric),
+    judges: verdicts.map((verdict) => {
+      const judge = { ...verdict };
+      delete judge.issues;
+      return judge;
+    }),
+  };
+}
+
+export interface CriterionAgreement {
+  key: string;
+  mean: number;
+  median: number;
+  spread: number; // standard deviation of the judges' scores
+}
+
+/**
+ * How far a panel's judges agreed on a response, per criterion and overall
+ * (Krippendorff's alpha across its criteria)
+ */
+export function getPanelAgreement(
+  verdicts: JudgeVerdict[],
+  rubric: RubricDefinition
+): { criteria: CriterionAgreement[]; alpha: number | null } {
+  const units = getScoredCriteria(rubric).map(({ key }) => ({
+    key,
+    scores: verdicts
+      .map((verdict) => verdict.parameterScores[key])
+      .filter((score): score is number => typeof score === "number"),
+  }));
+
+  return {
+    criteria: units
+      .filter(({ scores }) => scores.length > 0)
+      .map(({ key, scores }) => ({
+        key,
+        mean: round(mean(scores)),
+        median: round(median(scores)),
+        spread: Math.round(standardDeviation(scores) * 100) / 100,
+      })),
+    alpha: krippendorffAlpha(units.map(({ scores }) => scores)),
+  };
+}
+
+// "Response A", "Response B", ... in blind evaluations
+export const toResponseLabel = (index: number) =>
+  index < 26 ? String.fromCharCode(65 + index) : String(index + 1);
+
+/**
+ * Orders to show `count` responses in for `runs` judge runs: a random
+ * shuffle, then rotations of it so each response moves to a new position
+ * every run. Each order lists response indexes by position.
+ */
+export function getShuffledOrderings(count: number, runs: number): number[][] {
+  const base = Array.from({ length: count }, (_, i) => i);
+  for (let i = base.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [base[i], base[j]] = [base[j], base[i]];
+  }
+  return Array.from({ length: runs }, (_, run) =>
+    base.map((_, position) => base[(position + run) % count])
+  );
+}
+
+/**
+ * How much a response's final score moved between the orderings it was
+ * judged in (highest minus lowest), or null if it was judged only once
+ */
+export function getOrderShift(runs: OrderingRun[] | undefined): number | null {
+  if (!runs || runs.length < 2) return null;
+  const scores = runs.map((run) => run.finalScore);
+  return round(Math.max(...scores) - Math.min(...scores));
+}
@@ -0,0 +1,41 @@
+import type { OllamaMetrics, ResponseMetrics } from "@/types";
+
+const NS_PER_MS = 1e6;
+
+/**
+ * Extract the timing/token stats Ollama sends on the final chunk
+ */
+export function pickMetrics(data: Partial<OllamaMetrics>): OllamaMetrics {
+  return {
+    total_duration: data.total_duration,
+    load_duration: data.load_duration,
+    prompt_eval_count: data.prompt_eval_count,
+    prompt_eval_duration: data.prompt_eval_duration,
+    eval_count: data.eval_count,
+    eval_duration: data.eval_duration,
+  };
+}
+
+/**
+ * Generation speed in tokens per second (excludes prompt processing)
+ */
+export function getTokensPerSecond(metrics: ResponseMetrics): number | null {
+  if (!metrics.eval_count || !metrics.eval_duration) return null;
+  return metrics.eval_count / (metrics.eval_duration / 1e9);
+}
+
+/**
+ * Convert an Ollama duration (ns) to milliseconds
+ */
+export function nsToMs(ns?: number): number | null {
+  return typeof ns === "number" ? ns / NS_PER_MS : null;
+}
+
+/**
+ * Format a duration in ms for display, e.g. "320ms" or "4.2s"
+ */
+export function formatDuration(ms: number | null | undefined): string | null {
+  if (ms === null || ms === undefined || isNaN(ms)) return null;
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
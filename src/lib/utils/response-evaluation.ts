@@ -7,16 +7,78 @@ import type {
   BatchEvaluationResponse,
   BatchHighlightRequest,
   BatchHighlightResponse,
+  EvaluationIssue,
+  JsonSchema,
+  OrderingRun,
+  RubricDefinition,
 } from "@/types";
+import {
+  DEFAULT_RUBRIC,
+  buildEvaluationSchema,
+  computeFinalScore,
+  describeEvaluationShape,
+  describeRubric,
+  getCheckCriteria,
+  getScoredCriteria,
+  toRubricDefinition,
+} from "@/lib/utils/rubrics";
+import {
+  DEFAULT_JUDGE_MODEL,
+  averageScores,
+  getShuffledOrderings,
+  mergeExplanations,
+  toResponseLabel,
+} from "@/lib/utils/judge-panel";
+
+// Judge replies are requested with JSON schemas as Ollama's `format`, so the
+// model is constrained to well-formed JSON of the right shape. Evaluation
+// schemas are built from the rubric, see buildEvaluationSchema.
+
+const HIGHLIGHT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    similarSentences: { type: "array", items: { type: "string" } },
+    differentSentences: { type: "array", items: { type: "string" } },
+  },
+  required: ["similarSentences", "differentSentences"],
+};
 
-const DEFAULT_EVAL_MODEL = "llama3.2:3b";
+// {"<key>": {"<model>": <schema>, ...}} for the batch calls
+function perModelSchema(key: string, models: string[], schema: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      [key]: {
+        type: "object",
+        properties: Object.fromEntries(models.map((model) => [model, schema])),
+        required: models,
+      },
+    },
+    required: [key],
+  };
+}
+
+// Blind evaluations hide which model wrote what, so judges can't favour a name
+export interface JudgeBiasOptions {
+  blind?: boolean;
+  orderings?: number; // batch runs in different orders, blind evaluations only
+}
 
 /**
- * Builds the evaluation prompt for the LLM
+ * Builds the evaluation prompt for the LLM. Blind prompts leave out the model
+ * names and list the other responses as "Response A", "Response B", ...
  */
-function buildEvaluationPrompt(request: EvaluationRequest): string {
+function buildEvaluationPrompt(
+  request: EvaluationRequest,
+  rubric: RubricDefinition,
+  blind = false
+): string {
   const otherResponsesText = request.otherResponses
-    .map((r, idx) => `Response ${idx + 1} (${r.model}):\n${r.content}`)
+    .map((r, idx) =>
+      blind
+        ? `Response ${toResponseLabel(idx)}:\n${r.content}`
+        : `Response ${idx + 1} (${r.model}):\n${r.content}`
+    )
     .join("\n\n");
 
   return `You are an expert evaluator of AI model responses for both creative and technical writing. Evaluate the following response and provide a structured assessment.
@@ -24,59 +86,16 @@ function buildEvaluationPrompt(request: EvaluationRequest): string {
 USER QUESTION:
 ${request.userQuestion}
 
-RESPONSE TO EVALUATE (${request.currentModel}):
+RESPONSE TO EVALUATE${blind ? "" : ` (${request.currentModel})`}:
 ${request.currentResponse}
 
 OTHER RESPONSES FOR COMPARISON:
 ${otherResponsesText || "No other responses available."}
 
 Please provide your evaluation in the following JSON format:
-{
-  "readability": "easy" | "medium" | "difficult" | "technical",
-  "parameterScores": {
-    "accuracy": 1-4,
-    "depth": 1-4,
-    "clarity": 1-4,
-    "structure": 1-4,
-    "relevance": 1-4
-  },
-  "finalScore": 1-4
-}
+${describeEvaluationShape(rubric)}
 
-EVALUATION CRITERIA:
-
-- Readability: Assess based on vocabulary complexity and sentence structure
-  * "easy": Simple language, short sentences, accessible to all readers
-  * "medium": Moderate complexity, balanced vocabulary
-  * "difficult": Complex language, sophisticated vocabulary
-  * "technical": Specialized terminology, assumes domain knowledge
-
-- Parameter Scores (1-4 scale):
-  * accuracy: How correct and reliable is the information?
-    - Technical: Factual correctness, no misinformation
-    - Creative: Internal consistency, logical coherence
-    - 1=poor/incorrect, 2=some errors, 3=mostly correct, 4=excellent/precise
-    
-  * depth: How comprehensive and detailed is the response?
-    - Technical: Thorough coverage, detailed explanations
-    - Creative: Rich detail, well-developed ideas and descriptions
-    - 1=superficial, 2=basic, 3=good detail, 4=comprehensive
-    
-  * clarity: How clear and understandable is the response?
-    - Technical: Easy to follow, concepts well-explained
-    - Creative: Vivid expression, clear communication of ideas
-    - 1=very confusing, 2=somewhat unclear, 3=clear, 4=exceptionally clear
-    
-  * structure: How well-organized and coherent is the response?
-    - Technical: Logical flow, good organization, no redundancy
-    - Creative: Strong narrative/argumentative structure, smooth transitions
-    - 1=disorganized/rambling, 2=somewhat structured, 3=well-organized, 4=excellent structure
-    
-  * relevance: How well does it address the question/prompt?
-    - Both: Stays focused, directly addresses what was asked
-    - 1=off-topic, 2=partially relevant, 3=relevant, 4=highly focused and relevant
-
-- Final Score: Average of all parameter scores (round to 1 decimal place)
+${describeRubric(rubric)}
 
 Respond ONLY with valid JSON, no additional text.`;
 }
@@ -135,69 +154,86 @@ Respond ONLY with valid JSON, no additional text.`;
 }
 
 /**
- * Parses JSON from LLM response, handling potential markdown code blocks
+ * Parses the judge's reply. Requests use `format`, so anything that isn't
+ * plain JSON means the model or server ignored it.
  */
 function parseJsonResponse(text: string): any {
-  // Remove markdown code blocks if present
-  const cleaned = text
-    .replace(/```json\n?/g, "")
-    .replace(/```\n?/g, "")
-    .trim();
-
   try {
-    return JSON.parse(cleaned);
+    return JSON.parse(text);
   } catch (error) {
-    // Try to extract JSON from the text
-    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]);
-      } catch (e) {
-        throw new Error(`Failed to parse JSON: ${e}`);
-      }
-    }
-    throw new Error(`No valid JSON found in response: ${error}`);
+    throw new Error(`Judge did not return valid JSON: ${error}`);
   }
 }
 
 /**
- * Validates and normalizes evaluation response
+ * Validates and normalizes evaluation response against the rubric it was
+ * judged with. The final score is the rubric's weighted average rather
+ * than anything the judge computed.
  */
-function validateEvaluation(data: any): ResponseEvaluation {
+function validateEvaluation(data: any, rubric: RubricDefinition): ResponseEvaluation {
   const readability = data.readability;
   if (!["easy", "medium", "difficult", "technical"].includes(readability)) {
     throw new Error(`Invalid readability level: ${readability}`);
   }
 
-  const scores = data.parameterScores;
+  const { scaleMin, scaleMax } = rubric;
   const validateScore = (value: any, name: string) => {
     const num = typeof value === "number" ? value : parseFloat(value);
-    if (isNaN(num) || num < 1 || num > 4) {
+    if (isNaN(num) || num < scaleMin || num > scaleMax) {
       throw new Error(`Invalid ${name} score: ${value}`);
     }
-    return Math.max(1, Math.min(4, Math.round(num * 10) / 10)); // Round to 1 decimal, clamp to 1-4
+    return Math.round(num * 10) / 10; // Round to 1 decimal
   };
 
-  const parameterScores = {
-    accuracy: validateScore(scores?.accuracy, "accuracy"),
-    depth: validateScore(scores?.depth, "depth"),
-    clarity: validateScore(scores?.clarity, "clarity"),
-    structure: validateScore(scores?.structure, "structure"),
-    relevance: validateScore(scores?.relevance, "relevance"),
-  };
+  const parameterScores = Object.fromEntries(
+    getScoredCriteria(rubric).map((criterion) => [
+      criterion.key,
+      validateScore(data.parameterScores?.[criterion.key], criterion.name),
+    ])
+  );
 
-  const finalScore =
-    typeof data.finalScore === "number"
-      ? Math.max(1, Math.min(4, Math.round(data.finalScore * 10) / 10))
-      : Math.round(
-          (Object.values(parameterScores).reduce((a, b) => a + b, 0) / 5) *
-            10
-        ) / 10;
+  const checkCriteria = getCheckCriteria(rubric);
+  const checks = Object.fromEntries(
+    checkCriteria.map((criterion) => {
+      const value = data.checks?.[criterion.key];
+      if (typeof value !== "boolean") {
+        throw new Error(`Invalid ${criterion.name} check: ${value}`);
+      }
+      return [criterion.key, value];
+    })
+  );
+
+  // Explanations are kept when usable but never fail the evaluation
+  const keys = rubric.criteria.map((criterion) => criterion.key);
+  const rationales = Object.fromEntries(
+    keys
+      .filter((key) => typeof data.rationales?.[key] === "string" && data.rationales[key].trim())
+      .map((key) => [key, data.rationales[key].trim()])
+  );
+  const issues: EvaluationIssue[] = Array.isArray(data.issues)
+    ? data.issues
+        .filter(
+          (issue: Partial<EvaluationIssue> | null) =>
+            !!issue?.criterion &&
+            keys.includes(issue.criterion) &&
+            typeof issue.problem === "string" &&
+            issue.problem.trim()
+        )
+        .map((issue: EvaluationIssue) => ({
+          criterion: issue.criterion,
+          problem: issue.problem.trim(),
+          quote: typeof issue.quote === "string" ? issue.quote.trim() : "",
+        }))
+    : [];
 
   return {
     readability: readability as "easy" | "medium" | "difficult" | "technical",
     parameterScores,
-    finalScore: Math.max(1, Math.min(4, finalScore)),
+    ...(checkCriteria.length > 0 && { checks }),
+    finalScore: computeFinalScore(parameterScores, rubric),
+    ...(Object.keys(rationales).length > 0 && { rationales }),
+    ...(issues.length > 0 && { issues }),
+    rubric: toRubricDefinition(rubric),
   };
 }
 
@@ -216,13 +252,25 @@ function validateHighlightAnalysis(data: any): HighlightAnalysis {
 }
 
 /**
- * Evaluates a response using the LLM
+ * Evaluates a response using the LLM. `host` is the base URL of the judge's
+ * Ollama host, undefined for the default host.
  */
 export async function evaluateResponse(
   request: EvaluationRequest,
-  evalModel: string = DEFAULT_EVAL_MODEL
+  evalModel: string = DEFAULT_JUDGE_MODEL,
+  host?: string,
+  rubric: RubricDefinition = DEFAULT_RUBRIC,
+  { blind = false }: JudgeBiasOptions = {}
 ): Promise<ResponseEvaluation> {
-  const prompt = buildEvaluationPrompt(request);
+  // Blind judges also see the other responses in a random order
+  const [order] = getShuffledOrderings(request.otherResponses.length, 1);
+  const prompt = blind
+    ? buildEvaluationPrompt(
+        { ...request, otherResponses: order.map((index) => request.otherResponses[index]) },
+        rubric,
+        true
+      )
+    : buildEvaluationPrompt(request, rubric);
 
   try {
     const response = await fetch("/api/evaluation", {
@@ -232,8 +280,10 @@ export async function evaluateResponse(
       },
       body: JSON.stringify({
         model: evalModel,
+        host,
         prompt,
         type: "evaluation",
+        format: buildEvaluationSchema(rubric),
       }),
     });
 
@@ -243,7 +293,7 @@ export async function evaluateResponse(
 
     const data = await response.json();
     const parsed = parseJsonResponse(data.response || data.content || "");
-    return validateEvaluation(parsed);
+    return { ...validateEvaluation(parsed, rubric), ...(blind && { blind: true }) };
   } catch (error) {
     console.error("Error evaluating response:", error);
     throw error;
@@ -255,7 +305,8 @@ export async function evaluateResponse(
  */
 export async function analyzeHighlights(
   request: HighlightRequest,
-  evalModel: string = DEFAULT_EVAL_MODEL
+  evalModel: string = DEFAULT_JUDGE_MODEL,
+  host?: string
 ): Promise<HighlightAnalysis> {
   const prompt = buildHighlightPrompt(request);
 
@@ -267,8 +318,10 @@ export async function analyzeHighlights(
       },
       body: JSON.stringify({
         model: evalModel,
+        host,
         prompt,
         type: "highlight",
+        format: HIGHLIGHT_SCHEMA,
       }),
     });
 
@@ -286,14 +339,25 @@ export async function analyzeHighlights(
 }
 
 /**
- * Builds a batch evaluation prompt that evaluates all models at once
+ * Builds a batch evaluation prompt that evaluates all models at once. In
+ * blind prompts the responses are keyed by their labels ("A", "B", ...)
+ * instead of model names.
  */
-function buildBatchEvaluationPrompt(request: BatchEvaluationRequest): string {
+function buildBatchEvaluationPrompt(
+  request: BatchEvaluationRequest,
+  rubric: RubricDefinition,
+  blind = false
+): string {
   const responsesText = request.responses
-    .map((r, idx) => `Response ${idx + 1} (${r.model}):\n${r.content}`)
+    .map((r, idx) =>
+      blind
+        ? `Response ${r.model}:\n${r.content}`
+        : `Response ${idx + 1} (${r.model}):\n${r.content}`
+    )
     .join("\n\n");
+  const subject = blind ? "response" : "model";
 
-  return `You are an expert evaluator of AI model responses for both creative and technical writing. Evaluate ALL of the following responses and provide structured assessments for EACH model.
+  return `You are an expert evaluator of AI model responses for both creative and technical writing. Evaluate ALL of the following responses and provide structured assessments for EACH ${subject}.
 
 USER QUESTION:
 ${request.userQuestion}
@@ -301,59 +365,16 @@ ${request.userQuestion}
 RESPONSES TO EVALUATE:
 ${responsesText}
 
-Please provide your evaluation in the following JSON format with evaluations for ALL models:
+Please provide your evaluation in the following JSON format with evaluations for ALL ${subject}s:
 {
   "evaluations": {
-    "${request.responses[0]?.model || 'model1'}": {
-      "readability": "easy" | "medium" | "difficult" | "technical",
-      "parameterScores": {
-        "accuracy": 1-4,
-        "depth": 1-4,
-        "clarity": 1-4,
-        "structure": 1-4,
-        "relevance": 1-4
-      },
-      "finalScore": 1-4
-    },
+    "${request.responses[0]?.model || 'model1'}": ${describeEvaluationShape(rubric, "    ")},
     "${request.responses[1]?.model || 'model2'}": { ... },
-    ... (include ALL models)
+    ... (include ALL ${subject}s)
   }
 }
 
-EVALUATION CRITERIA:
-
-- Readability: Assess based on vocabulary complexity and sentence structure
-  * "easy": Simple language, short sentences, accessible to all readers
-  * "medium": Moderate complexity, balanced vocabulary
-  * "difficult": Complex language, sophisticated vocabulary
-  * "technical": Specialized terminology, assumes domain knowledge
-
-- Parameter Scores (1-4 scale):
-  * accuracy: How correct and reliable is the information?
-    - Technical: Factual correctness, no misinformation
-    - Creative: Internal consistency, logical coherence
-    - 1=poor/incorrect, 2=some errors, 3=mostly correct, 4=excellent/precise
-    
-  * depth: How comprehensive and detailed is the response?
-    - Technical: Thorough coverage, detailed explanations
-    - Creative: Rich detail, well-developed ideas and descriptions
-    - 1=superficial, 2=basic, 3=good detail, 4=comprehensive
-    
-  * clarity: How clear and understandable is the response?
-    - Technical: Easy to follow, concepts well-explained
-    - Creative: Vivid expression, clear communication of ideas
-    - 1=very confusing, 2=somewhat unclear, 3=clear, 4=exceptionally clear
-    
-  * structure: How well-organized and coherent is the response?
-    - Technical: Logical flow, good organization, no redundancy
-    - Creative: Strong narrative/argumentative structure, smooth transitions
-    - 1=disorganized/rambling, 2=somewhat structured, 3=well-organized, 4=excellent structure
-    
-  * relevance: How well does it address the question/prompt?
-    - Both: Stays focused, directly addresses what was asked
-    - 1=off-topic, 2=partially relevant, 3=relevant, 4=highly focused and relevant
-
-- Final Score: Average of all parameter scores (round to 1 decimal place)
+${describeRubric(rubric)}
 
 Respond ONLY with valid JSON, no additional text.`;
 }
@@ -404,42 +425,123 @@ CRITICAL INSTRUCTIONS FOR IDEA-BASED MATCHING:
 Respond ONLY with valid JSON, no additional text.`;
 }
 
+// One batch call to the judge, keyed by whatever the request's responses are named
+async function requestBatchEvaluation(
+  request: BatchEvaluationRequest,
+  evalModel: string,
+  host: string | undefined,
+  rubric: RubricDefinition,
+  blind: boolean
+): Promise<BatchEvaluationResponse> {
+  const prompt = buildBatchEvaluationPrompt(request, rubric, blind);
+
+  const response = await fetch("/api/evaluation", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: evalModel,
+      host,
+      prompt,
+      type: "batch-evaluation",
+      format: perModelSchema(
+        "evaluations",
+        request.responses.map((r) => r.model),
+        buildEvaluationSchema(rubric)
+      ),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Batch evaluation failed: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const parsed = parseJsonResponse(data.response || data.content || "");
+
+  // Validate each evaluation in the batch
+  const evaluations: Record<string, ResponseEvaluation> = {};
+  for (const [model, evalData] of Object.entries(parsed.evaluations || {})) {
+    evaluations[model] = validateEvaluation(evalData, rubric);
+  }
+
+  return { evaluations };
+}
+
 /**
- * Evaluates all responses in a single API call
+ * Blind batch evaluation: the responses are shown as "Response A/B/C" in a
+ * new order for every run, and each run's scores are mapped back to the
+ * models and averaged. With several runs, each one's scores and the
+ * response's position are kept so the order's effect can be reported.
  */
-export async function evaluateAllResponses(
+async function evaluateAllResponsesBlind(
   request: BatchEvaluationRequest,
-  evalModel: string = DEFAULT_EVAL_MODEL
+  evalModel: string,
+  host: string | undefined,
+  rubric: RubricDefinition,
+  orderings: number
 ): Promise<BatchEvaluationResponse> {
-  const prompt = buildBatchEvaluationPrompt(request);
-
-  try {
-    const response = await fetch("/api/evaluation", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+  const runs = new Map<string, (ResponseEvaluation & OrderingRun)[]>();
+
+  for (const order of getShuffledOrderings(request.responses.length, Math.max(1, orderings))) {
+    const shown = order.map((index) => request.responses[index]);
+    const { evaluations } = await requestBatchEvaluation(
+      {
+        userQuestion: request.userQuestion,
+        responses: shown.map((r, position) => ({
+          model: toResponseLabel(position),
+          content: r.content,
+        })),
       },
-      body: JSON.stringify({
-        model: evalModel,
-        prompt,
-        type: "batch-evaluation",
-      }),
+      evalModel,
+      host,
+      rubric,
+      true
+    );
+
+    shown.forEach(({ model }, position) => {
+      const evaluation = evaluations[toResponseLabel(position)];
+      if (evaluation) {
+        runs.set(model, [...(runs.get(model) || []), { ...evaluation, position }]);
+      }
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Batch evaluation failed: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const parsed = parseJsonResponse(data.response || data.content || "");
-
-    // Validate each evaluation in the batch
-    const evaluations: Record<string, ResponseEvaluation> = {};
-    for (const [model, evalData] of Object.entries(parsed.evaluations || {})) {
-      evaluations[model] = validateEvaluation(evalData);
-    }
+  const evaluations: Record<string, ResponseEvaluation> = {};
+  runs.forEach((modelRuns, model) => {
+    evaluations[model] = {
+      ...averageScores(modelRuns, rubric),
+      ...mergeExplanations(modelRuns),
+      rubric: toRubricDefinition(rubric),
+      blind: true,
+      ...(modelRuns.length > 1 && {
+        runs: modelRuns.map(({ position, parameterScores, finalScore }) => ({
+          position,
+          parameterScores,
+          finalScore,
+        })),
+      }),
+    };
+  });
+  return { evaluations };
+}
 
-    return { evaluations };
+/**
+ * Evaluates all responses in a single API call, or one call per ordering
+ * when judging blind
+ */
+export async function evaluateAllResponses(
+  request: BatchEvaluationRequest,
+  evalModel: string = DEFAULT_JUDGE_MODEL,
+  host?: string,
+  rubric: RubricDefinition = DEFAULT_RUBRIC,
+  { blind = false, orderings = 1 }: JudgeBiasOptions = {}
+): Promise<BatchEvaluationResponse> {
+  try {
+    return blind
+      ? await evaluateAllResponsesBlind(request, evalModel, host, rubric, orderings)
+      : await requestBatchEvaluation(request, evalModel, host, rubric, false);
   } catch (error) {
     console.error("Error in batch evaluation:", error);
     throw error;
@@ -451,7 +553,8 @@ export async function evaluateAllResponses(
  */
 export async function analyzeAllHighlights(
   request: BatchHighlightRequest,
-  evalModel: string = DEFAULT_EVAL_MODEL
+  evalModel: string = DEFAULT_JUDGE_MODEL,
+  host?: string
 ): Promise<BatchHighlightResponse> {
   const prompt = buildBatchHighlightPrompt(request);
 
@@ -463,8 +566,14 @@ export async function analyzeAllHighlights(
       },
       body: JSON.stringify({
         model: evalModel,
+        host,
         prompt,
         type: "batch-highlight",
+        format: perModelSchema(
+          "highlights",
+          request.responses.map((r) => r.model),
+          HIGHLIGHT_SCHEMA
+        ),
       }),
     });
 
@@ -0,0 +1,262 @@
+import type {
+  EvaluationRubric,
+  JsonSchema,
+  ParameterScores,
+  RubricCriterion,
+  RubricDefinition,
+} from "@/types";
+
+const READABILITY_LEVELS = ["easy", "medium", "difficult", "technical"];
+
+// The fixed criteria judges used before rubrics could be customized
+export const DEFAULT_RUBRIC: EvaluationRubric = {
+  id: "default",
+  name: "General",
+  scaleMin: 1,
+  scaleMax: 4,
+  criteria: [
+    {
+      key: "accuracy",
+      name: "Accuracy",
+      description: `How correct and reliable is the information?
+- Technical: Factual correctness, no misinformation
+- Creative: Internal consistency, logical coherence
+- 1=poor/incorrect, 2=some errors, 3=mostly correct, 4=excellent/precise`,
+      weight: 1,
+    },
+    {
+      key: "depth",
+      name: "Depth",
+      description: `How comprehensive and detailed is the response?
+- Technical: Thorough coverage, detailed explanations
+- Creative: Rich detail, well-developed ideas and descriptions
+- 1=superficial, 2=basic, 3=good detail, 4=comprehensive`,
+      weight: 1,
+    },
+    {
+      key: "clarity",
+      name: "Clarity",
+      description: `How clear and understandable is the response?
+- Technical: Easy to follow, concepts well-explained
+- Creative: Vivid expression, clear communication of ideas
+- 1=very confusing, 2=somewhat unclear, 3=clear, 4=exceptionally clear`,
+      weight: 1,
+    },
+    {
+      key: "structure",
+      name: "Structure",
+      description: `How well-organized and coherent is the response?
+- Technical: Logical flow, good organization, no redundancy
+- Creative: Strong narrative/argumentative structure, smooth transitions
+- 1=disorganized/rambling, 2=somewhat structured, 3=well-organized, 4=excellent structure`,
+      weight: 1,
+    },
+    {
+      key: "relevance",
+      name: "Relevance",
+      description: `How well does it address the question/prompt?
+- Both: Stays focused, directly addresses what was asked
+- 1=off-topic, 2=partially relevant, 3=relevant, 4=highly focused and relevant`,
+      weight: 1,
+    },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+export const getScoredCriteria = (rubric: RubricDefinition) =>
+  rubric.criteria.filter((criterion) => !criterion.passFail);
+
+export const getCheckCriteria = (rubric: RubricDefinition) =>
+  rubric.criteria.filter((criterion) => criterion.passFail);
+
+/**
+ * Get a JSON property name for a criterion, e.g. "Cites sources" -> "cites_sources".
+ * Suffixed with a number when another criterion already uses it.
+ */
+export function toCriterionKey(name: string, taken: string[] = []): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "criterion";
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) {
+    key = `${base}_${i}`;
+  }
+  return key;
+}
+
+/**
+ * Check a rubric can be used by a judge. Returns the problem, or null.
+ */
+export function getRubricError(rubric: RubricDefinition): string | null {
+  if (!rubric.name.trim()) return "Give the rubric a name";
+  if (!(rubric.scaleMax > rubric.scaleMin)) return "The scale maximum must be above its minimum";
+  if (getScoredCriteria(rubric).length === 0) return "Add at least one scored criterion";
+  if (rubric.criteria.some((criterion) => !criterion.name.trim())) return "Every criterion needs a name";
+  if (getScoredCriteria(rubric).some((criterion) => !(criterion.weight > 0))) {
+    return "Weights must be above 0";
+  }
+  return null;
+}
+
+/**
+ * JSON Schema for one evaluation under a rubric, sent as Ollama's `format`
+ */
+export function buildEvaluationSchema(rubric: RubricDefinition): JsonSchema {
+  const scored = getScoredCriteria(rubric).map((criterion) => criterion.key);
+  const checks = getCheckCriteria(rubric).map((criterion) => criterion.key);
+  const scoreSchema: JsonSchema = {
+    type: "number",
+    minimum: rubric.scaleMin,
+    maximum: rubric.scaleMax,
+  };
+
+  return {
+    type: "object",
+    properties: {
+      readability: { type: "string", enum: READABILITY_LEVELS },
+      parameterScores: {
+        type: "object",
+        properties: Object.fromEntries(scored.map((key) => [key, scoreSchema])),
+        required: scored,
+      },
+      ...(checks.length > 0 && {
+        checks: {
+          type: "object",
+          properties: Object.fromEntries(checks.map((key) => [key, { type: "boolean" }])),
+          required: checks,
+        },
+      }),
+      rationales: {
+        type: "object",
+        properties: Object.fromEntries(
+          [...scored, ...checks].map((key) => [key, { type: "string" }])
+        ),
+        required: [...scored, ...checks],
+      },
+      issues: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            criterion: { type: "string", enum: [...scored, ...checks] },
+            problem: { type: "string" },
+            quote: { type: "string" },
+          },
+          required: ["criterion", "problem", "quote"],
+        },
+      },
+    },
+    required: [
+      "readability",
+      "parameterScores",
+      ...(checks.length > 0 ? ["checks"] : []),
+      "rationales",
+      "issues",
+    ],
+  };
+}
+
+/**
+ * The JSON shape of one evaluation, as shown to the judge
+ */
+export function describeEvaluationShape(rubric: RubricDefinition, indent = ""): string {
+  const range = `${rubric.scaleMin}-${rubric.scaleMax}`;
+  const scored = getScoredCriteria(rubric);
+  const checks = getCheckCriteria(rubric);
+  const describeObject = (name: string, entries: string[]) =>
+    `  "${name}": {\n${entries.map((entry) => `    ${entry}`).join(",\n")}\n  }`;
+
+  const fields = [
+    `  "readability": "easy" | "medium" | "difficult" | "technical"`,
+    describeObject(
+      "parameterScores",
+      scored.map((criterion) => `"${criterion.key}": ${range}`)
+    ),
+  ];
+  if (checks.length > 0) {
+    fields.push(
+      describeObject(
+        "checks",
+        checks.map((criterion) => `"${criterion.key}": true | false`)
+      )
+    );
+  }
+  fields.push(
+    describeObject(
+      "rationales",
+      [...scored, ...checks].map((criterion) => `"${criterion.key}": "why it got this result"`)
+    ),
+    `  "issues": [
+    { "criterion": "${scored[0]?.key ?? "criterion"}", "problem": "what is wrong", "quote": "exact words from the response" }
+  ]`
+  );
+
+  return ["{", fields.join(",\n"), "}"].join("\n").replace(/\n/g, `\n${indent}`);
+}
+
+const describeCriterion = (criterion: RubricCriterion) => {
+  const [summary, ...details] = (criterion.description.trim() || criterion.name).split("\n");
+  return [
+    `  * ${criterion.key}: ${summary}`,
+    ...details.map((line) => `    ${line.trim()}`),
+  ].join("\n");
+};
+
+/**
+ * The EVALUATION CRITERIA section of a judge prompt
+ */
+export function describeRubric(rubric: RubricDefinition): string {
+  const sections = [
+    `EVALUATION CRITERIA:
+
+- Readability: Assess based on vocabulary complexity and sentence structure
+  * "easy": Simple language, short sentences, accessible to all readers
+  * "medium": Moderate complexity, balanced vocabulary
+  * "difficult": Complex language, sophisticated vocabulary
+  * "technical": Specialized terminology, assumes domain knowledge`,
+    `- Parameter Scores (${rubric.scaleMin}-${rubric.scaleMax} scale):
+${getScoredCriteria(rubric).map(describeCriterion).join("\n\n")}`,
+  ];
+
+  const checks = getCheckCriteria(rubric);
+  if (checks.length > 0) {
+    sections.push(`- Checks (true if the response passes, false if it fails):
+${checks.map(describeCriterion).join("\n\n")}`);
+  }
+
+  sections.push(`- Rationales: for every criterion, one or two sentences on why the response got its score or check result. Point to specifics in the response.
+
+- Issues: every specific problem you found, with the criterion it counts against. "quote" must be copied word for word from the response (one sentence or less) so it can be found in it. Leave "quote" empty when the problem is something missing. Use an empty list when there are no problems.`);
+  return sections.join("\n\n");
+}
+
+/**
+ * Weighted average of the scored criteria, rounded to 1 decimal
+ */
+export function computeFinalScore(scores: ParameterScores, rubric: RubricDefinition): number {
+  const scored = getScoredCriteria(rubric).filter((criterion) => criterion.key in scores);
+  const totalWeight = scored.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight === 0) return rubric.scaleMin;
+  const total = scored.reduce((sum, criterion) => sum + scores[criterion.key] * criterion.weight, 0);
+  return Math.round((total / totalWeight) * 10) / 10;
+}
+
+/**
+ * Position of a score on the rubric's scale, from 0 (min) to 1 (max)
+ */
+export function normalizeScore(score: number, rubric: RubricDefinition): number {
+  return (score - rubric.scaleMin) / (rubric.scaleMax - rubric.scaleMin);
+}
+
+/**
+ * The rubric stored with an evaluation, minus its library fields
+ */
+export const toRubricDefinition = ({
+  name,
+  scaleMin,
+  scaleMax,
+  criteria,
+}: RubricDefinition): RubricDefinition => ({ name, scaleMin, scaleMax, criteria });
@@ -0,0 +1,26 @@
+import type {
+  ChatSystemPrompts,
+  OllamaChatMessage,
+  SystemPromptRef,
+} from "@/types";
+
+/**
+ * Get the system prompt for a model: its own override, else the global one
+ */
+export function resolveSystemPrompt(
+  systemPrompts: ChatSystemPrompts | undefined,
+  model: string
+): SystemPromptRef | undefined {
+  return systemPrompts?.perModel?.[model] || systemPrompts?.global;
+}
+
+/**
+ * Prepend the model's system prompt (if any) to a conversation
+ */
+export function withSystemPrompt(
+  messages: OllamaChatMessage[],
+  systemPrompt?: SystemPromptRef
+): OllamaChatMessage[] {
+  if (!systemPrompt?.content.trim()) return messages;
+  return [{ role: "system", content: systemPrompt.content }, ...messages];
+}
@@ -0,0 +1,58 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createThinkingTracker, splitThinking } from "@/lib/utils/thinking";
+
+describe("splitThinking", () => {
+  test("leaves text without tags alone", () => {
+    assert.deepEqual(splitThinking("  Just an answer"), { thinking: "", content: "  Just an answer" });
+  });
+
+  test("pulls a leading block out of the answer", () => {
+    assert.deepEqual(splitThinking("<think>\nLet me see.\n</think>\n\nThe answer is 4."), {
+      thinking: "Let me see.",
+      content: "The answer is 4.",
+    });
+  });
+
+  test("treats an unclosed block as thinking still streaming", () => {
+    assert.deepEqual(splitThinking("<think>Still going"), { thinking: "Still going", content: "" });
+  });
+
+  test("treats everything before a lone closing tag as thinking", () => {
+    assert.deepEqual(splitThinking("Opened by the template</think>Answer"), {
+      thinking: "Opened by the template",
+      content: "Answer",
+    });
+  });
+
+  test("joins several blocks", () => {
+    assert.deepEqual(splitThinking("<think>one</think>A<think>two</think>B"), {
+      thinking: "one\n\ntwo",
+      content: "AB",
+    });
+  });
+});
+
+describe("createThinkingTracker", () => {
+  test("reports which chunks are inside a block", () => {
+    const isThinking = createThinkingTracker();
+    assert.deepEqual(
+      ["<think>", "hmm", "</think>", "Answer", "more"].map((chunk) => isThinking(chunk)),
+      [true, true, true, false, false]
+    );
+  });
+
+  test("finds tags split across chunks", () => {
+    const isThinking = createThinkingTracker();
+    assert.deepEqual(
+      ["<thi", "nk>hmm</th", "ink>", "Answer"].map((chunk) => isThinking(chunk)),
+      [false, true, true, false]
+    );
+  });
+
+  test("counts a chunk that opens and closes a block", () => {
+    const isThinking = createThinkingTracker();
+    assert.equal(isThinking("<think>quick</think>Answer"), true);
+    assert.equal(isThinking(" more"), false);
+  });
+});
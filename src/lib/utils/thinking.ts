@@ -0,0 +1,85 @@
+// Reasoning models either send their reasoning in Ollama's separate
+// `thinking` field or, with older Ollama versions and templates, inline as
+// <think>...</think> at the start of the content. These helpers pull the
+// inline form apart so both end up in the same place.
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+export interface SplitThinking {
+  thinking: string;
+  content: string;
+}
+
+/**
+ * Separate inline <think> blocks from the answer. An unclosed block at the
+ * end (still streaming) counts as thinking, and a lone </think> means the
+ * template opened the block, so everything before it is thinking.
+ */
+export function splitThinking(text: string): SplitThinking {
+  if (!text.includes(OPEN_TAG) && !text.includes(CLOSE_TAG)) {
+    return { thinking: "", content: text };
+  }
+
+  const thinking: string[] = [];
+  let content = "";
+  let rest = text;
+
+  const firstClose = rest.indexOf(CLOSE_TAG);
+  const firstOpen = rest.indexOf(OPEN_TAG);
+  if (firstClose !== -1 && (firstOpen === -1 || firstClose < firstOpen)) {
+    thinking.push(rest.slice(0, firstClose));
+    rest = rest.slice(firstClose + CLOSE_TAG.length);
+  }
+
+  while (rest) {
+    const open = rest.indexOf(OPEN_TAG);
+    if (open === -1) {
+      content += rest;
+      break;
+    }
+    content += rest.slice(0, open);
+    rest = rest.slice(open + OPEN_TAG.length);
+    const close = rest.indexOf(CLOSE_TAG);
+    if (close === -1) {
+      thinking.push(rest);
+      break;
+    }
+    thinking.push(rest.slice(0, close));
+    rest = rest.slice(close + CLOSE_TAG.length);
+  }
+
+  return {
+    thinking: thinking.map((part) => part.trim()).filter(Boolean).join("\n\n"),
+    content: content.trimStart(),
+  };
+}
+
+/**
+ * Returns a function that, fed streamed content chunk by chunk, reports
+ * whether each chunk was (at least partly) inside a <think> block. Used to
+ * count thinking tokens for models that reason inline.
+ */
+export function createThinkingTracker(): (chunk: string) => boolean {
+  let inside = false;
+  // Unscanned end of the previous chunk, in case a tag is split across chunks
+  let carry = "";
+
+  return (chunk) => {
+    const text = carry + chunk;
+    let touched = inside;
+    let position = 0;
+
+    while (true) {
+      const tag = inside ? CLOSE_TAG : OPEN_TAG;
+      const at = text.indexOf(tag, position);
+      if (at === -1) break;
+      inside = !inside;
+      touched = true;
+      position = at + tag.length;
+    }
+
+    carry = text.slice(Math.max(position, text.length - (CLOSE_TAG.length - 1)));
+    return touched || inside;
+  };
+}
@@ -1,14 +1,36 @@
 import { create } from "zustand";
-import type { ModelResponse } from "@/types";
+import type {
+  ModelResponse,
+  GenerationMode,
+  GenerationOptions,
+  ChatSystemPrompts,
+  OllamaFormat,
+} from "@/types";
 
 interface ChatState {
   currentChatId: string | null;
   selectedModels: string[];
+  modelHosts: Record<string, string>; // model -> host id it was selected from
+  modelOptions: Record<string, GenerationOptions>; // model -> sampling options
+  draftSystemPrompts: ChatSystemPrompts; // personas for the next chat to be created
+  draftRubricId: string | null; // rubric for the next chat to be created
   currentResponses: Record<string, ModelResponse>; // model -> response
+  generationMode: GenerationMode;
+  enabledTools: string[]; // names of the built-in and custom tools offered to models in chat mode
+  responseFormat: OllamaFormat | null; // structured output required from the next prompts
+  activeCollectionId: string | null; // knowledge collection searched for each prompt
   isLoading: boolean;
   regeneratingModels: Set<string>; // models currently being regenerated
   setCurrentChatId: (chatId: string | null) => void;
   setSelectedModels: (models: string[]) => void;
+  setModelHost: (model: string, hostId: string) => void;
+  setModelOptions: (model: string, options: GenerationOptions) => void;
+  setDraftSystemPrompts: (systemPrompts: ChatSystemPrompts) => void;
+  setDraftRubricId: (rubricId: string | null) => void;
+  setGenerationMode: (mode: GenerationMode) => void;
+  setEnabledTools: (tools: string[]) => void;
+  setResponseFormat: (format: OllamaFormat | null) => void;
+  setActiveCollectionId: (collectionId: string | null) => void;
   addResponse: (model: string, response: ModelResponse) => void;
   clearResponses: () => void;
   clearModelResponse: (model: string) => void;
@@ -19,11 +41,34 @@ interface ChatState {
 export const useChatStore = create<ChatState>((set) => ({
   currentChatId: null,
   selectedModels: [],
+  modelHosts: {},
+  modelOptions: {},
+  draftSystemPrompts: {},
+  draftRubricId: null,
   currentResponses: {},
+  generationMode: "chat",
+  enabledTools: [],
+  responseFormat: null,
+  activeCollectionId: null,
   isLoading: false,
   regeneratingModels: new Set(),
   setCurrentChatId: (chatId) => set({ currentChatId: chatId }),
   setSelectedModels: (models) => set({ selectedModels: models }),
+  setModelHost: (model, hostId) =>
+    set((state) => ({
+      modelHosts: { ...state.modelHosts, [model]: hostId },
+    })),
+  setModelOptions: (model, options) =>
+    set((state) => ({
+      modelOptions: { ...state.modelOptions, [model]: options },
+    })),
+  setDraftSystemPrompts: (systemPrompts) =>
+    set({ draftSystemPrompts: systemPrompts }),
+  setDraftRubricId: (rubricId) => set({ draftRubricId: rubricId }),
+  setGenerationMode: (mode) => set({ generationMode: mode }),
+  setEnabledTools: (tools) => set({ enabledTools: tools }),
+  setResponseFormat: (format) => set({ responseFormat: format }),
+  setActiveCollectionId: (collectionId) => set({ activeCollectionId: collectionId }),
   addResponse: (model, response) =>
     set((state) => ({
       currentResponses: {
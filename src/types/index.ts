@@ -4,6 +4,31 @@ export interface Chat {
   title: string;
   createdAt: number;
   updatedAt: number;
+  systemPrompts?: ChatSystemPrompts; // personas used in this chat
+  rubricId?: string; // rubric judges score this chat's responses with, the default if unset
+  activeBranches?: Record<string, string>; // parent prompt id (or "root") -> selected child prompt id
+}
+
+// Reusable system prompt from the persona library
+export interface SystemPrompt {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A system prompt as chosen for a chat. The content is copied so the chat
+// keeps its personas even if the library entry is edited or deleted.
+export interface SystemPromptRef {
+  promptId?: string;
+  name: string;
+  content: string;
+}
+
+export interface ChatSystemPrompts {
+  global?: SystemPromptRef; // sent to every model
+  perModel?: Record<string, SystemPromptRef>; // model -> override of the global prompt
 }
 
 export interface Attachment {
@@ -13,8 +38,17 @@ export interface Attachment {
   data: string; // base64 encoded data for images, file content/URL for files
   mimeType?: string;
   size?: number; // in bytes
+  width?: number; // for images, pixel size after resizing
+  height?: number;
+  text?: string; // for files, the extracted text that is sent to models
+  maxTokens?: number; // for files, cut the text to about this many tokens when sending
+  extractError?: string; // for files, why no text could be extracted
 }
 
+// "chat" uses /api/chat with the model's template, "completion" sends the
+// prompt verbatim to /api/generate with raw: true (useful for base models)
+export type GenerationMode = "chat" | "completion";
+
 export interface Message {
   id: string;
   chatId: string;
@@ -24,6 +58,17 @@ export interface Message {
   attachments?: Attachment[]; // for user messages with images/files
   createdAt: number;
   orderIndex: number; // message order in conversation
+  parentId?: string | null; // prompt this message follows: the previous prompt for user messages, the answered prompt for responses
+  mode?: GenerationMode; // for user messages, how the prompt was sent (defaults to chat)
+  format?: OllamaFormat; // for user messages, the structured output the responses must follow
+  citations?: Citation[]; // for user messages, knowledge chunks retrieved and sent with the prompt
+  truncated?: boolean; // assistant message was stopped before the model finished
+  error?: string; // assistant message was cut short by an upstream error
+  toolCalls?: ToolCallStep[]; // tools the model called before answering, in order
+  thinking?: string; // reasoning trace, kept apart from content so it isn't judged or sent back as history
+  metrics?: ResponseMetrics; // performance stats for assistant messages
+  options?: GenerationOptions; // sampling options the response was generated with
+  hostId?: string; // for assistant messages, the Ollama host that answered
   evaluation?: ResponseEvaluation; // Evaluation results for assistant messages
   highlightAnalysis?: HighlightAnalysis; // Highlight analysis for assistant messages
 }
@@ -33,6 +78,58 @@ export interface UserSettings {
   theme: "light" | "dark" | "system";
   defaultModels: string[];
   preferences: Record<string, unknown>;
+  hosts?: OllamaHost[]; // additional Ollama hosts, the server default is always available
+  dispatch?: DispatchSettings;
+  images?: ImageSettings;
+  judges?: JudgeSettings;
+}
+
+// How a prompt is fanned out to the selected models
+export type DispatchStrategy = "sequential" | "parallel" | "bounded";
+
+export interface DispatchSettings {
+  strategy: DispatchStrategy;
+  concurrency: number; // max models in flight for the "bounded" strategy
+  // host id -> models that may run at once on that host (mirrors the server's
+  // OLLAMA_MAX_LOADED_MODELS so parallel runs don't thrash model loading)
+  hostLimits?: Record<string, number>;
+}
+
+// Models that judge responses. Each response is scored by every judge except
+// the model that wrote it, and their scores are combined.
+export interface JudgeSettings {
+  models: string[];
+  blind: boolean; // hide model names from judges and shuffle the response order
+  orderings: number; // blind batch runs per judge, each in a different order
+  hosts?: Record<string, string>; // judge model -> id of the host it runs on (default host if unset)
+}
+
+// How attached images are resized and re-encoded before they're sent and stored
+export interface ImageSettings {
+  maxDimension: number; // longest side in pixels, 0 keeps the original size
+}
+
+export interface OllamaHost {
+  id: string;
+  name: string;
+  baseUrl: string; // empty string means the server's default Ollama URL
+}
+
+// Sampling options forwarded to Ollama's `options` field
+export type GenerationOptions = {
+  temperature?: number;
+  top_p?: number;
+  num_ctx?: number;
+  seed?: number;
+  stop?: string[];
+  think?: boolean; // sent as Ollama's top-level think flag, not under options
+};
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  options: GenerationOptions;
+  createdAt: number;
 }
 
 // Ollama types
@@ -49,12 +146,76 @@ export interface OllamaModel {
     parameter_size?: string;
     quantization_level?: string;
   };
+  host?: string; // id of the OllamaHost the model was listed from
+  capabilities?: ModelCapabilities; // from /api/show, missing until it has loaded
+}
+
+// What a model can do, read from /api/show
+export interface ModelCapabilities {
+  completion: boolean; // can chat and generate text
+  vision: boolean;
+  tools: boolean;
+  thinking: boolean;
+  embedding: boolean;
+  contextLength?: number; // the model's trained context, not num_ctx
+  parameterSize?: string;
+  quantization?: string;
 }
 
 export interface OllamaListResponse {
   models: OllamaModel[];
 }
 
+// Progress line streamed by /api/pull (total/completed are bytes of the current layer)
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+// Model details from /api/show
+export interface OllamaShowResponse {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  license?: string;
+  system?: string;
+  details?: OllamaModel["details"];
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+  modified_at?: string;
+}
+
+// Model currently loaded in memory, from /api/ps
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  size: number;
+  digest: string;
+  details?: OllamaModel["details"];
+  expires_at: string;
+  size_vram: number;
+}
+
+export interface OllamaProcessResponse {
+  models: OllamaRunningModel[];
+}
+
+// A JSON Schema. Only the keywords the app inspects are typed.
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+}
+
+// Ollama's structured output: "json" for any JSON, or a schema to follow
+export type OllamaFormat = "json" | JsonSchema;
+
 export interface OllamaGenerateRequest {
   model: string;
   prompt: string;
@@ -62,12 +223,50 @@ export interface OllamaGenerateRequest {
   images?: string[]; // base64 encoded images
   context?: number[]; // context array for /api/generate
   options?: Record<string, unknown>;
+  raw?: boolean; // bypass the model's prompt template
+  format?: OllamaFormat;
+  think?: boolean; // reasoning models: stream thinking separately (true) or skip it (false)
 }
 
 export interface OllamaChatMessage {
-  role: "user" | "assistant" | "system";
+  role: "user" | "assistant" | "system" | "tool";
   content: string;
   images?: string[]; // base64 encoded images
+  tool_calls?: OllamaToolCall[]; // calls the assistant made in this turn
+  tool_name?: string; // for role "tool", which tool produced the result
+}
+
+// A function the model may call, described with JSON Schema
+export interface OllamaTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema; // an object schema for the call's arguments
+  };
+}
+
+// A tool the user defined. Calls are checked against its parameter schema
+// and answered with a fixed result, so models can be compared on when and
+// how they call it.
+export interface CustomToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  result: string; // returned to the model on every valid call
+}
+
+export interface CustomTool extends CustomToolDefinition {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
 }
 
 export interface OllamaChatRequest {
@@ -75,6 +274,23 @@ export interface OllamaChatRequest {
   messages: OllamaChatMessage[];
   stream?: boolean;
   options?: Record<string, unknown>;
+  tools?: OllamaTool[];
+  format?: OllamaFormat;
+  think?: boolean;
+}
+
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string | string[];
+  truncate?: boolean; // cut inputs to the model's context instead of failing
+}
+
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
 }
 
 export interface OllamaGenerateResponse {
@@ -83,6 +299,8 @@ export interface OllamaGenerateResponse {
   response: string;
   done: boolean;
   context?: number[];
+  tool_calls?: OllamaToolCall[]; // chat only
+  thinking?: string; // reasoning text, when requested with think: true
   total_duration?: number;
   load_duration?: number;
   prompt_eval_count?: number;
@@ -91,12 +309,41 @@ export interface OllamaGenerateResponse {
   eval_duration?: number;
 }
 
+// Token and timing stats Ollama reports on the final chunk (durations in ns)
+export type OllamaMetrics = Pick<
+  OllamaGenerateResponse,
+  | "total_duration"
+  | "load_duration"
+  | "prompt_eval_count"
+  | "prompt_eval_duration"
+  | "eval_count"
+  | "eval_duration"
+>;
+
+export interface ResponseMetrics extends OllamaMetrics {
+  time_to_first_token?: number; // ms from sending the request to the first token, measured in the browser
+  thinking_count?: number; // tokens spent thinking, included in eval_count
+}
+
 // App types
 export interface ModelResponse {
   model: string;
   content: string;
   error?: string;
   done: boolean;
+  truncated?: boolean; // generation was stopped by the user
+  metrics?: ResponseMetrics;
+  toolCalls?: ToolCallStep[];
+  thinking?: string;
+}
+
+// One tool call a model made while answering, and what the tool returned
+export interface ToolCallStep {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: string;
+  error?: string;
+  durationMs: number;
 }
 
 export interface ChatMessage {
@@ -109,23 +356,78 @@ export interface ChatMessage {
 // Evaluation types
 export type ReadabilityLevel = "easy" | "medium" | "difficult" | "technical";
 
-export interface ParameterScores {
-  accuracy: number; // 1-4
-  depth: number; // 1-4
-  clarity: number; // 1-4
-  structure: number; // 1-4
-  relevance: number; // 1-4
+// Criterion key -> score on the rubric's scale
+export type ParameterScores = Record<string, number>;
+
+export interface RubricCriterion {
+  key: string; // property the judge scores it under, derived from the name
+  name: string;
+  description: string; // what the judge should look for
+  weight: number; // share of the final score, relative to the other criteria
+  passFail?: boolean; // judged pass/fail instead of on the scale, and left out of the score
+}
+
+// What judges are asked to score, and how the scores combine
+export interface RubricDefinition {
+  name: string;
+  scaleMin: number;
+  scaleMax: number;
+  criteria: RubricCriterion[];
+}
+
+export interface EvaluationRubric extends RubricDefinition {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A specific problem a judge found, quoting the part of the response it's about
+export interface EvaluationIssue {
+  criterion: string; // key of the criterion it counts against
+  problem: string;
+  quote: string; // verbatim from the response, empty when something is missing
+  judgeModel?: string; // who flagged it, on panel evaluations
+}
+
+// One blind run's scores for a response, and where it was shown in the list
+export interface OrderingRun {
+  position: number; // 0 for the first response shown
+  parameterScores: ParameterScores;
+  finalScore: number;
+}
+
+// One judge's scores for a response judged by a panel
+export interface JudgeVerdict {
+  judgeModel: string;
+  readability: ReadabilityLevel;
+  parameterScores: ParameterScores;
+  checks?: Record<string, boolean>;
+  finalScore: number;
+  rationales?: Record<string, string>;
+  issues?: EvaluationIssue[];
+  runs?: OrderingRun[];
 }
 
 export interface ResponseEvaluation {
   readability: ReadabilityLevel;
   parameterScores: ParameterScores;
-  finalScore: number; // 1-4 (average of parameters)
+  checks?: Record<string, boolean>; // pass/fail criterion key -> passed
+  finalScore: number; // weighted average of the scored criteria
+  rationales?: Record<string, string>; // criterion key -> why the judge scored it so
+  issues?: EvaluationIssue[]; // problems the judges flagged, from every judge on a panel
+  rubric?: RubricDefinition; // what it was judged with, the default rubric if missing
+  judgeModel?: string; // set when a single judge's evaluation is saved to its message
+  judges?: JudgeVerdict[]; // each judge's scores when a panel judged it, the scores above combine them
+  blind?: boolean; // judged without model names
+  runs?: OrderingRun[]; // each ordering's scores when judged blind in several orders, averaged above
+  evaluatedAt?: number;
 }
 
 export interface HighlightAnalysis {
   similarSentences: string[]; // Sentences that match semantically across responses
   differentSentences: string[]; // Sentences unique to this response
+  judgeModel?: string; // set when the analysis is saved to its message
+  analyzedAt?: number;
 }
 
 export interface EvaluationRequest {
@@ -170,3 +472,43 @@ export interface BatchHighlightResponse {
   highlights: Record<string, HighlightAnalysis>;
 }
 
+
+// Knowledge collections: documents split into chunks and embedded with an
+// Ollama embedding model, searched at send time to ground prompts
+export interface KnowledgeCollection {
+  id: string;
+  name: string;
+  embeddingModel: string; // every chunk and query in the collection uses this model
+  embeddingHost?: string; // id of the host the model runs on (default host if unset)
+  topK: number; // chunks retrieved per prompt
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  collectionId: string;
+  name: string;
+  size?: number; // in bytes
+  chunkCount: number;
+  createdAt: number;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  collectionId: string;
+  documentId: string;
+  documentName: string;
+  index: number; // position within the document
+  text: string;
+  embedding: number[];
+}
+
+// A chunk retrieved for a prompt, numbered [1], [2]... in the order given
+export interface Citation {
+  chunkId: string;
+  documentName: string;
+  index: number;
+  text: string;
+  score: number; // cosine similarity to the prompt
+}